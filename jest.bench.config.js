@@ -0,0 +1,8 @@
+// Benchmarks seed large datasets; they run on demand with `npm run bench`
+const config = require('./jest.config');
+
+module.exports = {
+  ...config,
+  testMatch: ['**/?(*.)+(bench).ts'],
+  testTimeout: 1800000,
+};
@@ -4,28 +4,122 @@
 -- Drop the view first
 DROP VIEW IF EXISTS pgcalendar.event_calendar;
 
+-- Drop triggers
+DROP TRIGGER IF EXISTS audit_event_change_trigger ON pgcalendar.events;
+DROP TRIGGER IF EXISTS audit_schedule_change_trigger ON pgcalendar.schedules;
+DROP TRIGGER IF EXISTS audit_exception_change_trigger ON pgcalendar.exceptions;
+DROP TRIGGER IF EXISTS notify_event_change_trigger ON pgcalendar.events;
+DROP TRIGGER IF EXISTS notify_schedule_change_trigger ON pgcalendar.schedules;
+DROP TRIGGER IF EXISTS notify_exception_change_trigger ON pgcalendar.exceptions;
+DROP TRIGGER IF EXISTS validate_exception_booking_trigger ON pgcalendar.exceptions;
+DROP TRIGGER IF EXISTS validate_schedule_booking_trigger ON pgcalendar.schedules;
+DROP TRIGGER IF EXISTS validate_occurrence_response_trigger ON pgcalendar.occurrence_responses;
+DROP TRIGGER IF EXISTS refresh_holiday_delete_projections_trigger ON pgcalendar.holidays;
+DROP TRIGGER IF EXISTS refresh_holiday_update_projections_trigger ON pgcalendar.holidays;
+DROP TRIGGER IF EXISTS refresh_holiday_insert_projections_trigger ON pgcalendar.holidays;
+DROP TRIGGER IF EXISTS refresh_event_projections_trigger ON pgcalendar.events;
+DROP TRIGGER IF EXISTS refresh_exception_projections_trigger ON pgcalendar.exceptions;
+DROP TRIGGER IF EXISTS refresh_schedule_projections_trigger ON pgcalendar.schedules;
+DROP TRIGGER IF EXISTS normalize_schedule_rrule_trigger ON pgcalendar.schedules;
+DROP TRIGGER IF EXISTS prevent_schedule_overlap_trigger ON pgcalendar.schedules;
+DROP TRIGGER IF EXISTS update_schedules_updated_at ON pgcalendar.schedules;
+DROP TRIGGER IF EXISTS update_events_updated_at ON pgcalendar.events;
+
 -- Drop functions
-DROP FUNCTION IF EXISTS pgcalendar.transition_event_schedule(INTEGER, TIMESTAMP, TIMESTAMP, recurrence_type, INTEGER, INTEGER, INTEGER, INTEGER, TEXT);
-DROP FUNCTION IF EXISTS pgcalendar.check_schedule_overlap(INTEGER, TIMESTAMP, TIMESTAMP);
-DROP FUNCTION IF EXISTS pgcalendar.get_events_detailed(DATE, DATE);
-DROP FUNCTION IF EXISTS pgcalendar.get_event_projections(INTEGER, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.convert_schedule_to_rrule(INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.transition_event_schedule(INTEGER, TIMESTAMP, TIMESTAMP, pgcalendar.recurrence_type, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, TEXT, INTEGER, pgcalendar.missing_day_policy, INTEGER[], INTEGER, INTEGER, TIME);
+DROP FUNCTION IF EXISTS pgcalendar.validate_resource_booking();
+DROP FUNCTION IF EXISTS pgcalendar.record_reminder_delivery(INTEGER, INTEGER, DATE, TIMESTAMPTZ, TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.claim_due_reminders(TIMESTAMPTZ, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.queue_due_reminders(TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS pgcalendar.get_due_reminders(TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS pgcalendar.find_free_slots(DATE, DATE, INTERVAL, INTEGER[], INTEGER[], TIME, TIME, INTERVAL, INTERVAL, TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.get_free_busy(DATE, DATE, INTEGER[], INTEGER[], TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.find_conflicts(DATE, DATE, INTEGER[]);
+DROP FUNCTION IF EXISTS pgcalendar.load_holidays(TEXT, JSONB, TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.respond_to_occurrence(INTEGER, DATE, INTEGER, pgcalendar.rsvp_response);
+DROP FUNCTION IF EXISTS pgcalendar.split_schedule(INTEGER, DATE, JSONB, BOOLEAN);
+DROP FUNCTION IF EXISTS pgcalendar.check_schedule_overlap(INTEGER, TIMESTAMP, TIMESTAMP, TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.query_projections(DATE, DATE, TEXT[], TEXT[], INTEGER, INTEGER, INTEGER[], JSONB, TEXT[], INTEGER, TIMESTAMPTZ, INTEGER, INTEGER, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.get_events_detailed(DATE, DATE, TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.get_occurrence_history(INTEGER, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.get_event_projections_as_of(INTEGER, DATE, DATE, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS pgcalendar.audit_rows_as_of(TEXT, INTEGER, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS pgcalendar.get_event_projections(INTEGER, DATE, DATE, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.projection_rows(DATE, DATE, INTEGER, INTEGER, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.record_audit_change();
+DROP FUNCTION IF EXISTS pgcalendar.notify_calendar_change();
+DROP FUNCTION IF EXISTS pgcalendar.change_range(TEXT, RECORD);
+DROP FUNCTION IF EXISTS pgcalendar.occurrence_response(INTEGER, INTEGER, INTEGER, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.books(INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.attends(INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.refresh_holiday_projections_trigger();
+DROP FUNCTION IF EXISTS pgcalendar.refresh_event_projections_trigger();
+DROP FUNCTION IF EXISTS pgcalendar.refresh_exception_projections_trigger();
+DROP FUNCTION IF EXISTS pgcalendar.refresh_schedule_projections_trigger();
+DROP FUNCTION IF EXISTS pgcalendar.extend_projection_window(DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.refresh_schedule_projections(INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.cache_schedule_projections(INTEGER, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.projection_cache_covers(DATE, DATE);
 DROP FUNCTION IF EXISTS pgcalendar.get_next_recurrence_date(RECORD, DATE);
 DROP FUNCTION IF EXISTS pgcalendar.should_generate_projection(RECORD, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.holiday_shift(RECORD, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.is_business_day(RECORD, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.business_day_occurrences(RECORD, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.count_business_days(RECORD, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.is_holiday(INTEGER, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.month_occurrences(RECORD, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.month_occurrence(RECORD, DATE);
 DROP FUNCTION IF EXISTS pgcalendar.generate_projections(INTEGER, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.schedule_projections(INTEGER, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.project_schedule(RECORD, pgcalendar.exceptions[], DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.schedule_occurrences(RECORD, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.occurrence_end(RECORD, DATE, TIMESTAMP);
+DROP FUNCTION IF EXISTS pgcalendar.occurrence_span_days(RECORD);
+DROP FUNCTION IF EXISTS pgcalendar.schedule_series_end(RECORD);
+DROP FUNCTION IF EXISTS pgcalendar.rrule_occurrences(TEXT, DATE, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.rrule_period_dates(pgcalendar.rrule, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.rrule_weekday_matches(TEXT[], DATE, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.parse_rrule(TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.parse_rrule_integers(TEXT, TEXT, TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.normalize_schedule_rrule();
+DROP FUNCTION IF EXISTS pgcalendar.validate_occurrence_response();
 DROP FUNCTION IF EXISTS pgcalendar.prevent_schedule_overlap();
 DROP FUNCTION IF EXISTS pgcalendar.update_updated_at_column();
 
--- Drop triggers
-DROP TRIGGER IF EXISTS prevent_schedule_overlap_trigger ON pgcalendar.schedules;
-DROP TRIGGER IF EXISTS update_schedules_updated_at ON pgcalendar.schedules;
-DROP TRIGGER IF EXISTS update_events_updated_at ON pgcalendar.events;
-
 -- Drop tables
+DROP TABLE IF EXISTS pgcalendar.audit_log;
+DROP TABLE IF EXISTS pgcalendar.projection_cache_settings;
+DROP TABLE IF EXISTS pgcalendar.projections;
+DROP TABLE IF EXISTS pgcalendar.reminder_deliveries;
+DROP TABLE IF EXISTS pgcalendar.reminders;
+DROP TABLE IF EXISTS pgcalendar.event_resources;
+DROP TABLE IF EXISTS pgcalendar.resources;
+DROP TABLE IF EXISTS pgcalendar.occurrence_responses;
+DROP TABLE IF EXISTS pgcalendar.attendees;
+DROP TABLE IF EXISTS pgcalendar.participants;
 DROP TABLE IF EXISTS pgcalendar.exceptions;
 DROP TABLE IF EXISTS pgcalendar.schedules;
 DROP TABLE IF EXISTS pgcalendar.events;
+DROP TABLE IF EXISTS pgcalendar.holidays;
+DROP TABLE IF EXISTS pgcalendar.holiday_sets;
+
+-- Drop helpers used by table constraints, defaults and row-level security policies
+DROP FUNCTION IF EXISTS pgcalendar.is_tenant_resource(INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.is_tenant_participant(INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.is_tenant_holiday_set(INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.is_tenant_schedule(INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.is_tenant_event(INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.is_current_tenant(TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.current_tenant();
+DROP FUNCTION IF EXISTS pgcalendar.zoned_timestamp(TIMESTAMP, TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.is_valid_time_zone(TEXT);
 
 -- Drop types
+DROP TYPE IF EXISTS pgcalendar.rrule;
+DROP TYPE IF EXISTS pgcalendar.rsvp_response;
+DROP TYPE IF EXISTS pgcalendar.holiday_policy;
+DROP TYPE IF EXISTS pgcalendar.missing_day_policy;
 DROP TYPE IF EXISTS pgcalendar.exception_type;
 DROP TYPE IF EXISTS pgcalendar.recurrence_type;
 
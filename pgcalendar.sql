@@ -9,78 +9,465 @@ SET search_path TO pgcalendar, public;
 
 -- Create custom types
 DO $$ BEGIN
-    CREATE TYPE recurrence_type AS ENUM ('daily', 'weekly', 'monthly', 'yearly');
+    CREATE TYPE recurrence_type AS ENUM ('daily', 'weekly', 'monthly', 'yearly', 'business_day');
 EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
 
 DO $$ BEGIN
-    CREATE TYPE exception_type AS ENUM ('cancelled', 'modified');
+    CREATE TYPE exception_type AS ENUM ('cancelled', 'modified', 'added');
 EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
 
+-- Values added since version 1.0.0, for installations being upgraded
+ALTER TYPE recurrence_type ADD VALUE IF NOT EXISTS 'business_day';
+ALTER TYPE exception_type ADD VALUE IF NOT EXISTS 'added';
+
+-- What monthly and yearly schedules do when a month lacks the requested day
+DO $$ BEGIN
+    CREATE TYPE missing_day_policy AS ENUM ('skip', 'clamp', 'roll');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- What a schedule does with occurrences falling on a holiday of its holiday set
+DO $$ BEGIN
+    CREATE TYPE holiday_policy AS ENUM ('skip', 'previous_business_day', 'next_business_day');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- An attendee's answer to an invitation
+DO $$ BEGIN
+    CREATE TYPE rsvp_response AS ENUM ('accepted', 'declined', 'tentative');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Parsed form of an RFC 5545 RRULE (see parse_rrule)
+DO $$ BEGIN
+    CREATE TYPE rrule AS (
+        freq recurrence_type,
+        interval_count INTEGER,
+        count INTEGER,
+        until DATE,
+        by_day TEXT[], -- e.g. {MO,2TU,-1FR}
+        by_month_day INTEGER[], -- -31..31, negative counts from the month end
+        by_month INTEGER[],
+        by_set_pos INTEGER[],
+        week_start INTEGER -- 0=Sunday, 1=Monday, etc.
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Helper function to validate IANA time zone names (e.g. America/New_York)
+CREATE OR REPLACE FUNCTION pgcalendar.is_valid_time_zone(
+    p_time_zone TEXT
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_time_zone);
+$$ language 'sql' STABLE;
+
+-- Helper function to place a wall-clock time in a time zone; NULL keeps the session time zone
+CREATE OR REPLACE FUNCTION pgcalendar.zoned_timestamp(
+    p_local TIMESTAMP,
+    p_time_zone TEXT
+)
+RETURNS TIMESTAMPTZ AS $$
+    SELECT CASE WHEN p_time_zone IS NULL THEN p_local::timestamptz
+                ELSE p_local AT TIME ZONE p_time_zone END;
+$$ language 'sql' STABLE;
+
+-- Helper function to read the session's tenant, the pgcalendar.tenant setting; NULL when it is not set
+CREATE OR REPLACE FUNCTION pgcalendar.current_tenant()
+RETURNS TEXT AS $$
+    SELECT NULLIF(current_setting('pgcalendar.tenant', TRUE), '');
+$$ language 'sql' STABLE;
+
 -- Create tables
 CREATE TABLE IF NOT EXISTS events (
     event_id SERIAL PRIMARY KEY,
     name VARCHAR(255) NOT NULL,
     description TEXT,
     category VARCHAR(100),
+    location VARCHAR(255),
     priority INTEGER DEFAULT 1,
     status VARCHAR(50) DEFAULT 'active',
+    tenant_id TEXT DEFAULT pgcalendar.current_tenant(), -- owner of the event and its schedules; NULL = no tenant
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     metadata JSONB DEFAULT '{}'::jsonb
 );
 
+-- Named sets of holidays, e.g. the public holidays of a country; names are unique per tenant
+CREATE TABLE IF NOT EXISTS holiday_sets (
+    holiday_set_id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    tenant_id TEXT DEFAULT pgcalendar.current_tenant(),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    metadata JSONB DEFAULT '{}'::jsonb
+);
+
+CREATE TABLE IF NOT EXISTS holidays (
+    holiday_set_id INTEGER NOT NULL REFERENCES holiday_sets(holiday_set_id) ON DELETE CASCADE,
+    holiday_date DATE NOT NULL,
+    name VARCHAR(255),
+    PRIMARY KEY (holiday_set_id, holiday_date)
+);
+
 CREATE TABLE IF NOT EXISTS schedules (
     schedule_id SERIAL PRIMARY KEY,
     event_id INTEGER REFERENCES events(event_id) ON DELETE CASCADE,
     description TEXT,
     start_date TIMESTAMP NOT NULL,
-    end_date TIMESTAMP NOT NULL,
+    end_date TIMESTAMP, -- last day of the series; NULL = unbounded. Its time ends each occurrence unless set below
     recurrence_type recurrence_type NOT NULL,
     recurrence_interval INTEGER DEFAULT 1,
     recurrence_day_of_week INTEGER, -- 0=Sunday, 1=Monday, etc.
-    recurrence_day_of_month INTEGER, -- 1-31
+    recurrence_days_of_week INTEGER[], -- weekly: several days, e.g. {1,3,5}; overrides recurrence_day_of_week
+    recurrence_day_of_month INTEGER, -- 1-31, or -1 (last day) to -31; business_day: the nth business day of the month
     recurrence_month INTEGER, -- 1-12
+    recurrence_week_of_month INTEGER, -- 1-5 or -1 (last) to -5; with recurrence_day_of_week, e.g. 2nd Tuesday
+    missing_day_policy missing_day_policy NOT NULL DEFAULT 'skip', -- skip, clamp to the month end, or roll to the next month
+    rrule TEXT, -- RFC 5545 rule, e.g. FREQ=MONTHLY;BYDAY=2TU; overrides the recurrence_* columns
+    time_zone TEXT, -- IANA zone of start_date/end_date and exception times; NULL = floating
+    occurrence_count INTEGER, -- series ends after this many occurrences (COUNT), counted from start_date
+    duration_minutes INTEGER, -- length of each occurrence
+    occurrence_end_time TIME, -- end time of each occurrence; instead of duration_minutes
+    weekend_days INTEGER[] NOT NULL DEFAULT '{0,6}', -- days that are not business days, 0=Sunday
+    holiday_set_id INTEGER REFERENCES holiday_sets(holiday_set_id), -- holidays the series avoids
+    holiday_policy holiday_policy NOT NULL DEFAULT 'skip', -- skip occurrences on a holiday, or move them to a business day
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     metadata JSONB DEFAULT '{}'::jsonb,
     CONSTRAINT valid_recurrence_interval CHECK (recurrence_interval > 0),
     CONSTRAINT valid_day_of_week CHECK (recurrence_day_of_week IS NULL OR (recurrence_day_of_week >= 0 AND recurrence_day_of_week <= 6)),
-    CONSTRAINT valid_day_of_month CHECK (recurrence_day_of_month IS NULL OR (recurrence_day_of_month >= 1 AND recurrence_day_of_month <= 31)),
-    CONSTRAINT valid_month CHECK (recurrence_month IS NULL OR (recurrence_month >= 1 AND recurrence_month <= 12))
+    CONSTRAINT valid_days_of_week CHECK (recurrence_days_of_week IS NULL OR (cardinality(recurrence_days_of_week) > 0 AND recurrence_days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6])),
+    CONSTRAINT valid_weekend_days CHECK (cardinality(weekend_days) < 7 AND weekend_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]),
+    CONSTRAINT valid_day_of_month CHECK (recurrence_day_of_month IS NULL OR (recurrence_day_of_month BETWEEN -31 AND 31 AND recurrence_day_of_month <> 0)),
+    CONSTRAINT valid_week_of_month CHECK (recurrence_week_of_month IS NULL OR (recurrence_week_of_month BETWEEN -5 AND 5 AND recurrence_week_of_month <> 0)),
+    CONSTRAINT valid_month CHECK (recurrence_month IS NULL OR (recurrence_month >= 1 AND recurrence_month <= 12)),
+    CONSTRAINT valid_time_zone CHECK (time_zone IS NULL OR pgcalendar.is_valid_time_zone(time_zone)),
+    CONSTRAINT valid_occurrence_count CHECK (occurrence_count IS NULL OR occurrence_count > 0),
+    CONSTRAINT valid_duration CHECK (duration_minutes IS NULL OR duration_minutes >= 0),
+    CONSTRAINT single_occurrence_end CHECK (duration_minutes IS NULL OR occurrence_end_time IS NULL),
+    CONSTRAINT occurrence_end_defined CHECK (end_date IS NOT NULL OR duration_minutes IS NOT NULL OR occurrence_end_time IS NOT NULL)
 );
 
 CREATE TABLE IF NOT EXISTS exceptions (
     exception_id SERIAL PRIMARY KEY,
     schedule_id INTEGER REFERENCES schedules(schedule_id) ON DELETE CASCADE,
-    exception_date DATE NOT NULL,
+    exception_date DATE NOT NULL, -- the occurrence changed, or for 'added' the extra occurrence's date
     exception_type exception_type NOT NULL,
     modified_date DATE,
     modified_start_time TIMESTAMP,
     modified_end_time TIMESTAMP,
     notes TEXT,
+    -- Replace the event's values for this occurrence; NULL keeps them
+    override_name VARCHAR(255),
+    override_description TEXT,
+    override_location VARCHAR(255),
+    override_metadata JSONB, -- merged over the event's and schedule's metadata
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    -- One exception per date: an added occurrence cannot also be cancelled or moved, edit it instead
+    UNIQUE(schedule_id, exception_date),
+    CONSTRAINT added_on_exception_date CHECK (exception_type::text <> 'added' OR modified_date IS NULL)
+);
+
+CREATE TABLE IF NOT EXISTS participants (
+    participant_id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255), -- unique per tenant
+    tenant_id TEXT DEFAULT pgcalendar.current_tenant(),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    metadata JSONB DEFAULT '{}'::jsonb
+);
+
+CREATE TABLE IF NOT EXISTS attendees (
+    attendee_id SERIAL PRIMARY KEY,
+    event_id INTEGER NOT NULL REFERENCES events(event_id) ON DELETE CASCADE,
+    participant_id INTEGER NOT NULL REFERENCES participants(participant_id) ON DELETE CASCADE,
+    response rsvp_response, -- to the whole series; NULL = not answered yet
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    UNIQUE(event_id, participant_id)
+);
+
+-- Answers to single occurrences, which take precedence over the attendee's response
+CREATE TABLE IF NOT EXISTS occurrence_responses (
+    attendee_id INTEGER NOT NULL REFERENCES attendees(attendee_id) ON DELETE CASCADE,
+    schedule_id INTEGER NOT NULL REFERENCES schedules(schedule_id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL, -- date the schedule generated, before a modified exception moves it
+    response rsvp_response NOT NULL,
+    responded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    notes TEXT,
+    PRIMARY KEY (attendee_id, schedule_id, occurrence_date)
+);
+
+-- Rooms, equipment and anything else events book
+CREATE TABLE IF NOT EXISTS resources (
+    resource_id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    exclusive BOOLEAN NOT NULL DEFAULT FALSE, -- reject schedules and exceptions that double-book it
+    tenant_id TEXT DEFAULT pgcalendar.current_tenant(),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    metadata JSONB DEFAULT '{}'::jsonb
+);
+
+CREATE TABLE IF NOT EXISTS event_resources (
+    event_id INTEGER NOT NULL REFERENCES events(event_id) ON DELETE CASCADE,
+    resource_id INTEGER NOT NULL REFERENCES resources(resource_id) ON DELETE CASCADE,
+    PRIMARY KEY (event_id, resource_id)
+);
+
+-- Reminders before the occurrences of a whole event or of one of its schedules
+CREATE TABLE IF NOT EXISTS reminders (
+    reminder_id SERIAL PRIMARY KEY,
+    event_id INTEGER REFERENCES events(event_id) ON DELETE CASCADE,
+    schedule_id INTEGER REFERENCES schedules(schedule_id) ON DELETE CASCADE,
+    minutes_before INTEGER NOT NULL, -- e.g. 15, or 1440 for a day before
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     metadata JSONB DEFAULT '{}'::jsonb,
-    UNIQUE(schedule_id, exception_date)
+
+    CONSTRAINT reminder_target CHECK ((event_id IS NULL) <> (schedule_id IS NULL)),
+    CONSTRAINT valid_minutes_before CHECK (minutes_before >= 0)
+);
+
+-- Due reminders queued for workers; sent_at is set once delivered
+-- Keyed by the occurrence's start so that moving an occurrence reminds of it again
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+    reminder_id INTEGER NOT NULL REFERENCES reminders(reminder_id) ON DELETE CASCADE,
+    schedule_id INTEGER NOT NULL REFERENCES schedules(schedule_id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    start_time TIMESTAMPTZ NOT NULL,
+    remind_at TIMESTAMPTZ NOT NULL,
+    queued_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    sent_at TIMESTAMPTZ,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    PRIMARY KEY (reminder_id, schedule_id, occurrence_date, start_time)
+);
+
+-- History of events, schedules and exceptions: one row per change with the row before and after it
+-- changed_at is when the changing transaction started; changed_by is the pgcalendar.user setting, else the database user.
+-- Any session can set pgcalendar.user, so changed_by is only who the application says made the change;
+-- database_user is the role that made it. Only record_audit_change writes entries, as the table owner
+CREATE TABLE IF NOT EXISTS audit_log (
+    audit_id BIGSERIAL PRIMARY KEY,
+    table_name TEXT NOT NULL, -- events, schedules or exceptions
+    row_id INTEGER NOT NULL, -- event_id, schedule_id or exception_id of the changed row
+    event_id INTEGER, -- not a foreign key, the history outlives the rows
+    schedule_id INTEGER, -- schedules and exceptions
+    tenant_id TEXT, -- the event's tenant
+    operation TEXT NOT NULL,
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    changed_by TEXT NOT NULL DEFAULT COALESCE(NULLIF(current_setting('pgcalendar.user', TRUE), ''), current_user),
+    database_user TEXT DEFAULT current_user, -- NULL for changes recorded before it was
+    old_row JSONB, -- NULL for inserts
+    new_row JSONB, -- NULL for deletes
+    CONSTRAINT valid_audit_table CHECK (table_name IN ('events', 'schedules', 'exceptions')),
+    CONSTRAINT valid_audit_operation CHECK (operation IN ('insert', 'update', 'delete'))
+);
+
+-- Materialized projections over a rolling window, kept current by triggers (see extend_projection_window)
+CREATE TABLE IF NOT EXISTS projections (
+    projection_id BIGSERIAL PRIMARY KEY,
+    schedule_id INTEGER NOT NULL REFERENCES schedules(schedule_id) ON DELETE CASCADE,
+    event_id INTEGER NOT NULL,
+    tenant_id TEXT, -- the event's tenant
+    occurrence_date DATE NOT NULL, -- date the schedule generated, before a modified exception moves it
+    projection_date DATE NOT NULL,
+    -- Wall-clock times in time_zone, placed in it when read: for schedules without one, that is the
+    -- reader's session time zone, which an instant cached by another session would not follow
+    local_start_time TIMESTAMP NOT NULL,
+    local_end_time TIMESTAMP NOT NULL,
+    status TEXT NOT NULL,
+    event_name VARCHAR(255),
+    event_description TEXT,
+    event_category VARCHAR(100),
+    schedule_description TEXT,
+    time_zone TEXT,
+    location VARCHAR(255),
+    metadata JSONB,
+    overridden_fields TEXT[]
+);
+
+-- Occurrence dates the projections table covers; a single row
+CREATE TABLE IF NOT EXISTS projection_cache_settings (
+    singleton BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (singleton),
+    window_start DATE,
+    window_end DATE,
+    enabled BOOLEAN NOT NULL DEFAULT FALSE, -- query functions read from projections within the window
+    refreshed_at TIMESTAMP,
+    CONSTRAINT valid_window CHECK (window_end >= window_start)
 );
 
+INSERT INTO projection_cache_settings DEFAULT VALUES ON CONFLICT DO NOTHING;
+
+-- Upgrade tables created by earlier versions to the definitions above; re-running this script upgrades an installation
+ALTER TABLE events
+    ADD COLUMN IF NOT EXISTS location VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS tenant_id TEXT DEFAULT pgcalendar.current_tenant();
+
+ALTER TABLE holiday_sets
+    ADD COLUMN IF NOT EXISTS tenant_id TEXT DEFAULT pgcalendar.current_tenant(),
+    DROP CONSTRAINT IF EXISTS holiday_sets_name_key;
+
+ALTER TABLE schedules
+    ALTER COLUMN end_date DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS recurrence_days_of_week INTEGER[],
+    ADD COLUMN IF NOT EXISTS recurrence_week_of_month INTEGER,
+    ADD COLUMN IF NOT EXISTS missing_day_policy missing_day_policy NOT NULL DEFAULT 'skip',
+    ADD COLUMN IF NOT EXISTS rrule TEXT,
+    ADD COLUMN IF NOT EXISTS time_zone TEXT,
+    ADD COLUMN IF NOT EXISTS occurrence_count INTEGER,
+    ADD COLUMN IF NOT EXISTS duration_minutes INTEGER,
+    ADD COLUMN IF NOT EXISTS occurrence_end_time TIME,
+    ADD COLUMN IF NOT EXISTS weekend_days INTEGER[] NOT NULL DEFAULT '{0,6}',
+    ADD COLUMN IF NOT EXISTS holiday_set_id INTEGER REFERENCES holiday_sets(holiday_set_id),
+    ADD COLUMN IF NOT EXISTS holiday_policy holiday_policy NOT NULL DEFAULT 'skip',
+    DROP CONSTRAINT IF EXISTS valid_days_of_week,
+    DROP CONSTRAINT IF EXISTS valid_weekend_days,
+    DROP CONSTRAINT IF EXISTS valid_day_of_month,
+    DROP CONSTRAINT IF EXISTS valid_week_of_month,
+    DROP CONSTRAINT IF EXISTS valid_time_zone,
+    DROP CONSTRAINT IF EXISTS valid_occurrence_count,
+    DROP CONSTRAINT IF EXISTS valid_duration,
+    DROP CONSTRAINT IF EXISTS single_occurrence_end,
+    DROP CONSTRAINT IF EXISTS occurrence_end_defined,
+    ADD CONSTRAINT valid_days_of_week CHECK (recurrence_days_of_week IS NULL OR (cardinality(recurrence_days_of_week) > 0 AND recurrence_days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6])),
+    ADD CONSTRAINT valid_weekend_days CHECK (cardinality(weekend_days) < 7 AND weekend_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]),
+    ADD CONSTRAINT valid_day_of_month CHECK (recurrence_day_of_month IS NULL OR (recurrence_day_of_month BETWEEN -31 AND 31 AND recurrence_day_of_month <> 0)),
+    ADD CONSTRAINT valid_week_of_month CHECK (recurrence_week_of_month IS NULL OR (recurrence_week_of_month BETWEEN -5 AND 5 AND recurrence_week_of_month <> 0)),
+    ADD CONSTRAINT valid_time_zone CHECK (time_zone IS NULL OR pgcalendar.is_valid_time_zone(time_zone)),
+    ADD CONSTRAINT valid_occurrence_count CHECK (occurrence_count IS NULL OR occurrence_count > 0),
+    ADD CONSTRAINT valid_duration CHECK (duration_minutes IS NULL OR duration_minutes >= 0),
+    ADD CONSTRAINT single_occurrence_end CHECK (duration_minutes IS NULL OR occurrence_end_time IS NULL),
+    ADD CONSTRAINT occurrence_end_defined CHECK (end_date IS NOT NULL OR duration_minutes IS NOT NULL OR occurrence_end_time IS NOT NULL);
+
+-- Compared as text: a value added to the enum cannot be used before the upgrade commits
+ALTER TABLE exceptions
+    ADD COLUMN IF NOT EXISTS override_name VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS override_description TEXT,
+    ADD COLUMN IF NOT EXISTS override_location VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS override_metadata JSONB,
+    DROP CONSTRAINT IF EXISTS added_on_exception_date,
+    ADD CONSTRAINT added_on_exception_date CHECK (exception_type::text <> 'added' OR modified_date IS NULL);
+
+ALTER TABLE participants
+    ADD COLUMN IF NOT EXISTS tenant_id TEXT DEFAULT pgcalendar.current_tenant(),
+    DROP CONSTRAINT IF EXISTS participants_email_key;
+
+ALTER TABLE resources
+    ADD COLUMN IF NOT EXISTS tenant_id TEXT DEFAULT pgcalendar.current_tenant();
+
+ALTER TABLE audit_log
+    ADD COLUMN IF NOT EXISTS tenant_id TEXT,
+    ADD COLUMN IF NOT EXISTS database_user TEXT;
+-- Set apart, so that the entries recorded before are left without a database user
+ALTER TABLE audit_log
+    ALTER COLUMN database_user SET DEFAULT current_user;
+
+-- Earlier versions had applications granted INSERT on the audit log, which let them write made-up history.
+-- Entries are written by record_audit_change as the owner now, so the grants are revoked
+DO $$
+DECLARE
+    v_grantee OID;
+BEGIN
+    FOR v_grantee IN
+        SELECT DISTINCT a.grantee
+        FROM pg_class c
+        CROSS JOIN LATERAL (
+            SELECT c.relacl AS acl
+            UNION ALL
+            SELECT att.attacl FROM pg_attribute att WHERE att.attrelid = c.oid AND att.attacl IS NOT NULL
+        ) acls
+        CROSS JOIN LATERAL aclexplode(acls.acl) a
+        WHERE c.oid = 'pgcalendar.audit_log'::regclass
+          AND a.privilege_type = 'INSERT'
+          AND a.grantee <> c.relowner
+    LOOP
+        EXECUTE format(
+            'REVOKE INSERT ON pgcalendar.audit_log FROM %s',
+            CASE WHEN v_grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(v_grantee)) END
+        );
+    END LOOP;
+END $$;
+
+-- The local times are filled in when the cache is refreshed at the end of this script
+ALTER TABLE projections
+    ADD COLUMN IF NOT EXISTS tenant_id TEXT,
+    ADD COLUMN IF NOT EXISTS location VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS metadata JSONB,
+    ADD COLUMN IF NOT EXISTS overridden_fields TEXT[],
+    ADD COLUMN IF NOT EXISTS local_start_time TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS local_end_time TIMESTAMP,
+    DROP COLUMN IF EXISTS start_time,
+    DROP COLUMN IF EXISTS end_time;
+
+-- Functions of earlier versions whose arguments or results changed, so that the ones below replace them.
+-- The calendar view depends on them; it is created again at the end
+DROP VIEW IF EXISTS pgcalendar.event_calendar;
+DROP FUNCTION IF EXISTS pgcalendar.check_schedule_overlap(INTEGER, TIMESTAMP, TIMESTAMP);
+DROP FUNCTION IF EXISTS pgcalendar.generate_projections(INTEGER, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.schedule_projections(INTEGER, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.get_event_projections(INTEGER, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.get_events_detailed(DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.get_events_detailed(DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.get_events_detailed(DATE, DATE, TEXT, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.projection_rows(DATE, DATE, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.projection_rows(DATE, DATE, INTEGER, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS pgcalendar.project_occurrence(RECORD, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.rrule_occurrences(TEXT, DATE, DATE);
+DROP FUNCTION IF EXISTS pgcalendar.transition_event_schedule(INTEGER, TIMESTAMP, TIMESTAMP, recurrence_type, INTEGER, INTEGER, INTEGER, INTEGER, TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.transition_event_schedule(INTEGER, TIMESTAMP, TIMESTAMP, recurrence_type, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, TEXT);
+DROP FUNCTION IF EXISTS pgcalendar.transition_event_schedule(INTEGER, TIMESTAMP, TIMESTAMP, recurrence_type, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, TEXT, INTEGER, missing_day_policy);
+DROP FUNCTION IF EXISTS pgcalendar.transition_event_schedule(INTEGER, TIMESTAMP, TIMESTAMP, recurrence_type, INTEGER, INTEGER, INTEGER, INTEGER, TEXT, TEXT, INTEGER, missing_day_policy, INTEGER[]);
+DROP FUNCTION IF EXISTS pgcalendar.audit_rows_as_of(TEXT, TIMESTAMPTZ);
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_events_category ON events(category);
 CREATE INDEX IF NOT EXISTS idx_events_status ON events(status);
 CREATE INDEX IF NOT EXISTS idx_events_priority ON events(priority);
+CREATE INDEX IF NOT EXISTS idx_events_tenant_id ON events(tenant_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holiday_sets_tenant_name ON holiday_sets((COALESCE(tenant_id, '')), name);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_participants_tenant_email ON participants((COALESCE(tenant_id, '')), email);
+CREATE INDEX IF NOT EXISTS idx_resources_tenant_id ON resources(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_events_ical_uid ON events((metadata->>'ical_uid'));
 
 CREATE INDEX IF NOT EXISTS idx_schedules_event_id ON schedules(event_id);
 CREATE INDEX IF NOT EXISTS idx_schedules_recurrence_type ON schedules(recurrence_type);
 CREATE INDEX IF NOT EXISTS idx_schedules_start_date ON schedules(start_date);
 CREATE INDEX IF NOT EXISTS idx_schedules_end_date ON schedules(end_date);
+CREATE INDEX IF NOT EXISTS idx_schedules_holiday_set_id ON schedules(holiday_set_id);
 
 CREATE INDEX IF NOT EXISTS idx_exceptions_schedule_id ON exceptions(schedule_id);
 CREATE INDEX IF NOT EXISTS idx_exceptions_date ON exceptions(exception_date);
 CREATE INDEX IF NOT EXISTS idx_exceptions_type ON exceptions(exception_type);
 
+CREATE INDEX IF NOT EXISTS idx_attendees_participant_id ON attendees(participant_id);
+CREATE INDEX IF NOT EXISTS idx_occurrence_responses_schedule_id ON occurrence_responses(schedule_id, occurrence_date);
+
+CREATE INDEX IF NOT EXISTS idx_event_resources_resource_id ON event_resources(resource_id);
+
+CREATE INDEX IF NOT EXISTS idx_reminders_event_id ON reminders(event_id);
+CREATE INDEX IF NOT EXISTS idx_reminders_schedule_id ON reminders(schedule_id);
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_unsent ON reminder_deliveries(remind_at) WHERE sent_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_row ON audit_log(table_name, row_id, audit_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_row_changed_at ON audit_log(table_name, row_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_event_id ON audit_log(event_id, audit_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_schedule_id ON audit_log(schedule_id, audit_id);
+
+CREATE INDEX IF NOT EXISTS idx_projections_schedule_id ON projections(schedule_id, occurrence_date);
+CREATE INDEX IF NOT EXISTS idx_projections_event_id ON projections(event_id, occurrence_date);
+CREATE INDEX IF NOT EXISTS idx_projections_occurrence_date ON projections(occurrence_date);
+
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION pgcalendar.update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -104,16 +491,23 @@ CREATE TRIGGER update_schedules_updated_at
     EXECUTE FUNCTION update_updated_at_column();
 
 -- Create overlap prevention trigger function
+-- Unbounded series overlap every schedule that has not ended before they start
 CREATE OR REPLACE FUNCTION pgcalendar.prevent_schedule_overlap()
 RETURNS TRIGGER AS $$
+DECLARE
+    v_series_end TIMESTAMPTZ;
 BEGIN
+    v_series_end := pgcalendar.zoned_timestamp(pgcalendar.schedule_series_end(NEW), NEW.time_zone);
+
     -- Check for overlapping schedules for the same event
     IF EXISTS (
-        SELECT 1 FROM pgcalendar.schedules 
-        WHERE event_id = NEW.event_id 
-        AND schedule_id != COALESCE(NEW.schedule_id, -1)
+        SELECT 1 FROM pgcalendar.schedules s
+        WHERE s.event_id = NEW.event_id 
+        AND s.schedule_id != COALESCE(NEW.schedule_id, -1)
         AND (
-            (NEW.start_date <= end_date AND NEW.end_date >= start_date)
+            (pgcalendar.zoned_timestamp(NEW.start_date, NEW.time_zone)
+                <= COALESCE(pgcalendar.zoned_timestamp(pgcalendar.schedule_series_end(s), s.time_zone), 'infinity')
+             AND COALESCE(v_series_end, 'infinity') >= pgcalendar.zoned_timestamp(s.start_date, s.time_zone))
         )
     ) THEN
         RAISE EXCEPTION 'Schedule overlap detected for event %: new schedule (%, %) overlaps with existing schedule', 
@@ -131,6 +525,53 @@ CREATE TRIGGER prevent_schedule_overlap_trigger
     FOR EACH ROW
     EXECUTE FUNCTION prevent_schedule_overlap();
 
+-- Create RRULE validation trigger function
+CREATE OR REPLACE FUNCTION pgcalendar.normalize_schedule_rrule()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_rule pgcalendar.rrule;
+BEGIN
+    IF NEW.rrule IS NOT NULL THEN
+        -- Raises for invalid or unsupported rules
+        v_rule := pgcalendar.parse_rrule(NEW.rrule);
+        NEW.rrule := upper(regexp_replace(trim(NEW.rrule), '^RRULE:', '', 'i'));
+        NEW.recurrence_type := v_rule.freq;
+        NEW.recurrence_interval := v_rule.interval_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create trigger for RRULE validation
+DROP TRIGGER IF EXISTS normalize_schedule_rrule_trigger ON schedules;
+CREATE TRIGGER normalize_schedule_rrule_trigger
+    BEFORE INSERT OR UPDATE ON schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION normalize_schedule_rrule();
+
+-- Create occurrence response validation trigger function
+CREATE OR REPLACE FUNCTION pgcalendar.validate_occurrence_response()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pgcalendar.attendees a
+        JOIN pgcalendar.schedules s ON s.event_id = a.event_id
+        WHERE a.attendee_id = NEW.attendee_id AND s.schedule_id = NEW.schedule_id
+    ) THEN
+        RAISE EXCEPTION 'Schedule % does not belong to the event of attendee %', NEW.schedule_id, NEW.attendee_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS validate_occurrence_response_trigger ON occurrence_responses;
+CREATE TRIGGER validate_occurrence_response_trigger
+    BEFORE INSERT OR UPDATE ON occurrence_responses
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_occurrence_response();
+
 -- Create projection generation function
 CREATE OR REPLACE FUNCTION pgcalendar.generate_projections(
     p_schedule_id INTEGER,
@@ -139,17 +580,39 @@ CREATE OR REPLACE FUNCTION pgcalendar.generate_projections(
 )
 RETURNS TABLE(
     projection_date DATE,
-    start_time TIMESTAMP,
-    end_time TIMESTAMP,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
     status TEXT
 ) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT p.projection_date, p.start_time, p.end_time, p.status
+    FROM pgcalendar.schedule_projections(p_schedule_id, p_start_date, p_end_date) p;
+END;
+$$ language 'plpgsql';
+
+-- Helper function to project a schedule's occurrences between two dates, keeping the
+-- occurrence date each projection was generated for and its exception's overrides
+-- Occurrences moved off a holiday keep their occurrence date and have the status 'shifted'
+CREATE OR REPLACE FUNCTION pgcalendar.schedule_projections(
+    p_schedule_id INTEGER,
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS TABLE(
+    occurrence_date DATE,
+    projection_date DATE,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    status TEXT,
+    override_name VARCHAR(255),
+    override_description TEXT,
+    override_location VARCHAR(255),
+    override_metadata JSONB,
+    overridden_fields TEXT[]
+) AS $$
 DECLARE
     v_schedule RECORD;
-    v_current_date DATE;
-    v_projection_date DATE;
-    v_start_time TIMESTAMP;
-    v_end_time TIMESTAMP;
-    v_exception RECORD;
 BEGIN
     -- Get schedule details
     SELECT * INTO v_schedule 
@@ -159,51 +622,367 @@ BEGIN
     IF NOT FOUND THEN
         RAISE EXCEPTION 'Schedule % not found', p_schedule_id;
     END IF;
-    
-    -- Initialize current date
-    v_current_date := GREATEST(p_start_date, v_schedule.start_date::date);
-    
-    -- Generate projections based on recurrence type
-    WHILE v_current_date <= LEAST(p_end_date, v_schedule.end_date::date) LOOP
-        -- Check if this date should have a projection
-        IF pgcalendar.should_generate_projection(v_schedule, v_current_date) THEN
-            -- Check for exceptions
-            SELECT * INTO v_exception 
-            FROM pgcalendar.exceptions 
-            WHERE schedule_id = p_schedule_id AND exception_date = v_current_date;
-            
-            IF NOT FOUND THEN
-                -- No exception, generate normal projection
-                v_projection_date := v_current_date;
-                v_start_time := (v_current_date || ' ' || v_schedule.start_date::time)::timestamp;
-                v_end_time := (v_current_date || ' ' || v_schedule.end_date::time)::timestamp;
-                
-                RETURN QUERY SELECT v_projection_date, v_start_time, v_end_time, 'active'::text;
-            ELSE
-                -- Handle exception
-                IF v_exception.exception_type = 'cancelled' THEN
-                    -- Skip this date
-                    NULL;
-                ELSIF v_exception.exception_type = 'modified' THEN
-                    -- Return modified projection
-                    v_projection_date := COALESCE(v_exception.modified_date, v_current_date);
-                    v_start_time := COALESCE(v_exception.modified_start_time, 
-                        (v_projection_date || ' ' || v_schedule.start_date::time)::timestamp);
-                    v_end_time := COALESCE(v_exception.modified_end_time, 
-                        (v_projection_date || ' ' || v_schedule.end_date::time)::timestamp);
-                    
-                    RETURN QUERY SELECT v_projection_date, v_start_time, v_end_time, 
-                        'modified'::text;
-                END IF;
-            END IF;
+
+    RETURN QUERY
+    SELECT * FROM pgcalendar.project_schedule(
+        v_schedule,
+        ARRAY(
+            SELECT x FROM pgcalendar.exceptions x
+            WHERE x.schedule_id = p_schedule_id
+            AND x.exception_date BETWEEN p_start_date AND p_end_date
+        ),
+        p_start_date,
+        p_end_date
+    );
+END;
+$$ language 'plpgsql';
+
+-- Helper function to project a schedule row with its exceptions between two dates, for
+-- schedule_projections and for rows rebuilt from the audit log
+CREATE OR REPLACE FUNCTION pgcalendar.project_schedule(
+    p_schedule RECORD,
+    p_exceptions pgcalendar.exceptions[],
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS TABLE(
+    occurrence_date DATE,
+    projection_date DATE,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    status TEXT,
+    override_name VARCHAR(255),
+    override_description TEXT,
+    override_location VARCHAR(255),
+    override_metadata JSONB,
+    overridden_fields TEXT[]
+) AS $$
+BEGIN
+    -- Exceptions are joined once: cancelled dates are dropped, modified ones moved and
+    -- added ones get their own times. Without an exception, the modified_* columns are
+    -- NULL and the expressions reduce to the schedule's own times
+    RETURN QUERY
+    SELECT o.d,
+        m.projection_date,
+        pgcalendar.zoned_timestamp(m.local_start, p_schedule.time_zone),
+        pgcalendar.zoned_timestamp(COALESCE(x.modified_end_time,
+            pgcalendar.occurrence_end(p_schedule, m.projection_date, m.local_start)), p_schedule.time_zone),
+        COALESCE(x.exception_type::text, CASE WHEN h.d <> o.d THEN 'shifted' ELSE 'active' END),
+        x.override_name,
+        x.override_description,
+        x.override_location,
+        x.override_metadata,
+        array_remove(ARRAY[
+            CASE WHEN x.override_name IS NOT NULL THEN 'name' END,
+            CASE WHEN x.override_description IS NOT NULL THEN 'description' END,
+            CASE WHEN x.override_location IS NOT NULL THEN 'location' END,
+            CASE WHEN x.override_metadata IS NOT NULL THEN 'metadata' END
+        ], NULL)
+    FROM (
+        (
+            -- COUNT is counted from the series start, cancelled occurrences included
+            SELECT d FROM pgcalendar.schedule_occurrences(
+                p_schedule,
+                CASE WHEN p_schedule.occurrence_count IS NULL THEN p_start_date ELSE p_schedule.start_date::date END,
+                p_end_date
+            ) d
+            ORDER BY d
+            LIMIT p_schedule.occurrence_count
+        )
+        -- Added occurrences (RDATE) are neither bounded by the series nor counted;
+        -- one on a date the schedule already has takes that occurrence's place
+        UNION
+        SELECT a.exception_date FROM unnest(p_exceptions) a
+        WHERE a.exception_type = 'added'
+        AND a.exception_date BETWEEN p_start_date AND p_end_date
+    ) o(d)
+    LEFT JOIN unnest(p_exceptions) x ON x.exception_date = o.d
+    -- The holiday policy applies to occurrences without an exception; NULL when skipped
+    CROSS JOIN LATERAL (
+        SELECT CASE WHEN x.exception_id IS NULL AND p_schedule.holiday_set_id IS NOT NULL
+                    THEN pgcalendar.holiday_shift(p_schedule, o.d) ELSE o.d END AS d
+    ) h
+    CROSS JOIN LATERAL (
+        SELECT COALESCE(x.modified_date, h.d) AS projection_date,
+               COALESCE(x.modified_start_time, COALESCE(x.modified_date, h.d) + p_schedule.start_date::time) AS local_start
+    ) m
+    WHERE o.d >= p_start_date
+    AND h.d IS NOT NULL
+    AND (x.exception_id IS NULL OR x.exception_type <> 'cancelled')
+    ORDER BY o.d;
+END;
+$$ language 'plpgsql';
+
+-- Helper function to list a schedule's occurrence dates, before exceptions and occurrence_count
+CREATE OR REPLACE FUNCTION pgcalendar.schedule_occurrences(
+    p_schedule RECORD,
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS SETOF DATE AS $$
+DECLARE
+    -- LEAST ignores the NULL end_date of unbounded series
+    v_last DATE := LEAST(p_end_date, p_schedule.end_date::date);
+    v_start DATE := p_schedule.start_date::date;
+    v_first DATE := GREATEST(p_start_date, p_schedule.start_date::date);
+    v_week DATE := date_trunc('week', p_schedule.start_date)::date;
+BEGIN
+    -- Schedules with an RRULE are expanded from their first occurrence
+    IF p_schedule.rrule IS NOT NULL THEN
+        RETURN QUERY
+        SELECT d FROM pgcalendar.rrule_occurrences(p_schedule.rrule, p_schedule.start_date::date, v_last, p_start_date) d;
+        RETURN;
+    END IF;
+
+    -- Monthly and yearly schedules have at most one occurrence per period
+    IF p_schedule.recurrence_type IN ('monthly', 'yearly') THEN
+        RETURN QUERY SELECT d FROM pgcalendar.month_occurrences(p_schedule, p_start_date, v_last) d;
+        RETURN;
+    END IF;
+
+    IF p_schedule.recurrence_type = 'business_day' THEN
+        RETURN QUERY SELECT d FROM pgcalendar.business_day_occurrences(p_schedule, p_start_date, v_last) d;
+        RETURN;
+    END IF;
+
+    IF p_schedule.recurrence_type = 'daily' THEN
+        -- Every interval days from the series start, from the first of them within the range
+        RETURN QUERY
+        SELECT d::date FROM generate_series(
+            (v_start + (v_first - v_start + p_schedule.recurrence_interval - 1)
+                / p_schedule.recurrence_interval * p_schedule.recurrence_interval)::timestamp,
+            v_last::timestamp,
+            make_interval(days => p_schedule.recurrence_interval)
+        ) d;
+    ELSIF p_schedule.recurrence_type = 'weekly' THEN
+        -- Weeks run Monday to Sunday and count from the week of start_date
+        RETURN QUERY
+        SELECT DISTINCT (w::date + (dow + 6) % 7) AS d
+        FROM generate_series(
+            (v_week + (date_trunc('week', v_first)::date - v_week) / 7
+                / p_schedule.recurrence_interval * p_schedule.recurrence_interval * 7)::timestamp,
+            v_last::timestamp,
+            make_interval(weeks => p_schedule.recurrence_interval)
+        ) w
+        CROSS JOIN unnest(COALESCE(p_schedule.recurrence_days_of_week, ARRAY[p_schedule.recurrence_day_of_week])) dow
+        WHERE w::date + (dow + 6) % 7 BETWEEN v_first AND v_last
+        ORDER BY d;
+    END IF;
+END;
+$$ language 'plpgsql';
+
+-- Helper function to compute the local end of an occurrence on p_date starting at p_start
+-- An end time earlier than the start, as in a 22:00-06:00 shift, is on the next day
+CREATE OR REPLACE FUNCTION pgcalendar.occurrence_end(
+    p_schedule RECORD,
+    p_date DATE,
+    p_start TIMESTAMP
+)
+RETURNS TIMESTAMP AS $$
+DECLARE
+    v_end TIMESTAMP;
+BEGIN
+    IF p_schedule.duration_minutes IS NOT NULL THEN
+        RETURN p_start + p_schedule.duration_minutes * INTERVAL '1 minute';
+    END IF;
+
+    v_end := p_date + COALESCE(p_schedule.occurrence_end_time, p_schedule.end_date::time);
+    IF v_end < p_start THEN
+        v_end := v_end + INTERVAL '1 day';
+    END IF;
+    RETURN v_end;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Helper function to compute how many days past its start date an occurrence can last
+CREATE OR REPLACE FUNCTION pgcalendar.occurrence_span_days(p_schedule RECORD)
+RETURNS INTEGER AS $$
+BEGIN
+    IF p_schedule.duration_minutes IS NOT NULL THEN
+        RETURN (EXTRACT(EPOCH FROM p_schedule.start_date::time)::integer / 60 + p_schedule.duration_minutes) / 1440;
+    END IF;
+    RETURN CASE
+        WHEN COALESCE(p_schedule.occurrence_end_time, p_schedule.end_date::time) < p_schedule.start_date::time THEN 1
+        ELSE 0
+    END;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Helper function to compute the local end of a schedule's last occurrence; NULL when unbounded
+CREATE OR REPLACE FUNCTION pgcalendar.schedule_series_end(p_schedule RECORD)
+RETURNS TIMESTAMP AS $$
+DECLARE
+    v_window INTEGER := 366;
+    v_last DATE;
+    v_date DATE;
+BEGIN
+    IF p_schedule.occurrence_count IS NULL THEN
+        RETURN p_schedule.end_date;
+    END IF;
+
+    -- Widen the search until it reaches the last counted occurrence or end_date
+    LOOP
+        v_last := LEAST(p_schedule.start_date::date + v_window, p_schedule.end_date::date);
+        SELECT d INTO v_date
+        FROM pgcalendar.schedule_occurrences(p_schedule, p_schedule.start_date::date, v_last) d
+        ORDER BY d
+        OFFSET p_schedule.occurrence_count - 1
+        LIMIT 1;
+
+        IF v_date IS NOT NULL THEN
+            RETURN pgcalendar.occurrence_end(p_schedule, v_date, v_date + p_schedule.start_date::time);
+        ELSIF v_last = p_schedule.end_date::date THEN
+            RETURN p_schedule.end_date;
         END IF;
-        
-        -- Move to next date based on recurrence
-        v_current_date := pgcalendar.get_next_recurrence_date(v_schedule, v_current_date);
+
+        -- A count not reached within about 250 years is treated as unbounded
+        EXIT WHEN v_window > 90000;
+        v_window := v_window * 4;
     END LOOP;
+
+    RETURN NULL;
 END;
 $$ language 'plpgsql';
 
+-- Helper function to check whether a date is a holiday of a holiday set
+CREATE OR REPLACE FUNCTION pgcalendar.is_holiday(
+    p_holiday_set_id INTEGER,
+    p_date DATE
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM pgcalendar.holidays
+        WHERE holiday_set_id = p_holiday_set_id AND holiday_date = p_date
+    );
+$$ language 'sql' STABLE;
+
+-- Helper function to check whether a date is a business day of a schedule:
+-- not one of its weekend_days and not a holiday of its holiday set
+CREATE OR REPLACE FUNCTION pgcalendar.is_business_day(
+    p_schedule RECORD,
+    p_date DATE
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN NOT EXTRACT(DOW FROM p_date)::integer = ANY (p_schedule.weekend_days)
+           AND NOT pgcalendar.is_holiday(p_schedule.holiday_set_id, p_date);
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Helper function to count the business days of a schedule from p_from up to, not including, p_to:
+-- those of the whole weeks and of the days left, less the holidays among them
+CREATE OR REPLACE FUNCTION pgcalendar.count_business_days(
+    p_schedule RECORD,
+    p_from DATE,
+    p_to DATE
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_weeks INTEGER := (p_to - p_from) / 7;
+BEGIN
+    RETURN v_weeks * (
+               SELECT count(*) FROM generate_series(0, 6) dow
+               WHERE NOT dow = ANY (p_schedule.weekend_days))
+           + (SELECT count(*)
+              FROM generate_series((p_from + v_weeks * 7)::timestamp, (p_to - 1)::timestamp, INTERVAL '1 day') d
+              WHERE NOT EXTRACT(DOW FROM d)::integer = ANY (p_schedule.weekend_days))
+           - (SELECT count(*)
+              FROM pgcalendar.holidays h
+              WHERE h.holiday_set_id = p_schedule.holiday_set_id
+              AND h.holiday_date >= p_from AND h.holiday_date < p_to
+              AND NOT EXTRACT(DOW FROM h.holiday_date)::integer = ANY (p_schedule.weekend_days));
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Helper function to list the occurrences of a business_day schedule between two dates
+-- Without recurrence_day_of_month: every interval-th business day from start_date;
+-- with it: the nth business day (from the end when negative) of every interval-th month from the month of start_date
+CREATE OR REPLACE FUNCTION pgcalendar.business_day_occurrences(
+    p_schedule RECORD,
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS SETOF DATE AS $$
+DECLARE
+    v_start DATE := p_schedule.start_date::date;
+    v_first DATE := GREATEST(p_start_date, p_schedule.start_date::date);
+    v_month DATE := date_trunc('month', p_schedule.start_date)::date;
+    v_skip INTEGER;
+BEGIN
+    IF p_schedule.recurrence_day_of_month IS NULL THEN
+        -- Business days are counted from start_date: the ones before the range are counted rather than
+        -- walked through, unless every one of them occurs
+        v_skip := CASE WHEN p_schedule.recurrence_interval = 1 THEN 0
+                       ELSE pgcalendar.count_business_days(p_schedule, v_start, v_first) END;
+
+        RETURN QUERY
+        SELECT b.d
+        FROM (
+            SELECT d::date AS d, row_number() OVER (ORDER BY d) - 1 AS n
+            FROM generate_series(v_first::timestamp, p_end_date::timestamp, INTERVAL '1 day') d
+            WHERE NOT EXTRACT(DOW FROM d)::integer = ANY (p_schedule.weekend_days)
+            AND (p_schedule.holiday_set_id IS NULL OR NOT pgcalendar.is_holiday(p_schedule.holiday_set_id, d::date))
+        ) b
+        WHERE (v_skip + b.n) % p_schedule.recurrence_interval = 0
+        ORDER BY b.d;
+        RETURN;
+    END IF;
+
+    -- Skip whole periods before the range
+    v_skip := ((EXTRACT(YEAR FROM v_first)::integer * 12 + EXTRACT(MONTH FROM v_first)::integer)
+        - (EXTRACT(YEAR FROM v_month)::integer * 12 + EXTRACT(MONTH FROM v_month)::integer))
+        / p_schedule.recurrence_interval;
+
+    RETURN QUERY
+    SELECT b.d
+    FROM generate_series(
+        v_month + make_interval(months => v_skip * p_schedule.recurrence_interval),
+        p_end_date::timestamp,
+        make_interval(months => p_schedule.recurrence_interval)
+    ) period
+    CROSS JOIN LATERAL (
+        SELECT d::date AS d, row_number() OVER (ORDER BY d) AS n, count(*) OVER () AS total
+        FROM generate_series(period, period + INTERVAL '1 month' - INTERVAL '1 day', INTERVAL '1 day') d
+        WHERE NOT EXTRACT(DOW FROM d)::integer = ANY (p_schedule.weekend_days)
+        AND (p_schedule.holiday_set_id IS NULL OR NOT pgcalendar.is_holiday(p_schedule.holiday_set_id, d::date))
+    ) b
+    WHERE b.n = CASE WHEN p_schedule.recurrence_day_of_month > 0
+                     THEN p_schedule.recurrence_day_of_month
+                     ELSE b.total + 1 + p_schedule.recurrence_day_of_month END
+    AND b.d BETWEEN v_first AND p_end_date
+    ORDER BY b.d;
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Helper function to apply a schedule's holiday policy to an occurrence date
+-- Returns the date unchanged when it is not a holiday, NULL when the occurrence is skipped,
+-- otherwise the nearest business day before or after it
+CREATE OR REPLACE FUNCTION pgcalendar.holiday_shift(
+    p_schedule RECORD,
+    p_date DATE
+)
+RETURNS DATE AS $$
+DECLARE
+    v_date DATE := p_date;
+    v_step INTEGER;
+BEGIN
+    IF p_schedule.holiday_set_id IS NULL OR NOT pgcalendar.is_holiday(p_schedule.holiday_set_id, p_date) THEN
+        RETURN p_date;
+    END IF;
+
+    IF p_schedule.holiday_policy = 'skip' THEN
+        RETURN NULL;
+    END IF;
+
+    v_step := CASE WHEN p_schedule.holiday_policy = 'previous_business_day' THEN -1 ELSE 1 END;
+    LOOP
+        v_date := v_date + v_step;
+        EXIT WHEN pgcalendar.is_business_day(p_schedule, v_date);
+    END LOOP;
+    RETURN v_date;
+END;
+$$ language 'plpgsql' STABLE;
+
 -- Helper function to determine if a projection should be generated
 CREATE OR REPLACE FUNCTION pgcalendar.should_generate_projection(
     p_schedule RECORD,
@@ -215,15 +994,16 @@ BEGIN
         WHEN 'daily' THEN
             RETURN (p_date - p_schedule.start_date::date) % p_schedule.recurrence_interval = 0;
         WHEN 'weekly' THEN
-            RETURN EXTRACT(DOW FROM p_date) = p_schedule.recurrence_day_of_week
-                   AND (p_date - p_schedule.start_date::date) % (p_schedule.recurrence_interval * 7) = 0;
-        WHEN 'monthly' THEN
-            RETURN EXTRACT(DAY FROM p_date) = p_schedule.recurrence_day_of_month
-                   AND (p_date - p_schedule.start_date::date) >= p_schedule.recurrence_interval * 30;
-        WHEN 'yearly' THEN
-            RETURN EXTRACT(MONTH FROM p_date) = p_schedule.recurrence_month
-                   AND EXTRACT(DAY FROM p_date) = p_schedule.recurrence_day_of_month
-                   AND (p_date - p_schedule.start_date::date) >= p_schedule.recurrence_interval * 365;
+            -- Weeks run Monday to Sunday and count from the week of start_date
+            RETURN EXTRACT(DOW FROM p_date)::integer = ANY (
+                       COALESCE(p_schedule.recurrence_days_of_week, ARRAY[p_schedule.recurrence_day_of_week]))
+                   AND p_date >= p_schedule.start_date::date
+                   AND (date_trunc('week', p_date)::date - date_trunc('week', p_schedule.start_date)::date) / 7
+                       % p_schedule.recurrence_interval = 0;
+        WHEN 'monthly', 'yearly' THEN
+            RETURN EXISTS (SELECT 1 FROM pgcalendar.month_occurrences(p_schedule, p_date, p_date));
+        WHEN 'business_day' THEN
+            RETURN EXISTS (SELECT 1 FROM pgcalendar.business_day_occurrences(p_schedule, p_date, p_date));
         ELSE
             RETURN FALSE;
     END CASE;
@@ -241,98 +1021,1510 @@ BEGIN
         WHEN 'daily' THEN
             RETURN p_current_date + p_schedule.recurrence_interval;
         WHEN 'weekly' THEN
-            RETURN p_current_date + (p_schedule.recurrence_interval * 7);
-        WHEN 'monthly' THEN
-            RETURN p_current_date + INTERVAL '1 month' * p_schedule.recurrence_interval;
-        WHEN 'yearly' THEN
-            RETURN p_current_date + INTERVAL '1 year' * p_schedule.recurrence_interval;
+            -- The next matching weekday; a week later when there is none
+            RETURN COALESCE((
+                SELECT d::date
+                FROM generate_series(p_current_date + 1, p_current_date + p_schedule.recurrence_interval * 7 + 6, INTERVAL '1 day') d
+                WHERE pgcalendar.should_generate_projection(p_schedule, d::date)
+                ORDER BY d
+                LIMIT 1
+            ), p_current_date + p_schedule.recurrence_interval * 7);
+        WHEN 'monthly', 'yearly' THEN
+            -- The next occurrence, or NULL when there is none within eight periods' worth of years
+            RETURN (
+                SELECT d FROM pgcalendar.month_occurrences(
+                    p_schedule,
+                    p_current_date + 1,
+                    (p_current_date + INTERVAL '8 years' * p_schedule.recurrence_interval)::date
+                ) d
+                LIMIT 1
+            );
+        WHEN 'business_day' THEN
+            -- The next occurrence, or NULL when there is none within a year per interval
+            RETURN (
+                SELECT d FROM pgcalendar.business_day_occurrences(
+                    p_schedule,
+                    p_current_date + 1,
+                    (p_current_date + INTERVAL '1 year' * p_schedule.recurrence_interval)::date
+                ) d
+                LIMIT 1
+            );
         ELSE
             RETURN p_current_date + 1;
     END CASE;
 END;
 $$ language 'plpgsql';
 
--- Main function to get event projections
-CREATE OR REPLACE FUNCTION pgcalendar.get_event_projections(
-    p_event_id INTEGER,
-    p_start_date DATE,
-    p_end_date DATE
+-- Helper function to find the occurrence of a monthly or yearly schedule in the month starting at p_month
+CREATE OR REPLACE FUNCTION pgcalendar.month_occurrence(
+    p_schedule RECORD,
+    p_month DATE
 )
-RETURNS TABLE(
-    projection_date DATE,
-    start_time TIMESTAMP,
-    end_time TIMESTAMP,
-    event_name VARCHAR(255),
-    event_description TEXT,
-    event_category VARCHAR(100),
-    schedule_description TEXT,
-    status TEXT
-) AS $$
+RETURNS DATE AS $$
+DECLARE
+    v_next_month DATE := (p_month + INTERVAL '1 month')::date;
+    v_days INTEGER := v_next_month - p_month;
+    v_ordinal INTEGER := p_schedule.recurrence_week_of_month;
+    v_dow INTEGER := p_schedule.recurrence_day_of_week;
+    v_day INTEGER := p_schedule.recurrence_day_of_month;
+    v_date DATE;
 BEGIN
-    RETURN QUERY
-    SELECT 
-        p.projection_date,
-        p.start_time,
-        p.end_time,
-        e.name as event_name,
-        e.description as event_description,
-        e.category as event_category,
-        s.description as schedule_description,
-        p.status
+    -- Nth weekday, e.g. 2nd Tuesday or last (-1) Friday
+    IF v_ordinal IS NOT NULL THEN
+        IF v_dow IS NULL THEN
+            RETURN NULL;
+        END IF;
+        IF v_ordinal > 0 THEN
+            v_date := p_month + (v_dow - EXTRACT(DOW FROM p_month)::integer + 7) % 7 + (v_ordinal - 1) * 7;
+        ELSE
+            v_date := v_next_month - 1 - (EXTRACT(DOW FROM v_next_month - 1)::integer - v_dow + 7) % 7
+                + (v_ordinal + 1) * 7;
+        END IF;
+        IF v_date >= p_month AND v_date < v_next_month THEN
+            RETURN v_date;
+        END IF;
+        -- Only a 5th (or 5th-to-last) weekday can be missing
+        CASE p_schedule.missing_day_policy
+            WHEN 'clamp' THEN
+                RETURN v_date - CASE WHEN v_ordinal > 0 THEN 7 ELSE -7 END;
+            WHEN 'roll' THEN
+                RETURN v_next_month + (v_dow - EXTRACT(DOW FROM v_next_month)::integer + 7) % 7;
+            ELSE
+                RETURN NULL;
+        END CASE;
+    END IF;
+
+    -- Day of month, negative days count from the month end
+    IF v_day IS NULL THEN
+        RETURN NULL;
+    END IF;
+    IF v_day < 0 THEN
+        v_day := v_days + v_day + 1;
+    END IF;
+    IF v_day BETWEEN 1 AND v_days THEN
+        RETURN p_month + v_day - 1;
+    END IF;
+    CASE p_schedule.missing_day_policy
+        WHEN 'clamp' THEN
+            RETURN CASE WHEN v_day > v_days THEN v_next_month - 1 ELSE p_month END;
+        WHEN 'roll' THEN
+            RETURN v_next_month;
+        ELSE
+            RETURN NULL;
+    END CASE;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Helper function to list the occurrences of a monthly or yearly schedule between two dates
+CREATE OR REPLACE FUNCTION pgcalendar.month_occurrences(
+    p_schedule RECORD,
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS SETOF DATE AS $$
+DECLARE
+    v_step INTEGER; -- months between periods
+    v_first DATE;
+    v_skip INTEGER;
+    v_period DATE;
+BEGIN
+    IF p_schedule.recurrence_type = 'monthly' THEN
+        v_step := p_schedule.recurrence_interval;
+        v_first := date_trunc('month', p_schedule.start_date)::date;
+    ELSIF p_schedule.recurrence_month IS NOT NULL THEN
+        v_step := p_schedule.recurrence_interval * 12;
+        v_first := make_date(EXTRACT(YEAR FROM p_schedule.start_date)::integer, p_schedule.recurrence_month, 1);
+    ELSE
+        RETURN;
+    END IF;
+
+    -- Skip whole periods before the range, keeping the previous month whose occurrence may roll into it
+    v_skip := GREATEST(0, (
+        (EXTRACT(YEAR FROM p_start_date)::integer * 12 + EXTRACT(MONTH FROM p_start_date)::integer - 1)
+        - (EXTRACT(YEAR FROM v_first)::integer * 12 + EXTRACT(MONTH FROM v_first)::integer)
+    ) / v_step);
+    v_period := (v_first + make_interval(months => v_skip * v_step))::date;
+
+    RETURN QUERY
+    SELECT o.d
+    FROM generate_series(v_period::timestamp, p_end_date::timestamp, make_interval(months => v_step)) period
+    CROSS JOIN LATERAL (SELECT pgcalendar.month_occurrence(p_schedule, period::date) AS d) o
+    WHERE o.d >= GREATEST(p_start_date, p_schedule.start_date::date) AND o.d <= p_end_date
+    ORDER BY period;
+END;
+$$ language 'plpgsql';
+
+-- Helper function to parse a comma-separated RRULE integer list within bounds (0 excluded)
+CREATE OR REPLACE FUNCTION pgcalendar.parse_rrule_integers(
+    p_rrule TEXT,
+    p_key TEXT,
+    p_value TEXT,
+    p_min INTEGER,
+    p_max INTEGER
+)
+RETURNS INTEGER[] AS $$
+DECLARE
+    v_item TEXT;
+    v_values INTEGER[] := '{}';
+BEGIN
+    FOREACH v_item IN ARRAY string_to_array(p_value, ',') LOOP
+        IF v_item !~ '^[+-]?[0-9]{1,3}$' OR v_item::integer = 0
+           OR v_item::integer < p_min OR v_item::integer > p_max THEN
+            RAISE EXCEPTION 'Invalid RRULE "%": % must be a list of values between % and % (excluding 0)',
+                p_rrule, p_key, p_min, p_max;
+        END IF;
+        v_values := v_values || v_item::integer;
+    END LOOP;
+
+    RETURN v_values;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Function to parse and validate an RRULE
+-- Supports FREQ (DAILY to YEARLY), INTERVAL, COUNT, UNTIL, BYDAY (with ordinals),
+-- BYMONTHDAY (with negatives), BYMONTH, BYSETPOS and WKST
+CREATE OR REPLACE FUNCTION pgcalendar.parse_rrule(
+    p_rrule TEXT
+)
+RETURNS pgcalendar.rrule AS $$
+DECLARE
+    v_rule pgcalendar.rrule;
+    v_part TEXT;
+    v_key TEXT;
+    v_value TEXT;
+    v_item TEXT;
+    v_ordinal INTEGER;
+    v_seen TEXT[] := '{}';
+BEGIN
+    v_rule.interval_count := 1;
+    v_rule.week_start := 1;
+
+    FOREACH v_part IN ARRAY string_to_array(upper(regexp_replace(trim(p_rrule), '^RRULE:', '', 'i')), ';') LOOP
+        CONTINUE WHEN v_part = '';
+        v_key := split_part(v_part, '=', 1);
+        v_value := substr(v_part, length(v_key) + 2);
+
+        IF v_key = ANY(v_seen) THEN
+            RAISE EXCEPTION 'Invalid RRULE "%": % is given more than once', p_rrule, v_key;
+        END IF;
+        IF v_value = '' THEN
+            RAISE EXCEPTION 'Invalid RRULE "%": % has no value', p_rrule, v_key;
+        END IF;
+        v_seen := v_seen || v_key;
+
+        CASE v_key
+            WHEN 'FREQ' THEN
+                IF v_value NOT IN ('DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY') THEN
+                    RAISE EXCEPTION 'Invalid RRULE "%": FREQ=% is not supported', p_rrule, v_value;
+                END IF;
+                v_rule.freq := lower(v_value)::pgcalendar.recurrence_type;
+            WHEN 'INTERVAL' THEN
+                IF v_value !~ '^[0-9]{1,6}$' OR v_value::integer < 1 THEN
+                    RAISE EXCEPTION 'Invalid RRULE "%": INTERVAL must be a positive integer', p_rrule;
+                END IF;
+                v_rule.interval_count := v_value::integer;
+            WHEN 'COUNT' THEN
+                IF v_value !~ '^[0-9]{1,6}$' OR v_value::integer < 1 THEN
+                    RAISE EXCEPTION 'Invalid RRULE "%": COUNT must be a positive integer', p_rrule;
+                END IF;
+                v_rule.count := v_value::integer;
+            WHEN 'UNTIL' THEN
+                IF v_value !~ '^[0-9]{8}(T[0-9]{6}Z?)?$' THEN
+                    RAISE EXCEPTION 'Invalid RRULE "%": UNTIL must be a date or date-time', p_rrule;
+                END IF;
+                v_rule.until := make_date(substr(v_value, 1, 4)::integer, substr(v_value, 5, 2)::integer,
+                    substr(v_value, 7, 2)::integer);
+            WHEN 'BYDAY' THEN
+                FOREACH v_item IN ARRAY string_to_array(v_value, ',') LOOP
+                    IF v_item !~ '^([+-]?[0-9]{1,2})?(MO|TU|WE|TH|FR|SA|SU)$' THEN
+                        RAISE EXCEPTION 'Invalid RRULE "%": invalid BYDAY value %', p_rrule, v_item;
+                    END IF;
+                    v_ordinal := NULLIF(substring(v_item from '^([+-]?[0-9]+)'), '')::integer;
+                    IF v_ordinal = 0 OR abs(v_ordinal) > 53 THEN
+                        RAISE EXCEPTION 'Invalid RRULE "%": invalid BYDAY ordinal %', p_rrule, v_item;
+                    END IF;
+                END LOOP;
+                v_rule.by_day := string_to_array(v_value, ',');
+            WHEN 'BYMONTHDAY' THEN
+                v_rule.by_month_day := pgcalendar.parse_rrule_integers(p_rrule, v_key, v_value, -31, 31);
+            WHEN 'BYMONTH' THEN
+                v_rule.by_month := pgcalendar.parse_rrule_integers(p_rrule, v_key, v_value, 1, 12);
+            WHEN 'BYSETPOS' THEN
+                v_rule.by_set_pos := pgcalendar.parse_rrule_integers(p_rrule, v_key, v_value, -366, 366);
+            WHEN 'WKST' THEN
+                v_rule.week_start := array_position(ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'], v_value) - 1;
+                IF v_rule.week_start IS NULL THEN
+                    RAISE EXCEPTION 'Invalid RRULE "%": invalid WKST value %', p_rrule, v_value;
+                END IF;
+            ELSE
+                RAISE EXCEPTION 'Invalid RRULE "%": % is not supported', p_rrule, v_key;
+        END CASE;
+    END LOOP;
+
+    IF v_rule.freq IS NULL THEN
+        RAISE EXCEPTION 'Invalid RRULE "%": FREQ is required', p_rrule;
+    END IF;
+    IF v_rule.count IS NOT NULL AND v_rule.until IS NOT NULL THEN
+        RAISE EXCEPTION 'Invalid RRULE "%": COUNT and UNTIL cannot be combined', p_rrule;
+    END IF;
+    IF v_rule.freq IN ('daily', 'weekly') AND v_rule.by_day IS NOT NULL
+       AND EXISTS (SELECT 1 FROM unnest(v_rule.by_day) d WHERE d !~ '^[A-Z]{2}$') THEN
+        RAISE EXCEPTION 'Invalid RRULE "%": BYDAY ordinals require FREQ=MONTHLY or FREQ=YEARLY', p_rrule;
+    END IF;
+    IF (v_rule.freq = 'monthly' OR (v_rule.freq = 'yearly' AND v_rule.by_month IS NOT NULL))
+       AND v_rule.by_day IS NOT NULL
+       AND EXISTS (SELECT 1 FROM unnest(v_rule.by_day) d WHERE abs(NULLIF(substring(d from '^([+-]?[0-9]+)'), '')::integer) > 5) THEN
+        RAISE EXCEPTION 'Invalid RRULE "%": BYDAY ordinals within a month must be between -5 and 5', p_rrule;
+    END IF;
+    IF v_rule.freq = 'weekly' AND v_rule.by_month_day IS NOT NULL THEN
+        RAISE EXCEPTION 'Invalid RRULE "%": BYMONTHDAY cannot be used with FREQ=WEEKLY', p_rrule;
+    END IF;
+    IF v_rule.by_set_pos IS NOT NULL
+       AND v_rule.by_day IS NULL AND v_rule.by_month_day IS NULL AND v_rule.by_month IS NULL THEN
+        RAISE EXCEPTION 'Invalid RRULE "%": BYSETPOS requires another BYxxx rule part', p_rrule;
+    END IF;
+
+    RETURN v_rule;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Helper function to match a date against BYDAY values within a scope (month or year)
+CREATE OR REPLACE FUNCTION pgcalendar.rrule_weekday_matches(
+    p_by_day TEXT[],
+    p_date DATE,
+    p_scope_start DATE,
+    p_scope_end DATE
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM unnest(p_by_day) AS code,
+        LATERAL (SELECT NULLIF(substring(code from '^([+-]?[0-9]+)'), '')::integer AS ordinal) o
+        WHERE right(code, 2) = (ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'])[EXTRACT(DOW FROM p_date)::integer + 1]
+          AND (o.ordinal IS NULL
+               OR (o.ordinal > 0 AND (p_date - p_scope_start) / 7 + 1 = o.ordinal)
+               OR (o.ordinal < 0 AND (p_scope_end - p_date) / 7 + 1 = -o.ordinal))
+    );
+$$ language 'sql' IMMUTABLE;
+
+-- Helper function to list the dates an RRULE selects within one period (day, week, month or year)
+CREATE OR REPLACE FUNCTION pgcalendar.rrule_period_dates(
+    p_rule pgcalendar.rrule,
+    p_period_start DATE,
+    p_dtstart DATE
+)
+RETURNS DATE[] AS $$
+DECLARE
+    v_period_end DATE;
+    v_dates DATE[];
+BEGIN
+    v_period_end := CASE p_rule.freq
+        WHEN 'daily' THEN p_period_start
+        WHEN 'weekly' THEN p_period_start + 6
+        WHEN 'monthly' THEN (p_period_start + INTERVAL '1 month')::date - 1
+        ELSE (p_period_start + INTERVAL '1 year')::date - 1
+    END;
+
+    SELECT COALESCE(array_agg(d ORDER BY d), '{}') INTO v_dates
+    FROM (
+        SELECT gs::date AS d,
+            date_trunc('month', gs)::date AS month_start,
+            (date_trunc('month', gs) + INTERVAL '1 month')::date - 1 AS month_end
+        FROM generate_series(p_period_start, v_period_end, INTERVAL '1 day') gs
+    ) days
+    WHERE (p_rule.by_month IS NULL OR EXTRACT(MONTH FROM d)::integer = ANY(p_rule.by_month))
+      AND (p_rule.by_month_day IS NULL
+           OR EXTRACT(DAY FROM d)::integer = ANY(p_rule.by_month_day)
+           OR (d - month_end - 1) = ANY(p_rule.by_month_day))
+      AND (p_rule.by_day IS NULL
+           OR CASE
+                WHEN p_rule.freq = 'monthly' OR (p_rule.freq = 'yearly' AND p_rule.by_month IS NOT NULL)
+                    THEN pgcalendar.rrule_weekday_matches(p_rule.by_day, d, month_start, month_end)
+                ELSE pgcalendar.rrule_weekday_matches(p_rule.by_day, d, p_period_start, v_period_end)
+              END)
+      -- Without BYxxx parts the rule repeats the weekday, day or date of its start
+      AND CASE p_rule.freq
+            WHEN 'weekly' THEN p_rule.by_day IS NOT NULL
+                OR EXTRACT(DOW FROM d) = EXTRACT(DOW FROM p_dtstart)
+            WHEN 'monthly' THEN p_rule.by_day IS NOT NULL OR p_rule.by_month_day IS NOT NULL
+                OR EXTRACT(DAY FROM d) = EXTRACT(DAY FROM p_dtstart)
+            WHEN 'yearly' THEN p_rule.by_day IS NOT NULL OR p_rule.by_month_day IS NOT NULL
+                OR (EXTRACT(DAY FROM d) = EXTRACT(DAY FROM p_dtstart)
+                    AND (p_rule.by_month IS NOT NULL OR EXTRACT(MONTH FROM d) = EXTRACT(MONTH FROM p_dtstart)))
+            ELSE TRUE
+          END;
+
+    IF p_rule.by_set_pos IS NOT NULL THEN
+        SELECT COALESCE(array_agg(DISTINCT v_dates[CASE WHEN pos > 0 THEN pos ELSE cardinality(v_dates) + 1 + pos END]
+                        ORDER BY v_dates[CASE WHEN pos > 0 THEN pos ELSE cardinality(v_dates) + 1 + pos END]), '{}')
+        INTO v_dates
+        FROM unnest(p_rule.by_set_pos) pos
+        WHERE abs(pos) <= cardinality(v_dates);
+    END IF;
+
+    RETURN v_dates;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Function to expand an RRULE into occurrence dates, starting at p_dtstart and ending at p_until
+-- With p_from, only dates from p_from on are returned, skipping earlier periods unless COUNT needs them
+CREATE OR REPLACE FUNCTION pgcalendar.rrule_occurrences(
+    p_rrule TEXT,
+    p_dtstart DATE,
+    p_until DATE,
+    p_from DATE DEFAULT NULL
+)
+RETURNS SETOF DATE AS $$
+DECLARE
+    v_rule pgcalendar.rrule := pgcalendar.parse_rrule(p_rrule);
+    v_last DATE := LEAST(p_until, v_rule.until);
+    v_from DATE := GREATEST(p_dtstart, p_from);
+    v_first_period DATE;
+    v_unit INTERVAL;
+    v_skip INTEGER := 0;
+BEGIN
+    v_first_period := CASE v_rule.freq
+        WHEN 'daily' THEN p_dtstart
+        WHEN 'weekly' THEN p_dtstart - ((EXTRACT(DOW FROM p_dtstart)::integer - v_rule.week_start + 7) % 7)
+        WHEN 'monthly' THEN date_trunc('month', p_dtstart)::date
+        ELSE date_trunc('year', p_dtstart)::date
+    END;
+    v_unit := CASE v_rule.freq
+        WHEN 'daily' THEN INTERVAL '1 day'
+        WHEN 'weekly' THEN INTERVAL '1 week'
+        WHEN 'monthly' THEN INTERVAL '1 month'
+        ELSE INTERVAL '1 year'
+    END;
+
+    -- Skip whole periods before v_from, keeping one in case it reaches past its start
+    IF v_rule.count IS NULL THEN
+        v_skip := GREATEST(0, (CASE v_rule.freq
+            WHEN 'daily' THEN v_from - v_first_period
+            WHEN 'weekly' THEN (v_from - v_first_period) / 7
+            WHEN 'monthly' THEN (EXTRACT(YEAR FROM age(v_from, v_first_period)) * 12
+                                 + EXTRACT(MONTH FROM age(v_from, v_first_period)))::integer
+            ELSE EXTRACT(YEAR FROM age(v_from, v_first_period))::integer
+        END) / v_rule.interval_count - 1);
+    END IF;
+
+    -- Periods are counted from the first one so month lengths never drift
+    RETURN QUERY
+    SELECT o.d FROM (
+        SELECT d
+        FROM generate_series(v_skip, v_skip + 1 + (CASE v_rule.freq
+                 WHEN 'daily' THEN v_last - v_first_period
+                 WHEN 'weekly' THEN (v_last - v_first_period) / 7
+                 WHEN 'monthly' THEN (EXTRACT(YEAR FROM age(v_last, v_first_period)) * 12
+                                      + EXTRACT(MONTH FROM age(v_last, v_first_period)))::integer
+                 ELSE EXTRACT(YEAR FROM age(v_last, v_first_period))::integer
+             END) / v_rule.interval_count - v_skip, 1) step
+        CROSS JOIN LATERAL unnest(pgcalendar.rrule_period_dates(
+            v_rule, (v_first_period + v_unit * (step * v_rule.interval_count))::date, p_dtstart)) d
+        WHERE d >= p_dtstart AND d <= v_last
+        ORDER BY d
+        LIMIT v_rule.count
+    ) o
+    WHERE o.d >= v_from;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Function to convert a schedule using recurrence_* columns into an equivalent RRULE
+CREATE OR REPLACE FUNCTION pgcalendar.convert_schedule_to_rrule(
+    p_schedule_id INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_schedule RECORD;
+    v_rrule TEXT;
+    v_day_rule TEXT;
+    v_weekday TEXT;
+    v_ordinal INTEGER;
+    v_day INTEGER;
+BEGIN
+    SELECT * INTO v_schedule 
+    FROM pgcalendar.schedules 
+    WHERE schedule_id = p_schedule_id
+    FOR UPDATE;
+    
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Schedule % not found', p_schedule_id;
+    END IF;
+
+    IF v_schedule.rrule IS NOT NULL THEN
+        RETURN v_schedule.rrule;
+    END IF;
+
+    -- Business days are the weekdays outside weekend_days, the nth of them picked by BYSETPOS
+    IF v_schedule.recurrence_type = 'business_day' THEN
+        IF v_schedule.holiday_set_id IS NOT NULL THEN
+            RAISE EXCEPTION 'Schedule % counts business days around holidays, which RRULE cannot express', p_schedule_id;
+        END IF;
+        v_day_rule := ';BYDAY=' || (
+            SELECT string_agg((ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'])[d + 1], ',' ORDER BY (d + 6) % 7)
+            FROM generate_series(0, 6) d
+            WHERE NOT d = ANY (v_schedule.weekend_days)
+        );
+        IF v_schedule.recurrence_day_of_month IS NOT NULL THEN
+            v_rrule := 'FREQ=MONTHLY'
+                || CASE WHEN v_schedule.recurrence_interval > 1
+                        THEN ';INTERVAL=' || v_schedule.recurrence_interval ELSE '' END
+                || v_day_rule || ';BYSETPOS=' || v_schedule.recurrence_day_of_month;
+        ELSIF v_schedule.recurrence_interval > 1 THEN
+            RAISE EXCEPTION 'Schedule % counts every % business days, which RRULE cannot express',
+                p_schedule_id, v_schedule.recurrence_interval;
+        ELSE
+            v_rrule := 'FREQ=DAILY' || v_day_rule;
+        END IF;
+
+        UPDATE pgcalendar.schedules SET rrule = v_rrule WHERE schedule_id = p_schedule_id;
+        RETURN v_rrule;
+    END IF;
+
+    v_rrule := 'FREQ=' || upper(v_schedule.recurrence_type::text)
+        || CASE WHEN v_schedule.recurrence_interval > 1
+                THEN ';INTERVAL=' || v_schedule.recurrence_interval ELSE '' END;
+
+    CASE v_schedule.recurrence_type
+        WHEN 'weekly' THEN
+            IF v_schedule.recurrence_days_of_week IS NULL AND v_schedule.recurrence_day_of_week IS NULL THEN
+                RAISE EXCEPTION 'Schedule % has no recurrence_day_of_week', p_schedule_id;
+            END IF;
+            -- Listed Monday first, in week order
+            v_rrule := v_rrule || ';BYDAY=' || (
+                SELECT string_agg((ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'])[d + 1], ',' ORDER BY (d + 6) % 7)
+                FROM (SELECT DISTINCT unnest(COALESCE(
+                    v_schedule.recurrence_days_of_week, ARRAY[v_schedule.recurrence_day_of_week])) AS d) days
+            );
+        WHEN 'monthly', 'yearly' THEN
+            IF v_schedule.recurrence_type = 'yearly' THEN
+                IF v_schedule.recurrence_month IS NULL THEN
+                    RAISE EXCEPTION 'Schedule % has no recurrence_month', p_schedule_id;
+                END IF;
+                v_rrule := v_rrule || ';BYMONTH=' || v_schedule.recurrence_month;
+            END IF;
+
+            v_ordinal := v_schedule.recurrence_week_of_month;
+            v_day := v_schedule.recurrence_day_of_month;
+            IF v_ordinal IS NOT NULL THEN
+                IF v_schedule.recurrence_day_of_week IS NULL THEN
+                    RAISE EXCEPTION 'Schedule % has no recurrence_day_of_week', p_schedule_id;
+                END IF;
+                v_weekday := (ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'])[v_schedule.recurrence_day_of_week + 1];
+                v_day_rule := ';BYDAY=' || v_ordinal || v_weekday;
+                IF abs(v_ordinal) = 5 AND v_schedule.missing_day_policy = 'clamp' THEN
+                    -- The 5th weekday when there is one, else the 4th
+                    v_day_rule := CASE WHEN v_ordinal > 0
+                        THEN ';BYDAY=4' || v_weekday || ',5' || v_weekday || ';BYSETPOS=-1'
+                        ELSE ';BYDAY=-5' || v_weekday || ',-4' || v_weekday || ';BYSETPOS=1' END;
+                END IF;
+            ELSIF v_day IS NOT NULL THEN
+                v_day_rule := ';BYMONTHDAY=' || v_day;
+                IF abs(v_day) > 28 AND v_schedule.missing_day_policy = 'clamp' THEN
+                    -- The requested day when the month has it, else the nearest one
+                    v_day_rule := CASE WHEN v_day > 0
+                        THEN ';BYMONTHDAY=' || array_to_string(ARRAY(SELECT generate_series(28, v_day)), ',') || ';BYSETPOS=-1'
+                        ELSE ';BYMONTHDAY=' || array_to_string(ARRAY(SELECT generate_series(v_day, -28)), ',') || ';BYSETPOS=1' END;
+                END IF;
+            ELSE
+                RAISE EXCEPTION 'Schedule % has no recurrence_day_of_month or recurrence_week_of_month', p_schedule_id;
+            END IF;
+
+            IF v_schedule.missing_day_policy = 'roll'
+               AND (abs(v_ordinal) = 5 OR (v_ordinal IS NULL AND abs(v_day) > 28)) THEN
+                RAISE EXCEPTION 'Schedule % rolls missing days into the next month, which RRULE cannot express', p_schedule_id;
+            END IF;
+            v_rrule := v_rrule || v_day_rule;
+        ELSE
+            NULL;
+    END CASE;
+
+    UPDATE pgcalendar.schedules SET rrule = v_rrule WHERE schedule_id = p_schedule_id;
+
+    RETURN v_rrule;
+END;
+$$ language 'plpgsql';
+
+-- Helper function to check whether the projections cache can answer a date range
+CREATE OR REPLACE FUNCTION pgcalendar.projection_cache_covers(
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(bool_and(enabled AND p_start_date >= window_start AND p_end_date <= window_end), FALSE)
+    FROM pgcalendar.projection_cache_settings;
+$$ language 'sql' STABLE;
+
+-- Helper function to cache a schedule's projections for occurrence dates between two dates
+CREATE OR REPLACE FUNCTION pgcalendar.cache_schedule_projections(
+    p_schedule_id INTEGER,
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_rows INTEGER;
+BEGIN
+    INSERT INTO pgcalendar.projections (
+        schedule_id, event_id, tenant_id, occurrence_date, projection_date, local_start_time, local_end_time, status,
+        event_name, event_description, event_category, schedule_description, time_zone,
+        location, metadata, overridden_fields
+    )
+    SELECT s.schedule_id, e.event_id, e.tenant_id, p.occurrence_date, p.projection_date,
+           COALESCE(p.start_time AT TIME ZONE s.time_zone, p.start_time::timestamp),
+           COALESCE(p.end_time AT TIME ZONE s.time_zone, p.end_time::timestamp),
+           p.status,
+           COALESCE(p.override_name, e.name), COALESCE(p.override_description, e.description), e.category,
+           s.description, s.time_zone, COALESCE(p.override_location, e.location),
+           COALESCE(e.metadata, '{}') || COALESCE(s.metadata, '{}') || COALESCE(p.override_metadata, '{}'),
+           p.overridden_fields
+    FROM pgcalendar.events e
+    JOIN pgcalendar.schedules s ON e.event_id = s.event_id
+    CROSS JOIN LATERAL pgcalendar.schedule_projections(s.schedule_id, p_start_date, p_end_date) p
+    WHERE s.schedule_id = p_schedule_id;
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    RETURN v_rows;
+END;
+$$ language 'plpgsql';
+
+-- Function to regenerate the cached projections of one schedule
+-- The cache holds two days around the window, as get_events_detailed reads them for viewer time zones
+CREATE OR REPLACE FUNCTION pgcalendar.refresh_schedule_projections(p_schedule_id INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    v_settings RECORD;
+    v_schedule RECORD;
+BEGIN
+    DELETE FROM pgcalendar.projections WHERE schedule_id = p_schedule_id;
+
+    SELECT * INTO v_settings FROM pgcalendar.projection_cache_settings;
+    IF v_settings.window_start IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    -- Gone when its event is being deleted
+    SELECT * INTO v_schedule FROM pgcalendar.schedules WHERE schedule_id = p_schedule_id;
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    RETURN pgcalendar.cache_schedule_projections(
+        p_schedule_id,
+        v_settings.window_start - 2 - pgcalendar.occurrence_span_days(v_schedule),
+        v_settings.window_end + 2
+    );
+END;
+$$ language 'plpgsql';
+
+-- Function to move the projections cache window, generating only the days it did not cover yet
+-- Returns the number of projections added. Run it as a role that bypasses row-level security,
+-- a session that sees one tenant's schedules would move the window for the others without them
+CREATE OR REPLACE FUNCTION pgcalendar.extend_projection_window(
+    p_window_end DATE DEFAULT CURRENT_DATE + 365,
+    p_window_start DATE DEFAULT CURRENT_DATE - 30
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_settings RECORD;
+    v_schedule RECORD;
+    v_rows INTEGER := 0;
+BEGIN
+    IF p_window_end < p_window_start THEN
+        RAISE EXCEPTION 'Projection window end % is before its start %', p_window_end, p_window_start;
+    END IF;
+
+    IF row_security_active('pgcalendar.schedules') THEN
+        RAISE EXCEPTION 'The projection window can only be moved by a role that bypasses row-level security';
+    END IF;
+
+    SELECT * INTO v_settings FROM pgcalendar.projection_cache_settings FOR UPDATE;
+
+    IF v_settings.window_start IS NULL
+       OR p_window_start < v_settings.window_start
+       OR p_window_start > v_settings.window_end THEN
+        -- Nothing cached can be kept: rebuild the whole window
+        DELETE FROM pgcalendar.projections;
+        UPDATE pgcalendar.projection_cache_settings
+        SET window_start = p_window_start, window_end = p_window_end;
+
+        FOR v_schedule IN SELECT * FROM pgcalendar.schedules LOOP
+            v_rows := v_rows + pgcalendar.cache_schedule_projections(
+                v_schedule.schedule_id,
+                p_window_start - 2 - pgcalendar.occurrence_span_days(v_schedule),
+                p_window_end + 2
+            );
+        END LOOP;
+    ELSE
+        -- Drop the days the window rolled past and add the days after its old end
+        DELETE FROM pgcalendar.projections c
+        USING pgcalendar.schedules s
+        WHERE c.schedule_id = s.schedule_id
+        AND c.occurrence_date < p_window_start - 2 - pgcalendar.occurrence_span_days(s);
+
+        IF p_window_end > v_settings.window_end THEN
+            FOR v_schedule IN SELECT * FROM pgcalendar.schedules LOOP
+                v_rows := v_rows + pgcalendar.cache_schedule_projections(
+                    v_schedule.schedule_id, v_settings.window_end + 3, p_window_end + 2);
+            END LOOP;
+        END IF;
+
+        UPDATE pgcalendar.projection_cache_settings
+        SET window_start = p_window_start, window_end = GREATEST(window_end, p_window_end);
+    END IF;
+
+    UPDATE pgcalendar.projection_cache_settings SET refreshed_at = CURRENT_TIMESTAMP;
+
+    RETURN v_rows;
+END;
+$$ language 'plpgsql';
+
+-- Create projection cache trigger functions
+CREATE OR REPLACE FUNCTION pgcalendar.refresh_schedule_projections_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM pgcalendar.refresh_schedule_projections(NEW.schedule_id);
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION pgcalendar.refresh_exception_projections_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM pgcalendar.refresh_schedule_projections(OLD.schedule_id);
+    END IF;
+
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.schedule_id IS DISTINCT FROM OLD.schedule_id) THEN
+        PERFORM pgcalendar.refresh_schedule_projections(NEW.schedule_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Event values are cached under the overrides of single occurrences, so the event's schedules
+-- are regenerated rather than updated in place
+CREATE OR REPLACE FUNCTION pgcalendar.refresh_event_projections_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM pgcalendar.refresh_schedule_projections(s.schedule_id)
+    FROM pgcalendar.schedules s
+    WHERE s.event_id = NEW.event_id;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Schedules avoiding the holidays of a set are regenerated once per statement changing them
+CREATE OR REPLACE FUNCTION pgcalendar.refresh_holiday_projections_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM pgcalendar.refresh_schedule_projections(s.schedule_id)
+        FROM pgcalendar.schedules s
+        WHERE s.holiday_set_id IN (SELECT holiday_set_id FROM new_holidays);
+    ELSIF TG_OP = 'DELETE' THEN
+        PERFORM pgcalendar.refresh_schedule_projections(s.schedule_id)
+        FROM pgcalendar.schedules s
+        WHERE s.holiday_set_id IN (SELECT holiday_set_id FROM old_holidays);
+    ELSE
+        PERFORM pgcalendar.refresh_schedule_projections(s.schedule_id)
+        FROM pgcalendar.schedules s
+        WHERE s.holiday_set_id IN (SELECT holiday_set_id FROM old_holidays
+                                   UNION SELECT holiday_set_id FROM new_holidays);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Create triggers for the projection cache
+DROP TRIGGER IF EXISTS refresh_schedule_projections_trigger ON schedules;
+CREATE TRIGGER refresh_schedule_projections_trigger
+    AFTER INSERT OR UPDATE ON schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION refresh_schedule_projections_trigger();
+
+DROP TRIGGER IF EXISTS refresh_exception_projections_trigger ON exceptions;
+CREATE TRIGGER refresh_exception_projections_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON exceptions
+    FOR EACH ROW
+    EXECUTE FUNCTION refresh_exception_projections_trigger();
+
+DROP TRIGGER IF EXISTS refresh_event_projections_trigger ON events;
+CREATE TRIGGER refresh_event_projections_trigger
+    AFTER UPDATE OF name, description, category, location, tenant_id, metadata ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION refresh_event_projections_trigger();
+
+DROP TRIGGER IF EXISTS refresh_holiday_insert_projections_trigger ON holidays;
+CREATE TRIGGER refresh_holiday_insert_projections_trigger
+    AFTER INSERT ON holidays
+    REFERENCING NEW TABLE AS new_holidays
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION refresh_holiday_projections_trigger();
+
+DROP TRIGGER IF EXISTS refresh_holiday_update_projections_trigger ON holidays;
+CREATE TRIGGER refresh_holiday_update_projections_trigger
+    AFTER UPDATE ON holidays
+    REFERENCING OLD TABLE AS old_holidays NEW TABLE AS new_holidays
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION refresh_holiday_projections_trigger();
+
+DROP TRIGGER IF EXISTS refresh_holiday_delete_projections_trigger ON holidays;
+CREATE TRIGGER refresh_holiday_delete_projections_trigger
+    AFTER DELETE ON holidays
+    REFERENCING OLD TABLE AS old_holidays
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION refresh_holiday_projections_trigger();
+
+-- Helper function to compute the projection dates a row of events, schedules or exceptions affects
+-- range_until is NULL for unbounded series; both are NULL when no projections are affected
+-- Counted series are bounded by their end_date only, which saves searching for their last occurrence
+CREATE OR REPLACE FUNCTION pgcalendar.change_range(
+    p_table TEXT,
+    p_row RECORD,
+    OUT range_from DATE,
+    OUT range_until DATE
+) AS $$
+DECLARE
+    v_span INTEGER;
+BEGIN
+    IF p_table = 'events' THEN
+        SELECT min(s.start_date)::date,
+               CASE WHEN bool_or(s.end_date IS NULL) THEN NULL
+                    ELSE max(s.end_date::date + pgcalendar.occurrence_span_days(s)) END
+        INTO range_from, range_until
+        FROM pgcalendar.schedules s
+        WHERE s.event_id = p_row.event_id;
+    ELSIF p_table = 'schedules' THEN
+        range_from := p_row.start_date::date;
+        range_until := p_row.end_date::date + pgcalendar.occurrence_span_days(p_row);
+    ELSE
+        -- The schedule is gone when the exception is deleted along with it
+        SELECT pgcalendar.occurrence_span_days(s) INTO v_span
+        FROM pgcalendar.schedules s
+        WHERE s.schedule_id = p_row.schedule_id;
+
+        range_from := LEAST(p_row.exception_date, p_row.modified_date, p_row.modified_start_time::date);
+        range_until := GREATEST(p_row.exception_date + COALESCE(v_span, 0),
+                                p_row.modified_date + COALESCE(v_span, 0),
+                                p_row.modified_end_time::date);
+    END IF;
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Create change notification trigger function
+-- Sends a JSON payload on the pgcalendar_changes channel with the entity, its id, the operation and
+-- the range of projection dates the change can affect, before and after it for updates
+CREATE OR REPLACE FUNCTION pgcalendar.notify_calendar_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_row RECORD;
+    v_range RECORD;
+    v_old_range RECORD;
+    v_from DATE;
+    v_until DATE;
+    v_entity TEXT;
+    v_id INTEGER;
+    v_event_id INTEGER;
+    v_tenant_id TEXT;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_row := OLD;
+    ELSE
+        v_row := NEW;
+    END IF;
+
+    v_range := pgcalendar.change_range(TG_TABLE_NAME, v_row);
+    v_from := v_range.range_from;
+    v_until := v_range.range_until;
+
+    IF TG_OP = 'UPDATE' AND TG_TABLE_NAME <> 'events' THEN
+        v_old_range := pgcalendar.change_range(TG_TABLE_NAME, OLD);
+        v_from := LEAST(v_from, v_old_range.range_from);
+        v_until := CASE
+            WHEN v_range.range_from IS NOT NULL AND v_range.range_until IS NULL THEN NULL
+            WHEN v_old_range.range_from IS NOT NULL AND v_old_range.range_until IS NULL THEN NULL
+            ELSE GREATEST(v_until, v_old_range.range_until)
+        END;
+    END IF;
+
+    IF TG_TABLE_NAME = 'events' THEN
+        v_entity := 'event';
+        v_id := v_row.event_id;
+        v_event_id := v_row.event_id;
+    ELSIF TG_TABLE_NAME = 'schedules' THEN
+        v_entity := 'schedule';
+        v_id := v_row.schedule_id;
+        v_event_id := v_row.event_id;
+    ELSE
+        v_entity := 'exception';
+        v_id := v_row.exception_id;
+        SELECT s.event_id INTO v_event_id FROM pgcalendar.schedules s WHERE s.schedule_id = v_row.schedule_id;
+    END IF;
+
+    -- Listeners of every tenant get the notification, so it says whose change it is.
+    -- Rows deleted along with their event or schedule take the tenant from the audit log
+    IF TG_TABLE_NAME = 'events' THEN
+        v_tenant_id := v_row.tenant_id;
+    ELSIF v_event_id IS NOT NULL THEN
+        SELECT e.tenant_id INTO v_tenant_id FROM pgcalendar.events e WHERE e.event_id = v_event_id;
+        IF NOT FOUND THEN
+            SELECT l.tenant_id INTO v_tenant_id
+            FROM pgcalendar.audit_log l
+            WHERE l.table_name = 'events' AND l.row_id = v_event_id
+            ORDER BY l.audit_id DESC
+            LIMIT 1;
+        END IF;
+    ELSE
+        SELECT l.tenant_id INTO v_tenant_id
+        FROM pgcalendar.audit_log l
+        WHERE l.table_name = 'schedules' AND l.row_id = v_row.schedule_id
+        ORDER BY l.audit_id DESC
+        LIMIT 1;
+    END IF;
+
+    PERFORM pg_notify('pgcalendar_changes', jsonb_build_object(
+        'entity', v_entity,
+        'id', v_id,
+        'operation', lower(TG_OP),
+        'event_id', v_event_id,
+        'tenant_id', v_tenant_id,
+        'from', v_from,
+        'until', v_until
+    )::text);
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Create triggers for the change feed
+DROP TRIGGER IF EXISTS notify_event_change_trigger ON events;
+CREATE TRIGGER notify_event_change_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_calendar_change();
+
+DROP TRIGGER IF EXISTS notify_schedule_change_trigger ON schedules;
+CREATE TRIGGER notify_schedule_change_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_calendar_change();
+
+DROP TRIGGER IF EXISTS notify_exception_change_trigger ON exceptions;
+CREATE TRIGGER notify_exception_change_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON exceptions
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_calendar_change();
+
+-- Create audit trigger function
+-- TG_ARGV[0] is the table's key column; updates that only touch updated_at are not recorded
+-- It runs as its owner, so that applications need no INSERT on audit_log and cannot write made-up
+-- history. current_user is then the owner: the role set by the session, else its login, made the change
+CREATE OR REPLACE FUNCTION pgcalendar.record_audit_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_old JSONB;
+    v_new JSONB;
+    v_row JSONB;
+    v_event_id INTEGER;
+    v_tenant_id TEXT;
+    v_user TEXT := COALESCE(NULLIF(current_setting('role'), 'none'), session_user);
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        v_old := to_jsonb(OLD);
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        v_new := to_jsonb(NEW);
+    END IF;
+    IF TG_OP = 'UPDATE' AND v_old - 'updated_at' = v_new - 'updated_at' THEN
+        RETURN NULL;
+    END IF;
+    v_row := COALESCE(v_new, v_old);
+
+    IF TG_TABLE_NAME = 'exceptions' THEN
+        -- The schedule is gone when the exception is deleted along with it
+        SELECT s.event_id INTO v_event_id FROM pgcalendar.schedules s WHERE s.schedule_id = (v_row->>'schedule_id')::integer;
+        IF v_event_id IS NULL THEN
+            SELECT l.event_id INTO v_event_id
+            FROM pgcalendar.audit_log l
+            WHERE l.table_name = 'schedules' AND l.row_id = (v_row->>'schedule_id')::integer
+            ORDER BY l.audit_id DESC
+            LIMIT 1;
+        END IF;
+    ELSE
+        v_event_id := (v_row->>'event_id')::integer;
+    END IF;
+
+    -- Likewise the event when its schedules and exceptions are deleted along with it
+    IF TG_TABLE_NAME = 'events' THEN
+        v_tenant_id := v_row->>'tenant_id';
+    ELSE
+        SELECT e.tenant_id INTO v_tenant_id FROM pgcalendar.events e WHERE e.event_id = v_event_id;
+        IF NOT FOUND THEN
+            SELECT l.tenant_id INTO v_tenant_id
+            FROM pgcalendar.audit_log l
+            WHERE l.table_name = 'events' AND l.row_id = v_event_id
+            ORDER BY l.audit_id DESC
+            LIMIT 1;
+        END IF;
+    END IF;
+
+    INSERT INTO pgcalendar.audit_log (
+        table_name, row_id, event_id, schedule_id, tenant_id, operation, changed_by, database_user, old_row, new_row
+    )
+    VALUES (
+        TG_TABLE_NAME,
+        (v_row->>TG_ARGV[0])::integer,
+        v_event_id,
+        (v_row->>'schedule_id')::integer,
+        v_tenant_id,
+        lower(TG_OP),
+        COALESCE(NULLIF(current_setting('pgcalendar.user', TRUE), ''), v_user),
+        v_user,
+        v_old,
+        v_new
+    );
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = pg_catalog, pg_temp;
+
+-- Create triggers for the audit log
+DROP TRIGGER IF EXISTS audit_event_change_trigger ON events;
+CREATE TRIGGER audit_event_change_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION record_audit_change('event_id');
+
+DROP TRIGGER IF EXISTS audit_schedule_change_trigger ON schedules;
+CREATE TRIGGER audit_schedule_change_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION record_audit_change('schedule_id');
+
+DROP TRIGGER IF EXISTS audit_exception_change_trigger ON exceptions;
+CREATE TRIGGER audit_exception_change_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON exceptions
+    FOR EACH ROW
+    EXECUTE FUNCTION record_audit_change('exception_id');
+
+-- Rows from before the audit log was installed start their history when they were created
+INSERT INTO audit_log (table_name, row_id, event_id, tenant_id, operation, changed_at, new_row)
+SELECT 'events', e.event_id, e.event_id, e.tenant_id, 'insert', COALESCE(e.created_at, CURRENT_TIMESTAMP), to_jsonb(e)
+FROM events e
+WHERE NOT EXISTS (SELECT 1 FROM audit_log l WHERE l.table_name = 'events' AND l.row_id = e.event_id);
+
+INSERT INTO audit_log (table_name, row_id, event_id, schedule_id, tenant_id, operation, changed_at, new_row)
+SELECT 'schedules', s.schedule_id, s.event_id, s.schedule_id, e.tenant_id, 'insert', COALESCE(s.created_at, CURRENT_TIMESTAMP), to_jsonb(s)
+FROM schedules s
+LEFT JOIN events e ON e.event_id = s.event_id
+WHERE NOT EXISTS (SELECT 1 FROM audit_log l WHERE l.table_name = 'schedules' AND l.row_id = s.schedule_id);
+
+INSERT INTO audit_log (table_name, row_id, event_id, schedule_id, tenant_id, operation, changed_at, new_row)
+SELECT 'exceptions', x.exception_id, s.event_id, x.schedule_id, e.tenant_id, 'insert', COALESCE(x.created_at, CURRENT_TIMESTAMP), to_jsonb(x)
+FROM exceptions x
+JOIN schedules s ON s.schedule_id = x.schedule_id
+LEFT JOIN events e ON e.event_id = s.event_id
+WHERE NOT EXISTS (SELECT 1 FROM audit_log l WHERE l.table_name = 'exceptions' AND l.row_id = x.exception_id);
+
+-- Helper function to check whether a participant attends an event; any event without a participant
+CREATE OR REPLACE FUNCTION pgcalendar.attends(
+    p_participant_id INTEGER,
+    p_event_id INTEGER
+)
+RETURNS BOOLEAN AS $$
+    SELECT p_participant_id IS NULL OR EXISTS (
+        SELECT 1 FROM pgcalendar.attendees a
+        WHERE a.event_id = p_event_id AND a.participant_id = p_participant_id
+    );
+$$ language 'sql' STABLE;
+
+-- Helper function to check whether an event books a resource; any event without a resource
+CREATE OR REPLACE FUNCTION pgcalendar.books(
+    p_resource_id INTEGER,
+    p_event_id INTEGER
+)
+RETURNS BOOLEAN AS $$
+    SELECT p_resource_id IS NULL OR EXISTS (
+        SELECT 1 FROM pgcalendar.event_resources er
+        WHERE er.event_id = p_event_id AND er.resource_id = p_resource_id
+    );
+$$ language 'sql' STABLE;
+
+-- Helper function to look up a participant's response to one occurrence, else to the whole series
+-- NULL when they have not answered or do not attend
+CREATE OR REPLACE FUNCTION pgcalendar.occurrence_response(
+    p_participant_id INTEGER,
+    p_event_id INTEGER,
+    p_schedule_id INTEGER,
+    p_occurrence_date DATE
+)
+RETURNS rsvp_response AS $$
+    SELECT COALESCE(r.response, a.response)
+    FROM pgcalendar.attendees a
+    LEFT JOIN pgcalendar.occurrence_responses r
+        ON r.attendee_id = a.attendee_id
+        AND r.schedule_id = p_schedule_id
+        AND r.occurrence_date = p_occurrence_date
+    WHERE a.event_id = p_event_id AND a.participant_id = p_participant_id;
+$$ language 'sql' STABLE;
+
+-- Helper function to list the projections of occurrence dates in a range, widened by p_margin days
+-- (at most two) and by how long each schedule's occurrences last
+-- Reads the projections cache when it is enabled and covers the range, and generates them otherwise
+-- Exception overrides replace the event's name, description and location and are merged over its metadata
+-- With p_participant_id, only events they attend are listed, with their response to each occurrence
+-- With p_resource_id, only events booking that resource
+CREATE OR REPLACE FUNCTION pgcalendar.projection_rows(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_margin INTEGER DEFAULT 0,
+    p_event_id INTEGER DEFAULT NULL,
+    p_participant_id INTEGER DEFAULT NULL,
+    p_resource_id INTEGER DEFAULT NULL
+)
+RETURNS TABLE(
+    schedule_id INTEGER,
+    event_id INTEGER,
+    occurrence_date DATE,
+    projection_date DATE,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    status TEXT,
+    event_name VARCHAR(255),
+    event_description TEXT,
+    event_category VARCHAR(100),
+    schedule_description TEXT,
+    time_zone TEXT,
+    location VARCHAR(255),
+    metadata JSONB,
+    overridden_fields TEXT[],
+    response TEXT
+) AS $$
+BEGIN
+    IF pgcalendar.projection_cache_covers(p_start_date, p_end_date) THEN
+        RETURN QUERY
+        SELECT c.schedule_id, c.event_id, c.occurrence_date, c.projection_date,
+               pgcalendar.zoned_timestamp(c.local_start_time, c.time_zone),
+               pgcalendar.zoned_timestamp(c.local_end_time, c.time_zone),
+               c.status,
+               c.event_name, c.event_description, c.event_category, c.schedule_description, c.time_zone,
+               c.location, c.metadata, c.overridden_fields,
+               CASE WHEN p_participant_id IS NOT NULL THEN
+                   pgcalendar.occurrence_response(p_participant_id, c.event_id, c.schedule_id, c.occurrence_date)::text END
+        FROM pgcalendar.projections c
+        JOIN pgcalendar.schedules s ON s.schedule_id = c.schedule_id
+        WHERE (p_event_id IS NULL OR c.event_id = p_event_id)
+        AND pgcalendar.attends(p_participant_id, c.event_id)
+        AND pgcalendar.books(p_resource_id, c.event_id)
+        AND c.occurrence_date BETWEEN p_start_date - p_margin - pgcalendar.occurrence_span_days(s)
+                                  AND p_end_date + p_margin;
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT s.schedule_id, e.event_id, p.occurrence_date, p.projection_date, p.start_time, p.end_time, p.status,
+           COALESCE(p.override_name, e.name), COALESCE(p.override_description, e.description), e.category,
+           s.description, s.time_zone, COALESCE(p.override_location, e.location),
+           COALESCE(e.metadata, '{}') || COALESCE(s.metadata, '{}') || COALESCE(p.override_metadata, '{}'),
+           p.overridden_fields,
+           CASE WHEN p_participant_id IS NOT NULL THEN
+               pgcalendar.occurrence_response(p_participant_id, e.event_id, s.schedule_id, p.occurrence_date)::text END
     FROM pgcalendar.events e
     JOIN pgcalendar.schedules s ON e.event_id = s.event_id
-    CROSS JOIN LATERAL pgcalendar.generate_projections(s.schedule_id, p_start_date, p_end_date) p
-    WHERE e.event_id = p_event_id
-    ORDER BY p.projection_date, p.start_time;
+    CROSS JOIN LATERAL pgcalendar.schedule_projections(
+        s.schedule_id, p_start_date - p_margin - pgcalendar.occurrence_span_days(s), p_end_date + p_margin) p
+    WHERE (p_event_id IS NULL OR e.event_id = p_event_id)
+    AND pgcalendar.attends(p_participant_id, e.event_id)
+    AND pgcalendar.books(p_resource_id, e.event_id);
 END;
-$$ language 'plpgsql';
+$$ language 'plpgsql' STABLE;
 
--- Function to get all events with detailed information
-CREATE OR REPLACE FUNCTION pgcalendar.get_events_detailed(
+-- Main function to get event projections
+-- With p_participant_id, only if they attend the event, with their response to each occurrence
+CREATE OR REPLACE FUNCTION pgcalendar.get_event_projections(
+    p_event_id INTEGER,
     p_start_date DATE,
-    p_end_date DATE
+    p_end_date DATE,
+    p_participant_id INTEGER DEFAULT NULL
 )
 RETURNS TABLE(
     projection_date DATE,
-    start_time TIMESTAMP,
-    end_time TIMESTAMP,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
     event_name VARCHAR(255),
     event_description TEXT,
     event_category VARCHAR(100),
     schedule_description TEXT,
-    status TEXT
+    status TEXT,
+    time_zone TEXT,
+    local_start_time TIMESTAMP,
+    local_end_time TIMESTAMP,
+    location VARCHAR(255),
+    metadata JSONB,
+    overridden_fields TEXT[],
+    response TEXT
 ) AS $$
 BEGIN
     RETURN QUERY
     SELECT 
+        r.projection_date,
+        r.start_time,
+        r.end_time,
+        r.event_name,
+        r.event_description,
+        r.event_category,
+        r.schedule_description,
+        r.status,
+        r.time_zone,
+        COALESCE(r.start_time AT TIME ZONE r.time_zone, r.start_time::timestamp) as local_start_time,
+        COALESCE(r.end_time AT TIME ZONE r.time_zone, r.end_time::timestamp) as local_end_time,
+        r.location,
+        r.metadata,
+        r.overridden_fields,
+        r.response
+    FROM pgcalendar.projection_rows(p_start_date, p_end_date, 0, p_event_id, p_participant_id) r
+    -- Occurrences from earlier days that are still running when the range starts
+    WHERE r.projection_date >= p_start_date
+       OR r.end_time > pgcalendar.zoned_timestamp(p_start_date::timestamp, r.time_zone)
+    ORDER BY r.projection_date, r.start_time;
+END;
+$$ language 'plpgsql';
+
+-- Helper function to rebuild the rows of events, schedules or exceptions as they were at p_as_of
+-- from the last audit_log entry of each row until then; rows deleted by then are left out
+-- Only rows that belonged to p_event_id at some point are read; callers check that they still did
+CREATE OR REPLACE FUNCTION pgcalendar.audit_rows_as_of(
+    p_table TEXT,
+    p_event_id INTEGER,
+    p_as_of TIMESTAMPTZ
+)
+RETURNS SETOF JSONB AS $$
+    SELECT a.new_row
+    FROM (
+        SELECT DISTINCT ON (l.row_id) l.new_row
+        FROM pgcalendar.audit_log l
+        WHERE l.table_name = p_table AND l.changed_at <= p_as_of
+        AND l.row_id IN (SELECT h.row_id FROM pgcalendar.audit_log h WHERE h.table_name = p_table AND h.event_id = p_event_id)
+        ORDER BY l.row_id, l.audit_id DESC
+    ) a
+    WHERE a.new_row IS NOT NULL;
+$$ language 'sql' STABLE;
+
+-- Function to get event projections as they were at a past moment, from the audit log
+-- Holidays and the projection cache are not part of the history: the current holidays apply
+CREATE OR REPLACE FUNCTION pgcalendar.get_event_projections_as_of(
+    p_event_id INTEGER,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_as_of TIMESTAMPTZ
+)
+RETURNS TABLE(
+    projection_date DATE,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    event_name VARCHAR(255),
+    event_description TEXT,
+    event_category VARCHAR(100),
+    schedule_description TEXT,
+    status TEXT,
+    time_zone TEXT,
+    local_start_time TIMESTAMP,
+    local_end_time TIMESTAMP,
+    location VARCHAR(255),
+    metadata JSONB,
+    overridden_fields TEXT[]
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH e AS (
+        SELECT r.*
+        FROM pgcalendar.audit_rows_as_of('events', p_event_id, p_as_of) j
+        CROSS JOIN LATERAL jsonb_populate_record(NULL::pgcalendar.events, j) r
+        WHERE r.event_id = p_event_id
+    ), s AS (
+        SELECT r.*
+        FROM pgcalendar.audit_rows_as_of('schedules', p_event_id, p_as_of) j
+        CROSS JOIN LATERAL jsonb_populate_record(NULL::pgcalendar.schedules, j) r
+        WHERE r.event_id = p_event_id
+    ), x AS (
+        SELECT r AS exception
+        FROM pgcalendar.audit_rows_as_of('exceptions', p_event_id, p_as_of) j
+        CROSS JOIN LATERAL jsonb_populate_record(NULL::pgcalendar.exceptions, j) r
+    )
+    SELECT
         p.projection_date,
         p.start_time,
         p.end_time,
-        e.name as event_name,
-        e.description as event_description,
-        e.category as event_category,
-        s.description as schedule_description,
-        p.status
-    FROM pgcalendar.events e
-    JOIN pgcalendar.schedules s ON e.event_id = s.event_id
-    CROSS JOIN LATERAL pgcalendar.generate_projections(s.schedule_id, p_start_date, p_end_date) p
+        COALESCE(p.override_name, e.name),
+        COALESCE(p.override_description, e.description),
+        e.category,
+        s.description,
+        p.status,
+        s.time_zone,
+        COALESCE(p.start_time AT TIME ZONE s.time_zone, p.start_time::timestamp),
+        COALESCE(p.end_time AT TIME ZONE s.time_zone, p.end_time::timestamp),
+        COALESCE(p.override_location, e.location),
+        COALESCE(e.metadata, '{}') || COALESCE(s.metadata, '{}') || COALESCE(p.override_metadata, '{}'),
+        p.overridden_fields
+    FROM e
+    JOIN s ON s.event_id = e.event_id
+    CROSS JOIN LATERAL pgcalendar.project_schedule(
+        s,
+        ARRAY(
+            SELECT x.exception FROM x
+            WHERE (x.exception).schedule_id = s.schedule_id
+            AND (x.exception).exception_date BETWEEN p_start_date - pgcalendar.occurrence_span_days(s) AND p_end_date
+        ),
+        p_start_date - pgcalendar.occurrence_span_days(s),
+        p_end_date
+    ) p
+    -- Occurrences from earlier days that are still running when the range starts
+    WHERE p.projection_date >= p_start_date
+       OR p.end_time > pgcalendar.zoned_timestamp(p_start_date::timestamp, s.time_zone)
     ORDER BY p.projection_date, p.start_time;
 END;
+$$ language 'plpgsql' STABLE;
+
+-- Function to list the audit log entries of an occurrence: every change to its schedule, and to
+-- exceptions of the schedule on the occurrence date before or after the change
+CREATE OR REPLACE FUNCTION pgcalendar.get_occurrence_history(
+    p_schedule_id INTEGER,
+    p_occurrence_date DATE
+)
+RETURNS SETOF pgcalendar.audit_log AS $$
+    SELECT l.*
+    FROM pgcalendar.audit_log l
+    WHERE (l.table_name = 'schedules' AND l.row_id = p_schedule_id)
+    OR (l.table_name = 'exceptions'
+        -- Exceptions stay with the schedule's event, also when they are moved to another of its schedules
+        AND l.event_id IN (SELECT h.event_id FROM pgcalendar.audit_log h WHERE h.table_name = 'schedules' AND h.row_id = p_schedule_id)
+        AND p_schedule_id IN ((l.old_row->>'schedule_id')::integer, (l.new_row->>'schedule_id')::integer)
+        AND p_occurrence_date IN ((l.old_row->>'exception_date')::date, (l.new_row->>'exception_date')::date))
+    ORDER BY l.audit_id;
+$$ language 'sql' STABLE;
+
+-- Function to get all events with detailed information
+-- With p_time_zone the date range and local times are those of the viewer's time zone
+-- With p_participant_id only the events they attend, with their response to each occurrence
+-- With p_resource_id only the events booking that resource
+CREATE OR REPLACE FUNCTION pgcalendar.get_events_detailed(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_time_zone TEXT DEFAULT NULL,
+    p_participant_id INTEGER DEFAULT NULL,
+    p_resource_id INTEGER DEFAULT NULL
+)
+RETURNS TABLE(
+    projection_date DATE,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    event_name VARCHAR(255),
+    event_description TEXT,
+    event_category VARCHAR(100),
+    schedule_description TEXT,
+    status TEXT,
+    time_zone TEXT,
+    local_start_time TIMESTAMP,
+    local_end_time TIMESTAMP,
+    location VARCHAR(255),
+    metadata JSONB,
+    overridden_fields TEXT[],
+    response TEXT
+) AS $$
+BEGIN
+    IF p_time_zone IS NOT NULL AND NOT pgcalendar.is_valid_time_zone(p_time_zone) THEN
+        RAISE EXCEPTION 'Unknown time zone %', p_time_zone;
+    END IF;
+
+    IF p_time_zone IS NULL THEN
+        RETURN QUERY
+        SELECT 
+            r.projection_date,
+            r.start_time,
+            r.end_time,
+            r.event_name,
+            r.event_description,
+            r.event_category,
+            r.schedule_description,
+            r.status,
+            r.time_zone,
+            COALESCE(r.start_time AT TIME ZONE r.time_zone, r.start_time::timestamp) as local_start_time,
+            COALESCE(r.end_time AT TIME ZONE r.time_zone, r.end_time::timestamp) as local_end_time,
+            r.location,
+            r.metadata,
+            r.overridden_fields,
+            r.response
+        FROM pgcalendar.projection_rows(p_start_date, p_end_date, 0, NULL, p_participant_id, p_resource_id) r
+        -- Occurrences from earlier days that are still running when the range starts
+        WHERE r.projection_date >= p_start_date
+           OR r.end_time > pgcalendar.zoned_timestamp(p_start_date::timestamp, r.time_zone)
+        ORDER BY r.projection_date, r.start_time;
+        RETURN;
+    END IF;
+
+    -- Occurrence dates can differ from the viewer's dates by up to two days
+    RETURN QUERY
+    SELECT 
+        r.projection_date,
+        r.start_time,
+        r.end_time,
+        r.event_name,
+        r.event_description,
+        r.event_category,
+        r.schedule_description,
+        r.status,
+        p_time_zone,
+        r.start_time AT TIME ZONE p_time_zone as local_start_time,
+        r.end_time AT TIME ZONE p_time_zone as local_end_time,
+        r.location,
+        r.metadata,
+        r.overridden_fields,
+        r.response
+    FROM pgcalendar.projection_rows(p_start_date, p_end_date, 2, NULL, p_participant_id, p_resource_id) r
+    WHERE (r.start_time AT TIME ZONE p_time_zone)::date BETWEEN p_start_date AND p_end_date
+       OR (r.start_time < p_start_date::timestamp AT TIME ZONE p_time_zone
+           AND r.end_time > p_start_date::timestamp AT TIME ZONE p_time_zone)
+    ORDER BY r.start_time, r.projection_date;
+END;
 $$ language 'plpgsql';
 
+-- Function to page through the projections of events matching filters; NULL filters match everything
+-- Rows are ordered by start_time, event_id and schedule_id, then occurrence_date for occurrences moved
+-- onto the same time. Pass the last row's values as p_after_* to get the next page; start times are
+-- compared to the millisecond, the precision of a JavaScript Date
+CREATE OR REPLACE FUNCTION pgcalendar.query_projections(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_categories TEXT[] DEFAULT NULL,
+    p_event_statuses TEXT[] DEFAULT NULL,
+    p_min_priority INTEGER DEFAULT NULL,
+    p_max_priority INTEGER DEFAULT NULL,
+    p_event_ids INTEGER[] DEFAULT NULL,
+    p_metadata JSONB DEFAULT NULL, -- contained in the occurrence's merged metadata
+    p_statuses TEXT[] DEFAULT NULL, -- projection statuses, e.g. {modified,added}
+    p_limit INTEGER DEFAULT 100,
+    p_after_start_time TIMESTAMPTZ DEFAULT NULL,
+    p_after_event_id INTEGER DEFAULT NULL,
+    p_after_schedule_id INTEGER DEFAULT NULL,
+    p_after_occurrence_date DATE DEFAULT NULL
+)
+RETURNS TABLE(
+    event_id INTEGER,
+    schedule_id INTEGER,
+    priority INTEGER,
+    occurrence_date DATE,
+    projection_date DATE,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    event_name VARCHAR(255),
+    event_description TEXT,
+    event_category VARCHAR(100),
+    schedule_description TEXT,
+    status TEXT,
+    time_zone TEXT,
+    local_start_time TIMESTAMP,
+    local_end_time TIMESTAMP,
+    location VARCHAR(255),
+    metadata JSONB,
+    overridden_fields TEXT[]
+) AS $$
+DECLARE
+    -- First occurrence date to generate
+    v_from DATE := p_start_date;
+BEGIN
+    IF p_limit IS NULL OR p_limit <= 0 THEN
+        RAISE EXCEPTION 'Page size must be positive';
+    END IF;
+
+    IF p_after_start_time IS NOT NULL
+       AND (p_after_event_id IS NULL OR p_after_schedule_id IS NULL OR p_after_occurrence_date IS NULL) THEN
+        RAISE EXCEPTION 'A page starts after a start_time, event_id, schedule_id and occurrence_date';
+    END IF;
+
+    IF p_after_start_time IS NOT NULL THEN
+        -- Occurrences after the cursor start on or after the day before its UTC date in any time zone;
+        -- projection_rows also goes back as many days as each schedule's occurrences last
+        v_from := GREATEST(p_start_date, (p_after_start_time AT TIME ZONE 'UTC')::date - 1);
+
+        -- Earlier occurrences an exception moved past that day
+        SELECT LEAST(v_from, MIN(x.exception_date)) INTO v_from
+        FROM pgcalendar.exceptions x
+        WHERE x.exception_date >= p_start_date AND x.exception_date < v_from
+        AND x.exception_type <> 'cancelled'
+        AND COALESCE(x.modified_start_time::date, x.modified_date) >= v_from;
+
+        -- and those moved off a holiday to the next business day
+        SELECT LEAST(v_from, MIN(h.holiday_date)) INTO v_from
+        FROM pgcalendar.schedules s
+        JOIN pgcalendar.holidays h ON h.holiday_set_id = s.holiday_set_id
+        WHERE s.holiday_policy = 'next_business_day'
+        AND h.holiday_date >= p_start_date AND h.holiday_date < v_from
+        AND pgcalendar.holiday_shift(s, h.holiday_date) >= v_from;
+    END IF;
+
+    -- Events are filtered before their projections are generated
+    RETURN QUERY
+    SELECT
+        r.event_id,
+        r.schedule_id,
+        e.priority,
+        r.occurrence_date,
+        r.projection_date,
+        r.start_time,
+        r.end_time,
+        r.event_name,
+        r.event_description,
+        r.event_category,
+        r.schedule_description,
+        r.status,
+        r.time_zone,
+        COALESCE(r.start_time AT TIME ZONE r.time_zone, r.start_time::timestamp),
+        COALESCE(r.end_time AT TIME ZONE r.time_zone, r.end_time::timestamp),
+        r.location,
+        r.metadata,
+        r.overridden_fields
+    FROM pgcalendar.events e
+    CROSS JOIN LATERAL pgcalendar.projection_rows(v_from, p_end_date, 0, e.event_id) r
+    WHERE (p_categories IS NULL OR e.category = ANY(p_categories))
+    AND (p_event_statuses IS NULL OR e.status = ANY(p_event_statuses))
+    AND (p_min_priority IS NULL OR e.priority >= p_min_priority)
+    AND (p_max_priority IS NULL OR e.priority <= p_max_priority)
+    AND (p_event_ids IS NULL OR e.event_id = ANY(p_event_ids))
+    AND (p_metadata IS NULL OR r.metadata @> p_metadata)
+    AND (p_statuses IS NULL OR r.status = ANY(p_statuses))
+    -- Occurrences from earlier days that are still running when the range starts
+    AND (r.projection_date >= p_start_date
+         OR r.end_time > pgcalendar.zoned_timestamp(p_start_date::timestamp, r.time_zone))
+    AND (p_after_start_time IS NULL
+         OR (date_trunc('milliseconds', r.start_time), r.event_id, r.schedule_id, r.occurrence_date)
+            > (date_trunc('milliseconds', p_after_start_time), p_after_event_id, p_after_schedule_id,
+               p_after_occurrence_date))
+    ORDER BY date_trunc('milliseconds', r.start_time), r.event_id, r.schedule_id, r.occurrence_date
+    LIMIT p_limit;
+END;
+$$ language 'plpgsql' STABLE;
+
 -- Function to check schedule overlap
 CREATE OR REPLACE FUNCTION pgcalendar.check_schedule_overlap(
     p_event_id INTEGER,
     p_start_date TIMESTAMP,
-    p_end_date TIMESTAMP
+    p_end_date TIMESTAMP,
+    p_time_zone TEXT DEFAULT NULL
 )
 RETURNS BOOLEAN AS $$
 BEGIN
+    -- A NULL p_end_date checks an unbounded series
     RETURN EXISTS (
-        SELECT 1 FROM pgcalendar.schedules 
-        WHERE event_id = p_event_id 
+        SELECT 1 FROM pgcalendar.schedules s
+        WHERE s.event_id = p_event_id 
         AND (
-            (p_start_date <= end_date AND p_end_date >= start_date)
+            (pgcalendar.zoned_timestamp(p_start_date, p_time_zone)
+                <= COALESCE(pgcalendar.zoned_timestamp(pgcalendar.schedule_series_end(s), s.time_zone), 'infinity')
+             AND COALESCE(pgcalendar.zoned_timestamp(p_end_date, p_time_zone), 'infinity')
+                >= pgcalendar.zoned_timestamp(s.start_date, s.time_zone))
         )
     );
 END;
@@ -348,51 +2540,744 @@ CREATE OR REPLACE FUNCTION pgcalendar.transition_event_schedule(
     p_recurrence_day_of_week INTEGER DEFAULT NULL,
     p_recurrence_day_of_month INTEGER DEFAULT NULL,
     p_recurrence_month INTEGER DEFAULT NULL,
-    p_description TEXT DEFAULT NULL
+    p_description TEXT DEFAULT NULL,
+    p_time_zone TEXT DEFAULT NULL,
+    p_recurrence_week_of_month INTEGER DEFAULT NULL,
+    p_missing_day_policy missing_day_policy DEFAULT 'skip',
+    p_recurrence_days_of_week INTEGER[] DEFAULT NULL,
+    p_occurrence_count INTEGER DEFAULT NULL,
+    p_duration_minutes INTEGER DEFAULT NULL,
+    p_occurrence_end_time TIME DEFAULT NULL
 )
 RETURNS INTEGER AS $$
 DECLARE
     v_schedule_id INTEGER;
+    v_new pgcalendar.schedules%ROWTYPE;
 BEGIN
+    -- Counted series end with their last occurrence
+    v_new.start_date := p_new_start_date;
+    v_new.end_date := p_new_end_date;
+    v_new.recurrence_type := p_recurrence_type;
+    v_new.recurrence_interval := p_recurrence_interval;
+    v_new.recurrence_day_of_week := p_recurrence_day_of_week;
+    v_new.recurrence_days_of_week := p_recurrence_days_of_week;
+    v_new.recurrence_day_of_month := p_recurrence_day_of_month;
+    v_new.recurrence_month := p_recurrence_month;
+    v_new.recurrence_week_of_month := p_recurrence_week_of_month;
+    v_new.missing_day_policy := p_missing_day_policy;
+    v_new.occurrence_count := p_occurrence_count;
+    v_new.duration_minutes := p_duration_minutes;
+    v_new.occurrence_end_time := p_occurrence_end_time;
+    v_new.weekend_days := '{0,6}';
+
     -- Check for overlap
-    IF pgcalendar.check_schedule_overlap(p_event_id, p_new_start_date, p_new_end_date) THEN
+    IF pgcalendar.check_schedule_overlap(
+        p_event_id, p_new_start_date, pgcalendar.schedule_series_end(v_new), p_time_zone
+    ) THEN
         RAISE EXCEPTION 'New schedule would overlap with existing schedules for event %', p_event_id;
     END IF;
     
     -- Create new schedule
     INSERT INTO pgcalendar.schedules (
         event_id, start_date, end_date, recurrence_type, recurrence_interval,
-        recurrence_day_of_week, recurrence_day_of_month, recurrence_month, description
+        recurrence_day_of_week, recurrence_day_of_month, recurrence_month, description, time_zone,
+        recurrence_week_of_month, missing_day_policy, recurrence_days_of_week,
+        occurrence_count, duration_minutes, occurrence_end_time
     ) VALUES (
         p_event_id, p_new_start_date, p_new_end_date, p_recurrence_type, p_recurrence_interval,
-        p_recurrence_day_of_week, p_recurrence_day_of_month, p_recurrence_month, p_description
+        p_recurrence_day_of_week, p_recurrence_day_of_month, p_recurrence_month, p_description, p_time_zone,
+        p_recurrence_week_of_month, p_missing_day_policy, p_recurrence_days_of_week,
+        p_occurrence_count, p_duration_minutes, p_occurrence_end_time
     ) RETURNING schedule_id INTO v_schedule_id;
     
     RETURN v_schedule_id;
 END;
 $$ language 'plpgsql';
 
+-- Function to split a schedule at one of its occurrences ("this and following"): the schedule
+-- ends the day before p_split_date and a copy with p_changes applied continues from it
+-- p_changes holds schedules columns, e.g. {"start_date": "2024-03-04 10:00:00"}; exceptions from
+-- p_split_date on, and responses to those occurrences, move to the new schedule with p_carry_exceptions
+-- and are deleted otherwise. The schedule's reminders are copied to the new schedule
+CREATE OR REPLACE FUNCTION pgcalendar.split_schedule(
+    p_schedule_id INTEGER,
+    p_split_date DATE,
+    p_changes JSONB DEFAULT '{}',
+    p_carry_exceptions BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE(
+    head_schedule_id INTEGER,
+    tail_schedule_id INTEGER
+) AS $$
+DECLARE
+    v_old pgcalendar.schedules%ROWTYPE;
+    v_tail pgcalendar.schedules%ROWTYPE;
+    v_before INTEGER;
+    v_found BOOLEAN;
+    v_invalid TEXT;
+    v_reminder pgcalendar.reminders%ROWTYPE;
+    v_reminder_id INTEGER;
+BEGIN
+    SELECT * INTO v_old FROM pgcalendar.schedules WHERE schedule_id = p_schedule_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Schedule % not found', p_schedule_id;
+    END IF;
+
+    SELECT string_agg(k, ', ') INTO v_invalid
+    FROM jsonb_object_keys(p_changes) k
+    WHERE NOT to_jsonb(v_old) ? k OR k IN ('schedule_id', 'event_id', 'created_at', 'updated_at');
+    IF v_invalid IS NOT NULL THEN
+        RAISE EXCEPTION 'Cannot change % when splitting schedule %', v_invalid, p_schedule_id;
+    END IF;
+
+    -- Occurrences before the split, counted like COUNT counts them
+    SELECT count(*) FILTER (WHERE o.d < p_split_date), COALESCE(bool_or(o.d = p_split_date), FALSE)
+    INTO v_before, v_found
+    FROM (
+        SELECT d FROM pgcalendar.schedule_occurrences(v_old, v_old.start_date::date, p_split_date) d
+        ORDER BY d
+        LIMIT v_old.occurrence_count
+    ) o(d);
+
+    IF NOT v_found THEN
+        RAISE EXCEPTION '% is not an occurrence of schedule %', p_split_date, p_schedule_id;
+    END IF;
+    IF v_before = 0 THEN
+        RAISE EXCEPTION 'Schedule % cannot be split at its first occurrence, update it instead', p_schedule_id;
+    END IF;
+
+    -- The tail continues the series at the same time, with what is left of a counted series
+    v_tail := v_old;
+    v_tail.start_date := p_split_date + v_old.start_date::time;
+    v_tail.occurrence_count := v_old.occurrence_count - v_before;
+    IF v_old.rrule ~ 'COUNT=' THEN
+        v_tail.rrule := regexp_replace(v_old.rrule, 'COUNT=\d+',
+            'COUNT=' || ((regexp_match(v_old.rrule, 'COUNT=(\d+)'))[1]::integer - v_before));
+    END IF;
+    -- New recurrence_* settings replace the rule they would otherwise be overridden by, keeping its COUNT
+    IF NOT p_changes ? 'rrule' AND EXISTS (SELECT 1 FROM jsonb_object_keys(p_changes) k WHERE k LIKE 'recurrence\_%') THEN
+        v_tail.occurrence_count := COALESCE(v_tail.occurrence_count, (regexp_match(v_tail.rrule, 'COUNT=(\d+)'))[1]::integer);
+        v_tail.rrule := NULL;
+    END IF;
+    v_tail := jsonb_populate_record(v_tail, p_changes);
+    v_tail.schedule_id := nextval(pg_get_serial_sequence('pgcalendar.schedules', 'schedule_id'));
+    v_tail.created_at := CURRENT_TIMESTAMP;
+    v_tail.updated_at := CURRENT_TIMESTAMP;
+
+    -- Shorten the head first, so that the tail does not overlap it
+    UPDATE pgcalendar.schedules
+    SET end_date = (p_split_date - 1) + COALESCE(v_old.end_date::time, TIME '23:59:59'),
+        occurrence_count = NULL
+    WHERE schedule_id = p_schedule_id;
+
+    INSERT INTO pgcalendar.schedules SELECT v_tail.*;
+
+    -- Responses to those occurrences go with them
+    IF p_carry_exceptions THEN
+        UPDATE pgcalendar.exceptions
+        SET schedule_id = v_tail.schedule_id
+        WHERE schedule_id = p_schedule_id AND exception_date >= p_split_date;
+        UPDATE pgcalendar.occurrence_responses
+        SET schedule_id = v_tail.schedule_id
+        WHERE schedule_id = p_schedule_id AND occurrence_date >= p_split_date;
+    ELSE
+        DELETE FROM pgcalendar.exceptions
+        WHERE schedule_id = p_schedule_id AND exception_date >= p_split_date;
+        DELETE FROM pgcalendar.occurrence_responses
+        WHERE schedule_id = p_schedule_id AND occurrence_date >= p_split_date;
+    END IF;
+
+    -- Reminders of the schedule remind of the tail's occurrences too. Deliveries of those occurrences
+    -- go with them, so that reminders already sent are not sent again
+    FOR v_reminder IN SELECT * FROM pgcalendar.reminders r WHERE r.schedule_id = p_schedule_id LOOP
+        INSERT INTO pgcalendar.reminders (schedule_id, minutes_before, metadata)
+        VALUES (v_tail.schedule_id, v_reminder.minutes_before, v_reminder.metadata)
+        RETURNING reminder_id INTO v_reminder_id;
+        UPDATE pgcalendar.reminder_deliveries
+        SET reminder_id = v_reminder_id
+        WHERE reminder_id = v_reminder.reminder_id AND schedule_id = p_schedule_id AND occurrence_date >= p_split_date;
+    END LOOP;
+    UPDATE pgcalendar.reminder_deliveries
+    SET schedule_id = v_tail.schedule_id
+    WHERE schedule_id = p_schedule_id AND occurrence_date >= p_split_date;
+
+    RETURN QUERY SELECT p_schedule_id, v_tail.schedule_id;
+END;
+$$ language 'plpgsql';
+
+-- Function to record a participant's response to one occurrence of a schedule; NULL removes it,
+-- so that their response to the whole series applies again
+CREATE OR REPLACE FUNCTION pgcalendar.respond_to_occurrence(
+    p_schedule_id INTEGER,
+    p_occurrence_date DATE,
+    p_participant_id INTEGER,
+    p_response rsvp_response
+)
+RETURNS VOID AS $$
+DECLARE
+    v_attendee_id INTEGER;
+BEGIN
+    SELECT a.attendee_id INTO v_attendee_id
+    FROM pgcalendar.attendees a
+    JOIN pgcalendar.schedules s ON s.event_id = a.event_id
+    WHERE s.schedule_id = p_schedule_id AND a.participant_id = p_participant_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Participant % does not attend the event of schedule %', p_participant_id, p_schedule_id;
+    END IF;
+
+    IF p_response IS NULL THEN
+        DELETE FROM pgcalendar.occurrence_responses
+        WHERE attendee_id = v_attendee_id AND schedule_id = p_schedule_id AND occurrence_date = p_occurrence_date;
+        RETURN;
+    END IF;
+
+    INSERT INTO pgcalendar.occurrence_responses (attendee_id, schedule_id, occurrence_date, response)
+    VALUES (v_attendee_id, p_schedule_id, p_occurrence_date, p_response)
+    ON CONFLICT (attendee_id, schedule_id, occurrence_date)
+    DO UPDATE SET response = EXCLUDED.response, responded_at = CURRENT_TIMESTAMP;
+END;
+$$ language 'plpgsql';
+
+-- Function to load a holiday set, creating it when needed and replacing its holidays
+-- p_holidays is a JSON array such as [{"date": "2024-12-25", "name": "Christmas Day"}]; holidays on
+-- the same date are merged. Returns the holiday_set_id
+CREATE OR REPLACE FUNCTION pgcalendar.load_holidays(
+    p_name TEXT,
+    p_holidays JSONB,
+    p_description TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_holiday_set_id INTEGER;
+BEGIN
+    INSERT INTO pgcalendar.holiday_sets (name, description)
+    VALUES (p_name, p_description)
+    ON CONFLICT ((COALESCE(tenant_id, '')), name) DO UPDATE SET description = COALESCE(EXCLUDED.description, holiday_sets.description)
+    RETURNING holiday_set_id INTO v_holiday_set_id;
+
+    DELETE FROM pgcalendar.holidays WHERE holiday_set_id = v_holiday_set_id;
+
+    INSERT INTO pgcalendar.holidays (holiday_set_id, holiday_date, name)
+    SELECT v_holiday_set_id, (h.value->>'date')::date, string_agg(h.value->>'name', ', ' ORDER BY h.ordinality)
+    FROM jsonb_array_elements(COALESCE(p_holidays, '[]')) WITH ORDINALITY AS h
+    GROUP BY (h.value->>'date')::date;
+
+    RETURN v_holiday_set_id;
+END;
+$$ language 'plpgsql';
+
+-- Function to find overlapping occurrences of different events that share a resource or an attendee
+-- Occurrences are those get_event_projections returns for the range; participants who declined one
+-- do not count as attending it. With p_event_ids, only the pairs involving one of those events
+-- Each pair is listed once per shared resource or participant, the lower event_id first
+CREATE OR REPLACE FUNCTION pgcalendar.find_conflicts(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_event_ids INTEGER[] DEFAULT NULL
+)
+RETURNS TABLE(
+    conflict_type TEXT, -- 'resource' or 'participant'
+    shared_id INTEGER, -- resource_id or participant_id
+    event_id INTEGER,
+    schedule_id INTEGER,
+    occurrence_date DATE,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    other_event_id INTEGER,
+    other_schedule_id INTEGER,
+    other_occurrence_date DATE,
+    other_start_time TIMESTAMPTZ,
+    other_end_time TIMESTAMPTZ
+) AS $$
+    WITH shares AS (
+        SELECT 'resource' AS kind, er.resource_id AS shared_id, er.event_id
+        FROM pgcalendar.event_resources er
+        UNION ALL
+        SELECT 'participant', a.participant_id, a.event_id
+        FROM pgcalendar.attendees a
+    ),
+    pairs AS (
+        SELECT a.kind, a.shared_id, a.event_id, b.event_id AS other_event_id
+        FROM shares a
+        JOIN shares b ON b.kind = a.kind AND b.shared_id = a.shared_id AND b.event_id > a.event_id
+        WHERE p_event_ids IS NULL OR a.event_id = ANY(p_event_ids) OR b.event_id = ANY(p_event_ids)
+    ),
+    occurrences AS (
+        SELECT r.*
+        FROM (SELECT DISTINCT unnest(ARRAY[pairs.event_id, pairs.other_event_id]) AS event_id FROM pairs) e
+        CROSS JOIN LATERAL pgcalendar.projection_rows(p_start_date, p_end_date, 0, e.event_id) r
+        WHERE r.projection_date >= p_start_date
+           OR r.end_time > pgcalendar.zoned_timestamp(p_start_date::timestamp, r.time_zone)
+    )
+    SELECT p.kind, p.shared_id,
+           a.event_id, a.schedule_id, a.occurrence_date, a.start_time, a.end_time,
+           b.event_id, b.schedule_id, b.occurrence_date, b.start_time, b.end_time
+    FROM pairs p
+    JOIN occurrences a ON a.event_id = p.event_id
+    JOIN occurrences b ON b.event_id = p.other_event_id
+    WHERE a.start_time < b.end_time AND b.start_time < a.end_time
+    AND (p.kind = 'resource' OR (
+        pgcalendar.occurrence_response(p.shared_id, a.event_id, a.schedule_id, a.occurrence_date)
+            IS DISTINCT FROM 'declined'
+        AND pgcalendar.occurrence_response(p.shared_id, b.event_id, b.schedule_id, b.occurrence_date)
+            IS DISTINCT FROM 'declined'))
+    ORDER BY a.start_time, a.event_id, b.start_time, b.event_id, p.kind, p.shared_id;
+$$ language 'sql' STABLE;
+
+-- Function to list when participants and resources are busy, as merged intervals per participant or
+-- resource; occurrences a participant declined leave them free
+-- The date range is that of p_time_zone, as in get_events_detailed
+CREATE OR REPLACE FUNCTION pgcalendar.get_free_busy(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_participant_ids INTEGER[] DEFAULT NULL,
+    p_resource_ids INTEGER[] DEFAULT NULL,
+    p_time_zone TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    busy_type TEXT, -- 'participant' or 'resource'
+    busy_id INTEGER, -- participant_id or resource_id
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ
+) AS $$
+    WITH busy AS (
+        SELECT 'participant' AS busy_type, p.id AS busy_id, d.start_time, d.end_time
+        FROM unnest(p_participant_ids) AS p(id)
+        CROSS JOIN LATERAL pgcalendar.get_events_detailed(p_start_date, p_end_date, p_time_zone, p.id) d
+        WHERE d.response IS DISTINCT FROM 'declined'
+        UNION ALL
+        SELECT 'resource', r.id, d.start_time, d.end_time
+        FROM unnest(p_resource_ids) AS r(id)
+        CROSS JOIN LATERAL pgcalendar.get_events_detailed(p_start_date, p_end_date, p_time_zone, NULL, r.id) d
+    ),
+    -- An interval starts a new island unless an earlier one is still running
+    islands AS (
+        SELECT b.*,
+               sum(CASE WHEN b.start_time <= b.running_until THEN 0 ELSE 1 END)
+                   OVER (PARTITION BY b.busy_type, b.busy_id ORDER BY b.start_time, b.end_time) AS island
+        FROM (
+            SELECT busy.*,
+                   max(busy.end_time) OVER (
+                       PARTITION BY busy.busy_type, busy.busy_id ORDER BY busy.start_time, busy.end_time
+                       ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING) AS running_until
+            FROM busy
+        ) b
+    )
+    SELECT i.busy_type, i.busy_id, min(i.start_time), max(i.end_time)
+    FROM islands i
+    GROUP BY i.busy_type, i.busy_id, i.island
+    ORDER BY i.busy_type, i.busy_id, min(i.start_time);
+$$ language 'sql' STABLE;
+
+-- Function to find start times at which all the given participants and resources are free for
+-- p_duration, p_buffer away from anything they are busy with
+-- Candidates are p_step apart within the working hours of each day, in p_time_zone
+CREATE OR REPLACE FUNCTION pgcalendar.find_free_slots(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_duration INTERVAL,
+    p_participant_ids INTEGER[] DEFAULT NULL,
+    p_resource_ids INTEGER[] DEFAULT NULL,
+    p_day_start TIME DEFAULT '09:00:00',
+    p_day_end TIME DEFAULT '17:00:00',
+    p_buffer INTERVAL DEFAULT '0 minutes',
+    p_step INTERVAL DEFAULT '15 minutes',
+    p_time_zone TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_busy_from TIMESTAMPTZ[];
+    v_busy_until TIMESTAMPTZ[];
+BEGIN
+    IF p_duration <= INTERVAL '0' OR p_step <= INTERVAL '0' THEN
+        RAISE EXCEPTION 'Slot duration and step must be positive';
+    END IF;
+
+    IF p_buffer < INTERVAL '0' THEN
+        RAISE EXCEPTION 'Buffer must not be negative';
+    END IF;
+
+    -- A day either side for occurrences still running, or buffered, into the range
+    SELECT array_agg(b.start_time - p_buffer), array_agg(b.end_time + p_buffer)
+    INTO v_busy_from, v_busy_until
+    FROM pgcalendar.get_free_busy(p_start_date - 1, p_end_date + 1, p_participant_ids, p_resource_ids, p_time_zone) b;
+
+    RETURN QUERY
+    SELECT c.slot_start, c.slot_start + p_duration
+    FROM (
+        SELECT pgcalendar.zoned_timestamp(t, p_time_zone) AS slot_start
+        FROM generate_series(p_start_date, p_end_date, INTERVAL '1 day') d
+        CROSS JOIN LATERAL generate_series(d::date + p_day_start, d::date + p_day_end - p_duration, p_step) t
+    ) c
+    WHERE NOT EXISTS (
+        SELECT 1 FROM unnest(v_busy_from, v_busy_until) AS b(busy_from, busy_until)
+        WHERE b.busy_from < c.slot_start + p_duration AND c.slot_start < b.busy_until
+    )
+    ORDER BY c.slot_start;
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Function to list the reminders due at p_now that have not been sent: those of occurrences starting
+-- after p_now and at most minutes_before later, at their current (possibly moved) times
+CREATE OR REPLACE FUNCTION pgcalendar.get_due_reminders(
+    p_now TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+)
+RETURNS TABLE(
+    reminder_id INTEGER,
+    event_id INTEGER,
+    schedule_id INTEGER,
+    occurrence_date DATE,
+    projection_date DATE,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    remind_at TIMESTAMPTZ,
+    event_name VARCHAR(255),
+    location VARCHAR(255),
+    metadata JSONB -- the reminder's
+) AS $$
+    WITH targets AS (
+        SELECT DISTINCT COALESCE(r.event_id, s.event_id) AS event_id
+        FROM pgcalendar.reminders r
+        LEFT JOIN pgcalendar.schedules s ON s.schedule_id = r.schedule_id
+    ),
+    longest AS (
+        SELECT max(r.minutes_before) AS minutes_before FROM pgcalendar.reminders r
+    )
+    SELECT r.reminder_id, p.event_id, p.schedule_id, p.occurrence_date, p.projection_date,
+           p.start_time, p.end_time, p.start_time - make_interval(mins => r.minutes_before),
+           p.event_name, p.location, r.metadata
+    FROM targets t
+    CROSS JOIN longest l
+    -- Two days either side for the session's time zone
+    CROSS JOIN LATERAL pgcalendar.projection_rows(
+        p_now::date, (p_now + make_interval(mins => l.minutes_before))::date, 2, t.event_id) p
+    JOIN pgcalendar.reminders r ON r.schedule_id = p.schedule_id OR r.event_id = p.event_id
+    WHERE p.start_time > p_now
+    AND p.start_time - make_interval(mins => r.minutes_before) <= p_now
+    AND NOT EXISTS (
+        SELECT 1 FROM pgcalendar.reminder_deliveries d
+        WHERE d.reminder_id = r.reminder_id
+        AND d.schedule_id = p.schedule_id
+        AND d.occurrence_date = p.occurrence_date
+        AND date_trunc('milliseconds', d.start_time) = date_trunc('milliseconds', p.start_time)
+        AND d.sent_at IS NOT NULL
+    )
+    ORDER BY 8, 1;
+$$ language 'sql' STABLE;
+
+-- Function to queue the reminders due at p_now for workers; returns how many were queued
+-- Run it in its own transaction, as inserts of the same reminders by other workers wait for it
+CREATE OR REPLACE FUNCTION pgcalendar.queue_due_reminders(
+    p_now TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_queued INTEGER;
+BEGIN
+    INSERT INTO pgcalendar.reminder_deliveries (reminder_id, schedule_id, occurrence_date, start_time, remind_at)
+    SELECT d.reminder_id, d.schedule_id, d.occurrence_date, d.start_time, d.remind_at
+    FROM pgcalendar.get_due_reminders(p_now) d
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_queued = ROW_COUNT;
+    RETURN v_queued;
+END;
+$$ language 'plpgsql';
+
+-- Function to claim up to p_limit queued reminders that are still due, locking them until the
+-- transaction ends; reminders claimed by other workers are skipped
+CREATE OR REPLACE FUNCTION pgcalendar.claim_due_reminders(
+    p_now TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE(
+    reminder_id INTEGER,
+    event_id INTEGER,
+    schedule_id INTEGER,
+    occurrence_date DATE,
+    projection_date DATE,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    remind_at TIMESTAMPTZ,
+    event_name VARCHAR(255),
+    location VARCHAR(255),
+    metadata JSONB
+) AS $$
+    SELECT due.*
+    FROM pgcalendar.reminder_deliveries d
+    JOIN pgcalendar.get_due_reminders(p_now) due
+        ON due.reminder_id = d.reminder_id
+        AND due.schedule_id = d.schedule_id
+        AND due.occurrence_date = d.occurrence_date
+        AND due.start_time = d.start_time
+    WHERE d.sent_at IS NULL
+    ORDER BY due.remind_at, due.reminder_id
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED;
+$$ language 'sql';
+
+-- Function to record the outcome of sending a claimed reminder: sent without p_error, and
+-- otherwise left queued for another attempt while it is still due
+-- Start times are compared to the millisecond, the precision clients like JavaScript's Date give back
+CREATE OR REPLACE FUNCTION pgcalendar.record_reminder_delivery(
+    p_reminder_id INTEGER,
+    p_schedule_id INTEGER,
+    p_occurrence_date DATE,
+    p_start_time TIMESTAMPTZ,
+    p_error TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+    UPDATE pgcalendar.reminder_deliveries
+    SET sent_at = CASE WHEN p_error IS NULL THEN CURRENT_TIMESTAMP END,
+        attempts = attempts + 1,
+        last_error = p_error
+    WHERE reminder_id = p_reminder_id
+    AND schedule_id = p_schedule_id
+    AND occurrence_date = p_occurrence_date
+    AND date_trunc('milliseconds', start_time) = date_trunc('milliseconds', p_start_time);
+$$ language 'sql';
+
+-- Create resource booking validation trigger function
+-- Rejects schedules and exceptions whose occurrences overlap another event's on an exclusive resource
+-- Unbounded series are checked for a year from their start or today, whichever is later
+-- Runs after refresh_*_projections_trigger (triggers fire by name) so that a cache covering the
+-- range already holds the new occurrences
+CREATE OR REPLACE FUNCTION pgcalendar.validate_resource_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_schedule RECORD;
+    v_occurrence_date DATE; -- only this occurrence is checked for an exception
+    v_start DATE;
+    v_end DATE;
+    v_conflict RECORD;
+BEGIN
+    IF TG_TABLE_NAME = 'schedules' THEN
+        v_schedule := NEW;
+    ELSE
+        IF NEW.exception_type = 'cancelled' THEN
+            RETURN NULL;
+        END IF;
+        SELECT * INTO v_schedule FROM pgcalendar.schedules WHERE schedule_id = NEW.schedule_id;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pgcalendar.event_resources er
+        JOIN pgcalendar.resources r ON r.resource_id = er.resource_id
+        WHERE er.event_id = v_schedule.event_id AND r.exclusive
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_TABLE_NAME = 'schedules' THEN
+        v_start := NEW.start_date::date;
+        v_end := COALESCE(pgcalendar.schedule_series_end(NEW)::date, GREATEST(v_start, CURRENT_DATE) + 365);
+    ELSE
+        v_occurrence_date := NEW.exception_date;
+        v_start := LEAST(NEW.exception_date, NEW.modified_date, NEW.modified_start_time::date);
+        v_end := GREATEST(NEW.exception_date, NEW.modified_date, NEW.modified_end_time::date);
+    END IF;
+
+    SELECT c.*, r.name AS resource_name INTO v_conflict
+    FROM pgcalendar.find_conflicts(v_start, v_end, ARRAY[v_schedule.event_id]) c
+    JOIN pgcalendar.resources r ON r.resource_id = c.shared_id
+    WHERE c.conflict_type = 'resource' AND r.exclusive
+    AND ((c.schedule_id = v_schedule.schedule_id
+          AND (v_occurrence_date IS NULL OR c.occurrence_date = v_occurrence_date))
+      OR (c.other_schedule_id = v_schedule.schedule_id
+          AND (v_occurrence_date IS NULL OR c.other_occurrence_date = v_occurrence_date)))
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Resource % is double-booked: events % and % overlap at %',
+            v_conflict.resource_name, v_conflict.event_id, v_conflict.other_event_id,
+            GREATEST(v_conflict.start_time, v_conflict.other_start_time);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS validate_schedule_booking_trigger ON schedules;
+CREATE TRIGGER validate_schedule_booking_trigger
+    AFTER INSERT OR UPDATE ON schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_resource_booking();
+
+DROP TRIGGER IF EXISTS validate_exception_booking_trigger ON exceptions;
+CREATE TRIGGER validate_exception_booking_trigger
+    AFTER INSERT OR UPDATE ON exceptions
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_resource_booking();
+
+-- Row-level security: sessions see and change the rows of their tenant (current_tenant) only,
+-- rows without a tenant when it is not set. Table owners and superusers bypass the policies
+-- Written as an OR rather than IS NOT DISTINCT FROM so that the tenant_id indexes apply
+CREATE OR REPLACE FUNCTION pgcalendar.is_current_tenant(p_tenant_id TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT p_tenant_id = pgcalendar.current_tenant()
+        OR (p_tenant_id IS NULL AND pgcalendar.current_tenant() IS NULL);
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION pgcalendar.is_tenant_event(p_event_id INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM pgcalendar.events e
+        WHERE e.event_id = p_event_id AND pgcalendar.is_current_tenant(e.tenant_id)
+    );
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION pgcalendar.is_tenant_schedule(p_schedule_id INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM pgcalendar.schedules s
+        JOIN pgcalendar.events e ON e.event_id = s.event_id
+        WHERE s.schedule_id = p_schedule_id AND pgcalendar.is_current_tenant(e.tenant_id)
+    );
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION pgcalendar.is_tenant_holiday_set(p_holiday_set_id INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM pgcalendar.holiday_sets h
+        WHERE h.holiday_set_id = p_holiday_set_id AND pgcalendar.is_current_tenant(h.tenant_id)
+    );
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION pgcalendar.is_tenant_participant(p_participant_id INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM pgcalendar.participants p
+        WHERE p.participant_id = p_participant_id AND pgcalendar.is_current_tenant(p.tenant_id)
+    );
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION pgcalendar.is_tenant_resource(p_resource_id INTEGER)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM pgcalendar.resources r
+        WHERE r.resource_id = p_resource_id AND pgcalendar.is_current_tenant(r.tenant_id)
+    );
+$$ language 'sql' STABLE;
+
+-- Holiday sets, participants and resources belong to a tenant too. Foreign keys are checked
+-- without row-level security, so the WITH CHECK clauses keep rows from referencing another
+-- tenant's: holiday changes and resource bookings then never reach across tenants
+ALTER TABLE holiday_sets ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON holiday_sets;
+CREATE POLICY tenant_isolation ON holiday_sets
+    USING (pgcalendar.is_current_tenant(tenant_id));
+
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON holidays;
+CREATE POLICY tenant_isolation ON holidays
+    USING (pgcalendar.is_tenant_holiday_set(holiday_set_id));
+
+ALTER TABLE participants ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON participants;
+CREATE POLICY tenant_isolation ON participants
+    USING (pgcalendar.is_current_tenant(tenant_id));
+
+ALTER TABLE resources ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON resources;
+CREATE POLICY tenant_isolation ON resources
+    USING (pgcalendar.is_current_tenant(tenant_id));
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON events;
+CREATE POLICY tenant_isolation ON events
+    USING (pgcalendar.is_current_tenant(tenant_id));
+
+ALTER TABLE schedules ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON schedules;
+CREATE POLICY tenant_isolation ON schedules
+    USING (pgcalendar.is_tenant_event(event_id))
+    WITH CHECK (pgcalendar.is_tenant_event(event_id)
+                AND (holiday_set_id IS NULL OR pgcalendar.is_tenant_holiday_set(holiday_set_id)));
+
+ALTER TABLE exceptions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON exceptions;
+CREATE POLICY tenant_isolation ON exceptions
+    USING (pgcalendar.is_tenant_schedule(schedule_id));
+
+ALTER TABLE attendees ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON attendees;
+CREATE POLICY tenant_isolation ON attendees
+    USING (pgcalendar.is_tenant_event(event_id))
+    WITH CHECK (pgcalendar.is_tenant_event(event_id) AND pgcalendar.is_tenant_participant(participant_id));
+
+ALTER TABLE occurrence_responses ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON occurrence_responses;
+CREATE POLICY tenant_isolation ON occurrence_responses
+    USING (pgcalendar.is_tenant_schedule(schedule_id));
+
+ALTER TABLE event_resources ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON event_resources;
+CREATE POLICY tenant_isolation ON event_resources
+    USING (pgcalendar.is_tenant_event(event_id))
+    WITH CHECK (pgcalendar.is_tenant_event(event_id) AND pgcalendar.is_tenant_resource(resource_id));
+
+ALTER TABLE reminders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON reminders;
+CREATE POLICY tenant_isolation ON reminders
+    USING (pgcalendar.is_tenant_event(event_id) OR pgcalendar.is_tenant_schedule(schedule_id));
+
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON reminder_deliveries;
+CREATE POLICY tenant_isolation ON reminder_deliveries
+    USING (pgcalendar.is_tenant_schedule(schedule_id));
+
+-- The projections cache and the audit log copy the tenant from the event
+ALTER TABLE projections ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON projections;
+CREATE POLICY tenant_isolation ON projections
+    USING (pgcalendar.is_current_tenant(tenant_id));
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON audit_log;
+CREATE POLICY tenant_isolation ON audit_log
+    USING (pgcalendar.is_current_tenant(tenant_id));
+
+-- Projections cached by an earlier version are generated again, with the current rules and columns.
+-- An upgrade run in one transaction cannot use the enum values it added, and empties the cache instead
+DO $$ BEGIN
+    PERFORM pgcalendar.refresh_schedule_projections(schedule_id) FROM pgcalendar.schedules;
+EXCEPTION
+    WHEN unsafe_new_enum_value_usage THEN
+        DELETE FROM pgcalendar.projections;
+        UPDATE pgcalendar.projection_cache_settings SET window_start = NULL, window_end = NULL, refreshed_at = NULL;
+        RAISE NOTICE 'pgcalendar: the projection cache was emptied, extend_projection_window fills it again';
+END $$;
+
+ALTER TABLE projections
+    ALTER COLUMN local_start_time SET NOT NULL,
+    ALTER COLUMN local_end_time SET NOT NULL;
+
 -- Create view for current year calendar
 CREATE OR REPLACE VIEW pgcalendar.event_calendar AS
 SELECT 
-    p.projection_date,
-    p.start_time,
-    p.end_time,
-    e.name as event_name,
-    e.description as event_description,
-    e.category as event_category,
-    s.description as schedule_description,
-    p.status
-FROM pgcalendar.events e
-JOIN pgcalendar.schedules s ON e.event_id = s.event_id
-CROSS JOIN LATERAL pgcalendar.generate_projections(
-    s.schedule_id, 
+    r.projection_date,
+    r.start_time,
+    r.end_time,
+    r.event_name,
+    r.event_description,
+    r.event_category,
+    r.schedule_description,
+    r.status,
+    r.time_zone,
+    r.location,
+    r.metadata,
+    r.overridden_fields
+FROM pgcalendar.projection_rows(
     (CURRENT_DATE - INTERVAL '6 months')::date, 
     (CURRENT_DATE + INTERVAL '6 months')::date
-) p
-WHERE p.projection_date >= CURRENT_DATE - INTERVAL '6 months'
-  AND p.projection_date <= CURRENT_DATE + INTERVAL '6 months'
-ORDER BY p.projection_date, p.start_time;
+) r
+WHERE r.projection_date >= CURRENT_DATE - INTERVAL '6 months'
+  AND r.projection_date <= CURRENT_DATE + INTERVAL '6 months'
+ORDER BY r.projection_date, r.start_time;
 
 -- Grant permissions
 GRANT USAGE ON SCHEMA pgcalendar TO PUBLIC;
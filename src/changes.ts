@@ -0,0 +1,191 @@
+// Subscriber for the pgcalendar_changes LISTEN/NOTIFY channel
+
+import { EventEmitter } from 'events';
+import { Notification, Pool, PoolClient } from 'pg';
+import { toCalendarChange } from './rows';
+import { CalendarChange } from './types';
+
+/** Channel the change triggers notify on. */
+export const CHANGE_CHANNEL = 'pgcalendar_changes';
+
+export interface ChangeSubscriberOptions {
+  /** Delay before the first reconnection attempt, doubled after each failed one. Default 1000. */
+  reconnectDelayMs?: number;
+  /** Upper bound of the reconnection delay. Default 30000. */
+  maxReconnectDelayMs?: number;
+  /**
+   * Only emit the changes of this tenant; null for those of events without one.
+   * Defaults to the connection's `pgcalendar.tenant` setting when the connection
+   * is under row-level security, and to every tenant otherwise.
+   */
+  tenantId?: string | null;
+}
+
+export interface ChangeSubscriber {
+  /** A row of `events`, `schedules` or `exceptions` changed. */
+  on(event: 'change', listener: (change: CalendarChange) => void): this;
+  /**
+   * Listening (again). Changes made while reconnecting are not delivered,
+   * so after a reconnection caches should drop everything.
+   */
+  on(event: 'connected', listener: (reconnected: boolean) => void): this;
+  /** The connection was lost, or an attempt to reconnect failed; another one follows. */
+  on(event: 'disconnected', listener: (error: Error) => void): this;
+  /** A notification could not be parsed. Only emitted when listened to. */
+  on(event: 'error', listener: (error: Error) => void): this;
+  once(event: 'change', listener: (change: CalendarChange) => void): this;
+  once(event: 'connected', listener: (reconnected: boolean) => void): this;
+  once(event: 'disconnected', listener: (error: Error) => void): this;
+  once(event: 'error', listener: (error: Error) => void): this;
+  off(event: 'change', listener: (change: CalendarChange) => void): this;
+  off(event: 'connected', listener: (reconnected: boolean) => void): this;
+  off(event: 'disconnected', listener: (error: Error) => void): this;
+  off(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * Emits a typed `change` for every notification on `pgcalendar_changes`
+ * about the subscribed tenant, holding one connection of the pool while
+ * started. Dropped connections are replaced after an exponential backoff
+ * until `stop` is called.
+ */
+export class ChangeSubscriber extends EventEmitter {
+  private connection: PoolClient | null = null;
+  private started = false;
+  private attempts = 0;
+  private timer: NodeJS.Timeout | null = null;
+  /** Tenant whose changes are emitted; undefined for all of them. */
+  private tenantId: string | null | undefined;
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly options: ChangeSubscriberOptions = {},
+  ) {
+    super();
+  }
+
+  /** Starts listening; rejects, leaving the subscriber stopped, if the first connection fails. */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    try {
+      await this.connect();
+    } catch (error) {
+      this.started = false;
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const connection = this.connection;
+    if (!connection) {
+      return;
+    }
+    this.connection = null;
+    try {
+      await connection.query(`UNLISTEN ${CHANGE_CHANNEL}`);
+      connection.release();
+    } catch (error) {
+      connection.release(error as Error);
+    } finally {
+      this.detach(connection);
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const connection = await this.pool.connect();
+    connection.on('notification', this.onNotification);
+    connection.on('error', this.onConnectionLost);
+    connection.on('end', this.onConnectionLost);
+    try {
+      if (this.options.tenantId !== undefined) {
+        this.tenantId = this.options.tenantId;
+      } else {
+        const result = await connection.query<{ tenant_id: string | null; isolated: boolean }>(
+          `SELECT pgcalendar.current_tenant() AS tenant_id,
+                  row_security_active('pgcalendar.events') AS isolated`,
+        );
+        this.tenantId = result.rows[0].isolated ? result.rows[0].tenant_id : undefined;
+      }
+      await connection.query(`LISTEN ${CHANGE_CHANNEL}`);
+    } catch (error) {
+      this.detach(connection);
+      connection.release(error as Error);
+      throw error;
+    }
+
+    // Stopped while connecting
+    if (!this.started) {
+      this.detach(connection);
+      connection.release();
+      return;
+    }
+    this.connection = connection;
+    const reconnected = this.attempts > 0;
+    this.attempts = 0;
+    this.emit('connected', reconnected);
+  }
+
+  private detach(connection: PoolClient): void {
+    connection.off('notification', this.onNotification);
+    connection.off('error', this.onConnectionLost);
+    connection.off('end', this.onConnectionLost);
+  }
+
+  private reconnect(): void {
+    if (!this.started) {
+      return;
+    }
+    const delay = Math.min(
+      (this.options.reconnectDelayMs ?? 1000) * 2 ** this.attempts,
+      this.options.maxReconnectDelayMs ?? 30000,
+    );
+    this.attempts += 1;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.connect().catch((error: Error) => {
+        this.emit('disconnected', error);
+        this.reconnect();
+      });
+    }, delay);
+  }
+
+  private readonly onConnectionLost = (error?: Error): void => {
+    const connection = this.connection;
+    if (!connection) {
+      return;
+    }
+    this.connection = null;
+    this.detach(connection);
+    const lost = error ?? new Error('Connection ended');
+    connection.release(lost);
+    this.emit('disconnected', lost);
+    this.reconnect();
+  };
+
+  private readonly onNotification = (message: Notification): void => {
+    if (message.channel !== CHANGE_CHANNEL || !message.payload) {
+      return;
+    }
+    let change: CalendarChange;
+    try {
+      change = toCalendarChange(JSON.parse(message.payload));
+    } catch (error) {
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      }
+      return;
+    }
+    if (this.tenantId !== undefined && change.tenantId !== this.tenantId) {
+      return;
+    }
+    this.emit('change', change);
+  };
+}
@@ -0,0 +1,912 @@
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { calendarTypes, toDateOnly } from './dates';
+import {
+  eventsToICalendar,
+  ICalendarEventSource,
+  ICalendarImportOptions,
+  ICalendarImportReport,
+  ICalendarOptions,
+  importICalendar,
+  projectionsToICalendar,
+} from './ical';
+import { parseHolidays } from './holidays';
+import {
+  AttendeeRow,
+  AuditEntryRow,
+  BusyIntervalRow,
+  ConflictRow,
+  DetailedProjectionRow,
+  DueReminderRow,
+  EVENT_COLUMNS,
+  EventRow,
+  EXCEPTION_COLUMNS,
+  ExceptionRow,
+  HolidayRow,
+  HolidaySetRow,
+  PARTICIPANT_COLUMNS,
+  ParticipantRow,
+  QueriedProjectionRow,
+  REMINDER_COLUMNS,
+  ReminderRow,
+  RESOURCE_COLUMNS,
+  ResourceRow,
+  SCHEDULE_COLUMNS,
+  ScheduleRow,
+  toAttendee,
+  toAuditEntry,
+  toBusyInterval,
+  toConflict,
+  toDetailedProjection,
+  toDueReminder,
+  toEvent,
+  toException,
+  toHoliday,
+  toHolidaySet,
+  toParticipant,
+  toQueriedProjection,
+  toReminder,
+  toResource,
+  toSchedule,
+} from './rows';
+import {
+  Attendee,
+  AuditEntry,
+  BusyInterval,
+  Conflict,
+  DateOnly,
+  DetailedProjection,
+  DueReminder,
+  Event,
+  EventPatch,
+  Exception,
+  ExceptionPatch,
+  FreeBusyQuery,
+  FreeSlot,
+  FreeSlotQuery,
+  Holiday,
+  HolidaySet,
+  NewEvent,
+  NewException,
+  NewParticipant,
+  NewReminder,
+  NewResource,
+  NewSchedule,
+  Participant,
+  ParticipantPatch,
+  ProjectionCursor,
+  ProjectionQuery,
+  QueriedProjection,
+  Reminder,
+  Resource,
+  ResourcePatch,
+  RsvpResponse,
+  Schedule,
+  SchedulePatch,
+  ScheduleSplit,
+  Timestamp,
+  TransitionScheduleInput,
+} from './types';
+
+// Input fields holding a DATE rather than a TIMESTAMP
+const DATE_FIELDS = new Set(['exceptionDate', 'modifiedDate']);
+
+const DEFAULT_PAGE_SIZE = 100;
+
+type Queryable = Pool | PoolClient;
+
+// Collect the columns and values present in a (partial) input object
+function columnValues(
+  input: object,
+  columns: Record<string, string>,
+): { names: string[]; values: unknown[] } {
+  const names: string[] = [];
+  const values: unknown[] = [];
+  for (const [field, column] of Object.entries(columns)) {
+    const value = (input as Record<string, unknown>)[field];
+    if (value === undefined) {
+      continue;
+    }
+    names.push(column);
+    values.push(
+      DATE_FIELDS.has(field) && value !== null ? toDateOnly(value as Date | DateOnly) : value,
+    );
+  }
+  return { names, values };
+}
+
+// Wall-clock text of a TIMESTAMP input, for values sent inside JSON
+function timestampText(value: Date): string {
+  const pad = (part: number, length = 2) => String(part).padStart(length, '0');
+  return `${toDateOnly(value)} ${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`
+    + `.${pad(value.getMilliseconds(), 3)}`;
+}
+
+function insertSql(table: string, names: string[]): string {
+  const placeholders = names.map((_, i) => `$${i + 1}`);
+  return `INSERT INTO pgcalendar.${table} (${names.join(', ')})
+          VALUES (${placeholders.join(', ')})
+          RETURNING *`;
+}
+
+function updateSql(table: string, key: string, names: string[]): string {
+  const assignments = names.map((name, i) => `${name} = $${i + 2}`);
+  return `UPDATE pgcalendar.${table} SET ${assignments.join(', ')}
+          WHERE ${key} = $1
+          RETURNING *`;
+}
+
+/**
+ * Typed access to the pgcalendar schema on top of a `pg` Pool.
+ *
+ * The client does not own the pool; callers remain responsible for
+ * ending it.
+ */
+export class PgCalendarClient {
+  constructor(protected readonly pool: Pool) {}
+
+  protected async query<R extends QueryResultRow = Record<string, unknown>>(
+    text: string,
+    values: unknown[] = [],
+    db: Queryable = this.pool,
+  ): Promise<R[]> {
+    const result = await db.query<R>({ text, values, types: calendarTypes });
+    return result.rows;
+  }
+
+  /** Runs `work` inside a transaction on a dedicated pool connection. */
+  protected async transaction<T>(work: (db: PoolClient) => Promise<T>): Promise<T> {
+    const db = await this.pool.connect();
+    try {
+      await db.query('BEGIN');
+      const result = await work(db);
+      await db.query('COMMIT');
+      return result;
+    } catch (error) {
+      await db.query('ROLLBACK');
+      throw error;
+    } finally {
+      db.release();
+    }
+  }
+
+  // Events
+
+  async createEvent(input: NewEvent): Promise<Event> {
+    const { names, values } = columnValues(input, EVENT_COLUMNS);
+    const rows = await this.query<EventRow>(insertSql('events', names), values);
+    return toEvent(rows[0]);
+  }
+
+  async getEvent(eventId: number): Promise<Event | null> {
+    const rows = await this.query<EventRow>(
+      'SELECT * FROM pgcalendar.events WHERE event_id = $1',
+      [eventId],
+    );
+    return rows.length > 0 ? toEvent(rows[0]) : null;
+  }
+
+  async listEvents(): Promise<Event[]> {
+    const rows = await this.query<EventRow>('SELECT * FROM pgcalendar.events ORDER BY event_id');
+    return rows.map(toEvent);
+  }
+
+  async updateEvent(eventId: number, patch: EventPatch): Promise<Event | null> {
+    const { names, values } = columnValues(patch, EVENT_COLUMNS);
+    if (names.length === 0) {
+      return this.getEvent(eventId);
+    }
+    const rows = await this.query<EventRow>(updateSql('events', 'event_id', names), [eventId, ...values]);
+    return rows.length > 0 ? toEvent(rows[0]) : null;
+  }
+
+  async deleteEvent(eventId: number): Promise<boolean> {
+    const rows = await this.query(
+      'DELETE FROM pgcalendar.events WHERE event_id = $1 RETURNING event_id',
+      [eventId],
+    );
+    return rows.length > 0;
+  }
+
+  // Schedules
+
+  async createSchedule(input: NewSchedule): Promise<Schedule> {
+    const { names, values } = columnValues(input, SCHEDULE_COLUMNS);
+    const rows = await this.query<ScheduleRow>(insertSql('schedules', names), values);
+    return toSchedule(rows[0]);
+  }
+
+  async getSchedule(scheduleId: number): Promise<Schedule | null> {
+    const rows = await this.query<ScheduleRow>(
+      'SELECT * FROM pgcalendar.schedules WHERE schedule_id = $1',
+      [scheduleId],
+    );
+    return rows.length > 0 ? toSchedule(rows[0]) : null;
+  }
+
+  async listSchedules(eventId: number): Promise<Schedule[]> {
+    const rows = await this.query<ScheduleRow>(
+      'SELECT * FROM pgcalendar.schedules WHERE event_id = $1 ORDER BY start_date',
+      [eventId],
+    );
+    return rows.map(toSchedule);
+  }
+
+  async updateSchedule(scheduleId: number, patch: SchedulePatch): Promise<Schedule | null> {
+    const { names, values } = columnValues(patch, SCHEDULE_COLUMNS);
+    if (names.length === 0) {
+      return this.getSchedule(scheduleId);
+    }
+    const rows = await this.query<ScheduleRow>(
+      updateSql('schedules', 'schedule_id', names),
+      [scheduleId, ...values],
+    );
+    return rows.length > 0 ? toSchedule(rows[0]) : null;
+  }
+
+  async deleteSchedule(scheduleId: number): Promise<boolean> {
+    const rows = await this.query(
+      'DELETE FROM pgcalendar.schedules WHERE schedule_id = $1 RETURNING schedule_id',
+      [scheduleId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Stores the RRULE equivalent of a schedule's recurrence_* columns on
+   * the schedule and returns it.
+   */
+  async convertScheduleToRRule(scheduleId: number): Promise<string> {
+    const rows = await this.query<{ rrule: string }>(
+      'SELECT pgcalendar.convert_schedule_to_rrule($1) AS rrule',
+      [scheduleId],
+    );
+    return rows[0].rrule;
+  }
+
+  // Exceptions
+
+  async createException(input: NewException): Promise<Exception> {
+    const { names, values } = columnValues(input, EXCEPTION_COLUMNS);
+    const rows = await this.query<ExceptionRow>(insertSql('exceptions', names), values);
+    return toException(rows[0]);
+  }
+
+  async getException(exceptionId: number): Promise<Exception | null> {
+    const rows = await this.query<ExceptionRow>(
+      'SELECT * FROM pgcalendar.exceptions WHERE exception_id = $1',
+      [exceptionId],
+    );
+    return rows.length > 0 ? toException(rows[0]) : null;
+  }
+
+  async listExceptions(scheduleId: number): Promise<Exception[]> {
+    const rows = await this.query<ExceptionRow>(
+      'SELECT * FROM pgcalendar.exceptions WHERE schedule_id = $1 ORDER BY exception_date',
+      [scheduleId],
+    );
+    return rows.map(toException);
+  }
+
+  async updateException(exceptionId: number, patch: ExceptionPatch): Promise<Exception | null> {
+    const { names, values } = columnValues(patch, EXCEPTION_COLUMNS);
+    if (names.length === 0) {
+      return this.getException(exceptionId);
+    }
+    const rows = await this.query<ExceptionRow>(
+      updateSql('exceptions', 'exception_id', names),
+      [exceptionId, ...values],
+    );
+    return rows.length > 0 ? toException(rows[0]) : null;
+  }
+
+  async deleteException(exceptionId: number): Promise<boolean> {
+    const rows = await this.query(
+      'DELETE FROM pgcalendar.exceptions WHERE exception_id = $1 RETURNING exception_id',
+      [exceptionId],
+    );
+    return rows.length > 0;
+  }
+
+  // Participants and attendees
+
+  async createParticipant(input: NewParticipant): Promise<Participant> {
+    const { names, values } = columnValues(input, PARTICIPANT_COLUMNS);
+    const rows = await this.query<ParticipantRow>(insertSql('participants', names), values);
+    return toParticipant(rows[0]);
+  }
+
+  async getParticipant(participantId: number): Promise<Participant | null> {
+    const rows = await this.query<ParticipantRow>(
+      'SELECT * FROM pgcalendar.participants WHERE participant_id = $1',
+      [participantId],
+    );
+    return rows.length > 0 ? toParticipant(rows[0]) : null;
+  }
+
+  async listParticipants(): Promise<Participant[]> {
+    const rows = await this.query<ParticipantRow>('SELECT * FROM pgcalendar.participants ORDER BY participant_id');
+    return rows.map(toParticipant);
+  }
+
+  async updateParticipant(participantId: number, patch: ParticipantPatch): Promise<Participant | null> {
+    const { names, values } = columnValues(patch, PARTICIPANT_COLUMNS);
+    if (names.length === 0) {
+      return this.getParticipant(participantId);
+    }
+    const rows = await this.query<ParticipantRow>(
+      updateSql('participants', 'participant_id', names),
+      [participantId, ...values],
+    );
+    return rows.length > 0 ? toParticipant(rows[0]) : null;
+  }
+
+  async deleteParticipant(participantId: number): Promise<boolean> {
+    const rows = await this.query(
+      'DELETE FROM pgcalendar.participants WHERE participant_id = $1 RETURNING participant_id',
+      [participantId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Invites a participant to an event, or updates their response to the
+   * whole series if they are already invited.
+   */
+  async addAttendee(
+    eventId: number,
+    participantId: number,
+    response: RsvpResponse | null = null,
+  ): Promise<Attendee> {
+    const rows = await this.query<AttendeeRow>(
+      `INSERT INTO pgcalendar.attendees (event_id, participant_id, response)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (event_id, participant_id) DO UPDATE SET response = EXCLUDED.response
+       RETURNING *`,
+      [eventId, participantId, response],
+    );
+    return toAttendee(rows[0]);
+  }
+
+  async listAttendees(eventId: number): Promise<Attendee[]> {
+    const rows = await this.query<AttendeeRow>(
+      'SELECT * FROM pgcalendar.attendees WHERE event_id = $1 ORDER BY attendee_id',
+      [eventId],
+    );
+    return rows.map(toAttendee);
+  }
+
+  async removeAttendee(eventId: number, participantId: number): Promise<boolean> {
+    const rows = await this.query(
+      `DELETE FROM pgcalendar.attendees WHERE event_id = $1 AND participant_id = $2
+       RETURNING attendee_id`,
+      [eventId, participantId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Records a participant's response to the occurrence a schedule generates
+   * on `occurrenceDate`, even if an exception moved it. Null removes the
+   * response, so that their response to the whole series applies again.
+   */
+  async setOccurrenceResponse(
+    scheduleId: number,
+    occurrenceDate: DateOnly | Date,
+    participantId: number,
+    response: RsvpResponse | null,
+  ): Promise<void> {
+    await this.query(
+      'SELECT pgcalendar.respond_to_occurrence($1, $2::date, $3, $4)',
+      [scheduleId, toDateOnly(occurrenceDate), participantId, response],
+    );
+  }
+
+  // Resources
+
+  async createResource(input: NewResource): Promise<Resource> {
+    const { names, values } = columnValues(input, RESOURCE_COLUMNS);
+    const rows = await this.query<ResourceRow>(insertSql('resources', names), values);
+    return toResource(rows[0]);
+  }
+
+  async getResource(resourceId: number): Promise<Resource | null> {
+    const rows = await this.query<ResourceRow>(
+      'SELECT * FROM pgcalendar.resources WHERE resource_id = $1',
+      [resourceId],
+    );
+    return rows.length > 0 ? toResource(rows[0]) : null;
+  }
+
+  async listResources(): Promise<Resource[]> {
+    const rows = await this.query<ResourceRow>('SELECT * FROM pgcalendar.resources ORDER BY resource_id');
+    return rows.map(toResource);
+  }
+
+  async updateResource(resourceId: number, patch: ResourcePatch): Promise<Resource | null> {
+    const { names, values } = columnValues(patch, RESOURCE_COLUMNS);
+    if (names.length === 0) {
+      return this.getResource(resourceId);
+    }
+    const rows = await this.query<ResourceRow>(
+      updateSql('resources', 'resource_id', names),
+      [resourceId, ...values],
+    );
+    return rows.length > 0 ? toResource(rows[0]) : null;
+  }
+
+  async deleteResource(resourceId: number): Promise<boolean> {
+    const rows = await this.query(
+      'DELETE FROM pgcalendar.resources WHERE resource_id = $1 RETURNING resource_id',
+      [resourceId],
+    );
+    return rows.length > 0;
+  }
+
+  /** Books a resource for every occurrence of an event. */
+  async addEventResource(eventId: number, resourceId: number): Promise<void> {
+    await this.query(
+      `INSERT INTO pgcalendar.event_resources (event_id, resource_id) VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [eventId, resourceId],
+    );
+  }
+
+  async listEventResources(eventId: number): Promise<Resource[]> {
+    const rows = await this.query<ResourceRow>(
+      `SELECT r.* FROM pgcalendar.resources r
+       JOIN pgcalendar.event_resources er ON er.resource_id = r.resource_id
+       WHERE er.event_id = $1 ORDER BY r.resource_id`,
+      [eventId],
+    );
+    return rows.map(toResource);
+  }
+
+  async removeEventResource(eventId: number, resourceId: number): Promise<boolean> {
+    const rows = await this.query(
+      `DELETE FROM pgcalendar.event_resources WHERE event_id = $1 AND resource_id = $2
+       RETURNING event_id`,
+      [eventId, resourceId],
+    );
+    return rows.length > 0;
+  }
+
+  // Holidays
+
+  /**
+   * Creates or replaces the holidays of a named set. `holidays` may be the
+   * contents of an iCalendar or CSV file (see `parseHolidays`).
+   */
+  async loadHolidays(
+    name: string,
+    holidays: Holiday[] | string,
+    description: string | null = null,
+  ): Promise<HolidaySet> {
+    const list = typeof holidays === 'string' ? parseHolidays(holidays) : holidays;
+    const loaded = await this.query<{ holiday_set_id: number }>(
+      'SELECT pgcalendar.load_holidays($1, $2, $3) AS holiday_set_id',
+      [name, JSON.stringify(list), description],
+    );
+    const rows = await this.query<HolidaySetRow>(
+      'SELECT * FROM pgcalendar.holiday_sets WHERE holiday_set_id = $1',
+      [loaded[0].holiday_set_id],
+    );
+    return toHolidaySet(rows[0]);
+  }
+
+  /** Finds a holiday set of the session's tenant by name. */
+  async getHolidaySet(name: string): Promise<HolidaySet | null> {
+    const rows = await this.query<HolidaySetRow>(
+      'SELECT * FROM pgcalendar.holiday_sets WHERE name = $1 AND pgcalendar.is_current_tenant(tenant_id)',
+      [name],
+    );
+    return rows.length > 0 ? toHolidaySet(rows[0]) : null;
+  }
+
+  async listHolidaySets(): Promise<HolidaySet[]> {
+    const rows = await this.query<HolidaySetRow>('SELECT * FROM pgcalendar.holiday_sets ORDER BY name');
+    return rows.map(toHolidaySet);
+  }
+
+  async listHolidays(holidaySetId: number): Promise<Holiday[]> {
+    const rows = await this.query<HolidayRow>(
+      'SELECT * FROM pgcalendar.holidays WHERE holiday_set_id = $1 ORDER BY holiday_date',
+      [holidaySetId],
+    );
+    return rows.map(toHoliday);
+  }
+
+  /** Fails while schedules still reference the set. */
+  async deleteHolidaySet(holidaySetId: number): Promise<boolean> {
+    const rows = await this.query(
+      'DELETE FROM pgcalendar.holiday_sets WHERE holiday_set_id = $1 RETURNING holiday_set_id',
+      [holidaySetId],
+    );
+    return rows.length > 0;
+  }
+
+  // Reminders
+
+  async createReminder(input: NewReminder): Promise<Reminder> {
+    const { names, values } = columnValues(input, REMINDER_COLUMNS);
+    const rows = await this.query<ReminderRow>(insertSql('reminders', names), values);
+    return toReminder(rows[0]);
+  }
+
+  /** Lists the reminders of an event, including those of its schedules. */
+  async listReminders(eventId: number): Promise<Reminder[]> {
+    const rows = await this.query<ReminderRow>(
+      `SELECT r.* FROM pgcalendar.reminders r
+       LEFT JOIN pgcalendar.schedules s ON s.schedule_id = r.schedule_id
+       WHERE COALESCE(r.event_id, s.event_id) = $1
+       ORDER BY r.reminder_id`,
+      [eventId],
+    );
+    return rows.map(toReminder);
+  }
+
+  async deleteReminder(reminderId: number): Promise<boolean> {
+    const rows = await this.query(
+      'DELETE FROM pgcalendar.reminders WHERE reminder_id = $1 RETURNING reminder_id',
+      [reminderId],
+    );
+    return rows.length > 0;
+  }
+
+  /** Returns the reminders due at `now` that have not been sent yet. */
+  async getDueReminders(now: Date = new Date()): Promise<DueReminder[]> {
+    const rows = await this.query<DueReminderRow>('SELECT * FROM pgcalendar.get_due_reminders($1)', [now]);
+    return rows.map(toDueReminder);
+  }
+
+  // Projections and functions
+
+  /**
+   * With `participantId`, returns nothing unless they attend the event, and
+   * their response to each occurrence.
+   */
+  async getEventProjections(
+    eventId: number,
+    startDate: DateOnly | Date,
+    endDate: DateOnly | Date,
+    participantId?: number,
+  ): Promise<DetailedProjection[]> {
+    const rows = await this.query<DetailedProjectionRow>(
+      'SELECT * FROM pgcalendar.get_event_projections($1::integer, $2::date, $3::date, $4::integer)',
+      [eventId, toDateOnly(startDate), toDateOnly(endDate), participantId ?? null],
+    );
+    return rows.map(toDetailedProjection);
+  }
+
+  /**
+   * Returns projections of all events. With `timeZone`, the date range and
+   * the local times are those of a viewer in that IANA time zone. With
+   * `participantId`, only the events they attend, with their responses, and
+   * with `resourceId` only the events booking it.
+   */
+  async getEventsDetailed(
+    startDate: DateOnly | Date,
+    endDate: DateOnly | Date,
+    timeZone?: string,
+    participantId?: number,
+    resourceId?: number,
+  ): Promise<DetailedProjection[]> {
+    const rows = await this.query<DetailedProjectionRow>(
+      `SELECT * FROM pgcalendar.get_events_detailed(
+         $1::date, $2::date, $3::text, $4::integer, $5::integer
+       )`,
+      [toDateOnly(startDate), toDateOnly(endDate), timeZone ?? null, participantId ?? null, resourceId ?? null],
+    );
+    return rows.map(toDetailedProjection);
+  }
+
+  /**
+   * Returns a page of the projections matching `query`, ordered by start
+   * time, event, schedule and occurrence date. Pass the last row of a page
+   * as `after` to get the next one.
+   */
+  async queryProjectionPage(
+    startDate: DateOnly | Date,
+    endDate: DateOnly | Date,
+    query: ProjectionQuery = {},
+    after?: ProjectionCursor,
+  ): Promise<QueriedProjection[]> {
+    const rows = await this.query<QueriedProjectionRow>(
+      `SELECT * FROM pgcalendar.query_projections(
+         p_start_date := $1::date,
+         p_end_date := $2::date,
+         p_categories := $3::text[],
+         p_event_statuses := $4::text[],
+         p_min_priority := $5::integer,
+         p_max_priority := $6::integer,
+         p_event_ids := $7::integer[],
+         p_metadata := $8::jsonb,
+         p_statuses := $9::text[],
+         p_limit := $10::integer,
+         p_after_start_time := $11::timestamptz,
+         p_after_event_id := $12::integer,
+         p_after_schedule_id := $13::integer,
+         p_after_occurrence_date := $14::date
+       )`,
+      [
+        toDateOnly(startDate),
+        toDateOnly(endDate),
+        query.categories ?? null,
+        query.eventStatuses ?? null,
+        query.minPriority ?? null,
+        query.maxPriority ?? null,
+        query.eventIds ?? null,
+        query.metadata ?? null,
+        query.statuses ?? null,
+        query.pageSize ?? DEFAULT_PAGE_SIZE,
+        after?.startTime ?? null,
+        after?.eventId ?? null,
+        after?.scheduleId ?? null,
+        after?.occurrenceDate ?? null,
+      ],
+    );
+    return rows.map(toQueriedProjection);
+  }
+
+  /**
+   * Iterates over the projections matching `query` in the order of
+   * `queryProjectionPage`, fetching `pageSize` of them at a time.
+   */
+  async *queryProjections(
+    startDate: DateOnly | Date,
+    endDate: DateOnly | Date,
+    query: ProjectionQuery = {},
+  ): AsyncGenerator<QueriedProjection> {
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+    let after: ProjectionCursor | undefined;
+    for (;;) {
+      const page = await this.queryProjectionPage(startDate, endDate, query, after);
+      yield* page;
+      if (page.length < pageSize) {
+        return;
+      }
+      after = page[page.length - 1];
+    }
+  }
+
+  /**
+   * Returns overlapping occurrences of different events that share a
+   * resource or participant, optionally only those involving `eventIds`.
+   * Participants who declined an occurrence do not count as attending it.
+   */
+  async findConflicts(
+    startDate: DateOnly | Date,
+    endDate: DateOnly | Date,
+    eventIds?: number[],
+  ): Promise<Conflict[]> {
+    const rows = await this.query<ConflictRow>(
+      'SELECT * FROM pgcalendar.find_conflicts($1::date, $2::date, $3::integer[])',
+      [toDateOnly(startDate), toDateOnly(endDate), eventIds ?? null],
+    );
+    return rows.map(toConflict);
+  }
+
+  /**
+   * Returns the merged intervals during which each of the given participants
+   * and resources is busy. Occurrences a participant declined are free time.
+   */
+  async getFreeBusy(
+    startDate: DateOnly | Date,
+    endDate: DateOnly | Date,
+    query: FreeBusyQuery,
+  ): Promise<BusyInterval[]> {
+    const rows = await this.query<BusyIntervalRow>(
+      'SELECT * FROM pgcalendar.get_free_busy($1::date, $2::date, $3::integer[], $4::integer[], $5::text)',
+      [
+        toDateOnly(startDate),
+        toDateOnly(endDate),
+        query.participantIds ?? null,
+        query.resourceIds ?? null,
+        query.timeZone ?? null,
+      ],
+    );
+    return rows.map(toBusyInterval);
+  }
+
+  /**
+   * Returns the slots of `durationMinutes` within each day's working hours
+   * at which all the given participants and resources are free.
+   */
+  async findFreeSlots(
+    startDate: DateOnly | Date,
+    endDate: DateOnly | Date,
+    query: FreeSlotQuery,
+  ): Promise<FreeSlot[]> {
+    const rows = await this.query<{ start_time: Date; end_time: Date }>(
+      `SELECT * FROM pgcalendar.find_free_slots(
+         p_start_date := $1::date,
+         p_end_date := $2::date,
+         p_duration := make_interval(mins => $3),
+         p_participant_ids := $4::integer[],
+         p_resource_ids := $5::integer[],
+         p_day_start := $6::time,
+         p_day_end := $7::time,
+         p_buffer := make_interval(mins => $8),
+         p_step := make_interval(mins => $9),
+         p_time_zone := $10::text
+       )`,
+      [
+        toDateOnly(startDate),
+        toDateOnly(endDate),
+        query.durationMinutes,
+        query.participantIds ?? null,
+        query.resourceIds ?? null,
+        query.dayStart ?? '09:00:00',
+        query.dayEnd ?? '17:00:00',
+        query.bufferMinutes ?? 0,
+        query.stepMinutes ?? 15,
+        query.timeZone ?? null,
+      ],
+    );
+    return rows.map((row) => ({ startTime: row.start_time, endTime: row.end_time }));
+  }
+
+  /**
+   * Moves the projections cache window, generating only the days it did not
+   * cover yet. Returns the number of projections added. Needs a role that
+   * bypasses row-level security, as the window is shared by all tenants.
+   */
+  async extendProjectionWindow(
+    windowStart: DateOnly | Date,
+    windowEnd: DateOnly | Date,
+  ): Promise<number> {
+    const rows = await this.query<{ added: number }>(
+      'SELECT pgcalendar.extend_projection_window($1::date, $2::date) AS added',
+      [toDateOnly(windowEnd), toDateOnly(windowStart)],
+    );
+    return rows[0].added;
+  }
+
+  /** Makes the projection queries read from the cache for ranges within its window. */
+  async setProjectionCacheEnabled(enabled: boolean): Promise<void> {
+    await this.query('UPDATE pgcalendar.projection_cache_settings SET enabled = $1', [enabled]);
+  }
+
+  async checkScheduleOverlap(
+    eventId: number,
+    startDate: Timestamp,
+    endDate: Timestamp,
+    timeZone?: string | null,
+  ): Promise<boolean> {
+    const rows = await this.query<{ overlaps: boolean }>(
+      'SELECT pgcalendar.check_schedule_overlap($1, $2, $3, $4) AS overlaps',
+      [eventId, startDate, endDate, timeZone ?? null],
+    );
+    return rows[0].overlaps;
+  }
+
+  /** Creates a new non-overlapping schedule for an event and returns it. */
+  async transitionEventSchedule(input: TransitionScheduleInput): Promise<Schedule> {
+    const rows = await this.query<{ schedule_id: number }>(
+      `SELECT pgcalendar.transition_event_schedule(
+         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+       ) AS schedule_id`,
+      [
+        input.eventId,
+        input.startDate,
+        input.endDate ?? null,
+        input.recurrenceType,
+        input.recurrenceInterval ?? 1,
+        input.recurrenceDayOfWeek ?? null,
+        input.recurrenceDayOfMonth ?? null,
+        input.recurrenceMonth ?? null,
+        input.description ?? null,
+        input.timeZone ?? null,
+        input.recurrenceWeekOfMonth ?? null,
+        input.missingDayPolicy ?? 'skip',
+        input.recurrenceDaysOfWeek ?? null,
+        input.occurrenceCount ?? null,
+        input.durationMinutes ?? null,
+        input.occurrenceEndTime ?? null,
+      ],
+    );
+    return (await this.getSchedule(rows[0].schedule_id)) as Schedule;
+  }
+
+  /**
+   * Splits a schedule at one of its occurrences ("this and following"): the
+   * schedule ends the day before `splitDate` and a copy with `changes`
+   * applied continues from it. Exceptions from `splitDate` on move to the
+   * new schedule, or are deleted when `carryExceptions` is false, and so do
+   * responses to those occurrences.
+   */
+  async splitSchedule(
+    scheduleId: number,
+    splitDate: DateOnly | Date,
+    changes: SchedulePatch = {},
+    carryExceptions = true,
+  ): Promise<ScheduleSplit> {
+    const { names, values } = columnValues(changes, SCHEDULE_COLUMNS);
+    const patch = Object.fromEntries(names.map((name, i) => {
+      const value = values[i];
+      return [name, value instanceof Date ? timestampText(value) : value];
+    }));
+    const rows = await this.query<{ head_schedule_id: number; tail_schedule_id: number }>(
+      'SELECT * FROM pgcalendar.split_schedule($1, $2::date, $3::jsonb, $4)',
+      [scheduleId, toDateOnly(splitDate), patch, carryExceptions],
+    );
+    return {
+      head: (await this.getSchedule(rows[0].head_schedule_id)) as Schedule,
+      tail: (await this.getSchedule(rows[0].tail_schedule_id)) as Schedule,
+    };
+  }
+
+  // History
+
+  /**
+   * Returns an event's projections as they were at `asOf`, rebuilt from the
+   * audit log. The current holidays apply.
+   */
+  async getEventProjectionsAsOf(
+    eventId: number,
+    startDate: DateOnly | Date,
+    endDate: DateOnly | Date,
+    asOf: Date,
+  ): Promise<DetailedProjection[]> {
+    const rows = await this.query<DetailedProjectionRow>(
+      'SELECT * FROM pgcalendar.get_event_projections_as_of($1::integer, $2::date, $3::date, $4::timestamptz)',
+      [eventId, toDateOnly(startDate), toDateOnly(endDate), asOf],
+    );
+    return rows.map(toDetailedProjection);
+  }
+
+  /**
+   * Returns the changes to an occurrence's schedule and to the schedule's
+   * exceptions for the occurrence date, oldest first.
+   */
+  async getOccurrenceHistory(scheduleId: number, occurrenceDate: DateOnly | Date): Promise<AuditEntry[]> {
+    const rows = await this.query<AuditEntryRow>(
+      'SELECT * FROM pgcalendar.get_occurrence_history($1, $2::date)',
+      [scheduleId, toDateOnly(occurrenceDate)],
+    );
+    return rows.map(toAuditEntry);
+  }
+
+  // iCalendar
+
+  /** Exports events with their schedules, exceptions and holidays as recurring VEVENTs. */
+  async exportEventsICalendar(eventIds: number[], options?: ICalendarOptions): Promise<string> {
+    const sources: ICalendarEventSource[] = [];
+    for (const eventId of eventIds) {
+      const event = await this.getEvent(eventId);
+      if (!event) {
+        continue;
+      }
+      const schedules = await this.listSchedules(eventId);
+      const exceptions: Exception[] = [];
+      const holidays: Record<number, DateOnly[]> = {};
+      for (const schedule of schedules) {
+        exceptions.push(...(await this.listExceptions(schedule.scheduleId)));
+        if (schedule.holidaySetId !== null && !(schedule.holidaySetId in holidays)) {
+          holidays[schedule.holidaySetId] = (await this.listHolidays(schedule.holidaySetId)).map((h) => h.date);
+        }
+      }
+      sources.push({ event, schedules, exceptions, holidays });
+    }
+    return eventsToICalendar(sources, options);
+  }
+
+  /** Exports every projection in a date range as a standalone VEVENT. */
+  async exportProjectionsICalendar(
+    startDate: DateOnly | Date,
+    endDate: DateOnly | Date,
+    options?: ICalendarOptions,
+  ): Promise<string> {
+    return projectionsToICalendar(await this.getEventsDetailed(startDate, endDate), options);
+  }
+
+  /**
+   * Imports an `.ics` stream in a single transaction. Re-importing the
+   * same UIDs updates the previously imported events.
+   */
+  async importICalendar(
+    source: string,
+    options?: ICalendarImportOptions,
+  ): Promise<ICalendarImportReport> {
+    return this.transaction((db) => importICalendar(db, source, options));
+  }
+}
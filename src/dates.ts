@@ -0,0 +1,40 @@
+import { types, CustomTypesConfig } from 'pg';
+import { DateOnly } from './types';
+
+const DATE_OID = 1082;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Type parsers used for every client query. `DATE` columns are returned as
+ * `YYYY-MM-DD` strings instead of local-midnight `Date` objects, so a
+ * projection date never shifts with the process time zone.
+ */
+export const calendarTypes: CustomTypesConfig = {
+  getTypeParser: ((oid: number, format?: 'text' | 'binary') => {
+    if (oid === DATE_OID && format !== 'binary') {
+      return (value: string) => value;
+    }
+    return types.getTypeParser(oid, format);
+  }) as CustomTypesConfig['getTypeParser'],
+};
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/** Formats a `Date` (by its local calendar day) or validates a date string. */
+export function toDateOnly(value: Date | DateOnly): DateOnly {
+  if (value instanceof Date) {
+    return `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  if (!DATE_ONLY_PATTERN.test(value)) {
+    throw new RangeError(`Invalid date "${value}", expected YYYY-MM-DD`);
+  }
+  return value;
+}
+
+/** Returns local midnight of a `YYYY-MM-DD` date. */
+export function parseDateOnly(value: DateOnly): Date {
+  const [year, month, day] = toDateOnly(value).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
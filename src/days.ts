@@ -0,0 +1,53 @@
+// Calendar-day arithmetic shared by the projection engine and RRULE expansion
+//
+// Dates are handled as whole days since 1970-01-01 so that arithmetic is
+// independent of the process time zone. This module must not import `pg`.
+
+import { DateOnly } from './types';
+
+const MS_PER_DAY = 86400000;
+
+export type DayNumber = number;
+
+export interface DayParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  dow: number; // 0=Sunday
+}
+
+export function toDayNumber(date: DateOnly): DayNumber {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+}
+
+export function fromDayNumber(day: DayNumber): DateOnly {
+  return new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+export function makeDay(year: number, month: number, day: number): DayNumber {
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+}
+
+export function dayParts(day: DayNumber): DayParts {
+  const date = new Date(day * MS_PER_DAY);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    dow: date.getUTCDay(),
+  };
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Equivalent of `date + INTERVAL 'n months'`, which clamps to the month end. */
+export function addMonths(day: DayNumber, months: number): DayNumber {
+  const { year, month, day: dayOfMonth } = dayParts(day);
+  const target = year * 12 + (month - 1) + months;
+  const targetYear = Math.floor(target / 12);
+  const targetMonth = target - targetYear * 12 + 1;
+  return makeDay(targetYear, targetMonth, Math.min(dayOfMonth, daysInMonth(targetYear, targetMonth)));
+}
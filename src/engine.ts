@@ -0,0 +1,492 @@
+// In-process projection engine mirroring pgcalendar.generate_projections
+//
+// The functions below follow the SQL implementation rule for rule,
+// including its quirks, so that previews computed in Node or the browser
+// match what the database returns. This module must not import `pg`.
+
+import {
+  dayParts,
+  DayNumber,
+  daysInMonth,
+  fromDayNumber,
+  makeDay,
+  toDayNumber,
+} from './days';
+import { expandRRule } from './rrule';
+import {
+  DateOnly,
+  Exception,
+  HolidayPolicy,
+  MissingDayPolicy,
+  Projection,
+  Schedule,
+  Timestamp,
+} from './types';
+import { fromWallClock } from './zones';
+
+export type EngineSchedule = Pick<
+  Schedule,
+  | 'recurrenceType'
+  | 'recurrenceInterval'
+  | 'recurrenceDayOfWeek'
+  | 'recurrenceDayOfMonth'
+  | 'recurrenceMonth'
+> & {
+  startDate: Timestamp;
+  endDate: Timestamp | null;
+  occurrenceCount?: number | null;
+  durationMinutes?: number | null;
+  occurrenceEndTime?: string | null;
+  recurrenceDaysOfWeek?: number[] | null;
+  recurrenceWeekOfMonth?: number | null;
+  missingDayPolicy?: MissingDayPolicy;
+  rrule?: string | null;
+  timeZone?: string | null;
+  /** Days that are not business days, 0=Sunday; defaults to Saturday and Sunday. */
+  weekendDays?: number[];
+  /** Dates of the schedule's holiday set; null or omitted when it has none. */
+  holidays?: DateOnly[] | null;
+  holidayPolicy?: HolidayPolicy;
+};
+
+export type EngineException = Pick<Exception, 'exceptionType'> & {
+  exceptionDate: DateOnly;
+  modifiedDate?: DateOnly | null;
+  modifiedStartTime?: Timestamp | null;
+  modifiedEndTime?: Timestamp | null;
+};
+
+const MS_PER_DAY = 86400000;
+const TIME_PATTERN = /^(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,6}))?)?$/;
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,6}))?)?)?$/;
+
+interface WallTime {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+// Local wall-clock timestamp, the way the pg driver reads TIMESTAMP columns
+function toDate(value: Timestamp): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) {
+    throw new RangeError(`Invalid timestamp "${value}"`);
+  }
+  const [, year, month, day, hours, minutes, seconds, fraction] = match;
+  return new Date(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours ?? 0),
+    Number(minutes ?? 0),
+    Number(seconds ?? 0),
+    Math.floor(Number((fraction ?? '0').padEnd(6, '0')) / 1000),
+  );
+}
+
+function datePart(value: Timestamp): DayNumber {
+  const date = toDate(value);
+  return makeDay(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+function timePart(value: Timestamp): WallTime {
+  const date = toDate(value);
+  return {
+    hours: date.getHours(),
+    minutes: date.getMinutes(),
+    seconds: date.getSeconds(),
+    milliseconds: date.getMilliseconds(),
+  };
+}
+
+// A `TIME` value such as '17:30:00'
+function parseTime(value: string): WallTime {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) {
+    throw new RangeError(`Invalid time "${value}"`);
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return {
+    hours: Number(hours),
+    minutes: Number(minutes),
+    seconds: Number(seconds ?? 0),
+    milliseconds: Math.floor(Number((fraction ?? '0').padEnd(6, '0')) / 1000),
+  };
+}
+
+// Equivalent of pgcalendar.zoned_timestamp(date + time, time_zone);
+// floating times stay in the local time zone
+function atTime(day: DayNumber, time: WallTime, timeZone?: string | null): Date {
+  const { year, month, day: dayOfMonth } = dayParts(day);
+  if (timeZone) {
+    return fromWallClock({ year, month, day: dayOfMonth, ...time }, timeZone);
+  }
+  return new Date(year, month - 1, dayOfMonth, time.hours, time.minutes, time.seconds, time.milliseconds);
+}
+
+function zoned(value: Timestamp, timeZone?: string | null): Date {
+  return atTime(datePart(value), timePart(value), timeZone);
+}
+
+// Mirrors pgcalendar.occurrence_end: the local end of an occurrence on
+// `day` starting at `start`, resolved like `atTime`
+function occurrenceEnd(
+  schedule: EngineSchedule,
+  day: DayNumber,
+  start: { day: DayNumber; time: WallTime },
+): Date {
+  if (schedule.durationMinutes !== null && schedule.durationMinutes !== undefined) {
+    // Wall-clock arithmetic, like adding an interval to a TIMESTAMP
+    const { time } = start;
+    const { year, month, day: dayOfMonth } = dayParts(start.day);
+    const end = new Date(Date.UTC(
+      year, month - 1, dayOfMonth, time.hours, time.minutes + schedule.durationMinutes, time.seconds, time.milliseconds,
+    ));
+    return atTime(
+      makeDay(end.getUTCFullYear(), end.getUTCMonth() + 1, end.getUTCDate()),
+      { hours: end.getUTCHours(), minutes: end.getUTCMinutes(), seconds: end.getUTCSeconds(), milliseconds: end.getUTCMilliseconds() },
+      schedule.timeZone,
+    );
+  }
+  const time = schedule.occurrenceEndTime
+    ? parseTime(schedule.occurrenceEndTime)
+    : timePart(schedule.endDate as Timestamp);
+  // An end time earlier than the start is on the next day
+  const overnight = (day - start.day) * MS_PER_DAY + wallMilliseconds(time) < wallMilliseconds(start.time);
+  return atTime(overnight ? day + 1 : day, time, schedule.timeZone);
+}
+
+function wallMilliseconds(time: WallTime): number {
+  return ((time.hours * 60 + time.minutes) * 60 + time.seconds) * 1000 + time.milliseconds;
+}
+
+// Mirrors pgcalendar.month_occurrence for the month starting at `month`
+function monthOccurrence(schedule: EngineSchedule, month: DayNumber): DayNumber | null {
+  const { year, month: monthOfYear } = dayParts(month);
+  const days = daysInMonth(year, monthOfYear);
+  const nextMonth = month + days;
+  const ordinal = schedule.recurrenceWeekOfMonth ?? null;
+  const dow = schedule.recurrenceDayOfWeek;
+  const policy = schedule.missingDayPolicy ?? 'skip';
+
+  // Nth weekday, e.g. 2nd Tuesday or last (-1) Friday
+  if (ordinal !== null) {
+    if (dow === null) {
+      return null;
+    }
+    const date = ordinal > 0
+      ? month + (dow - dayParts(month).dow + 7) % 7 + (ordinal - 1) * 7
+      : nextMonth - 1 - (dayParts(nextMonth - 1).dow - dow + 7) % 7 + (ordinal + 1) * 7;
+    if (date >= month && date < nextMonth) {
+      return date;
+    }
+    switch (policy) {
+      case 'clamp':
+        return date - (ordinal > 0 ? 7 : -7);
+      case 'roll':
+        return nextMonth + (dow - dayParts(nextMonth).dow + 7) % 7;
+      default:
+        return null;
+    }
+  }
+
+  // Day of month, negative days count from the month end
+  if (schedule.recurrenceDayOfMonth === null) {
+    return null;
+  }
+  const day = schedule.recurrenceDayOfMonth < 0
+    ? days + schedule.recurrenceDayOfMonth + 1
+    : schedule.recurrenceDayOfMonth;
+  if (day >= 1 && day <= days) {
+    return month + day - 1;
+  }
+  switch (policy) {
+    case 'clamp':
+      return day > days ? nextMonth - 1 : month;
+    case 'roll':
+      return nextMonth;
+    default:
+      return null;
+  }
+}
+
+// Mirrors pgcalendar.month_occurrences
+function monthOccurrences(schedule: EngineSchedule, first: DayNumber, last: DayNumber): DayNumber[] {
+  const start = dayParts(datePart(schedule.startDate));
+  let step: number;
+  let firstMonth: number; // months since year 0
+  if (schedule.recurrenceType === 'monthly') {
+    step = schedule.recurrenceInterval;
+    firstMonth = start.year * 12 + start.month - 1;
+  } else if (schedule.recurrenceMonth !== null) {
+    step = schedule.recurrenceInterval * 12;
+    firstMonth = start.year * 12 + schedule.recurrenceMonth - 1;
+  } else {
+    return [];
+  }
+
+  // Skip whole periods before the range, keeping the previous month whose occurrence may roll into it
+  const from = dayParts(first);
+  const skip = Math.max(0, Math.trunc((from.year * 12 + from.month - 2 - firstMonth) / step));
+  const lowest = Math.max(first, datePart(schedule.startDate));
+  const occurrences: DayNumber[] = [];
+  for (let index = firstMonth + skip * step; ; index += step) {
+    const month = makeDay(Math.floor(index / 12), (index % 12) + 1, 1);
+    if (month > last) {
+      break;
+    }
+    const date = monthOccurrence(schedule, month);
+    if (date !== null && date >= lowest && date <= last) {
+      occurrences.push(date);
+    }
+  }
+  return occurrences;
+}
+
+// Mirrors pgcalendar.is_business_day
+function isBusinessDay(schedule: EngineSchedule, holidays: Set<DayNumber>, day: DayNumber): boolean {
+  return !(schedule.weekendDays ?? [0, 6]).includes(dayParts(day).dow) && !holidays.has(day);
+}
+
+// Mirrors pgcalendar.business_day_occurrences
+function businessDayOccurrences(schedule: EngineSchedule, first: DayNumber, last: DayNumber): DayNumber[] {
+  const holidays = new Set((schedule.holidays ?? []).map(toDayNumber));
+  const interval = schedule.recurrenceInterval;
+  const start = datePart(schedule.startDate);
+  const lowest = Math.max(first, start);
+  const nth = schedule.recurrenceDayOfMonth;
+  const occurrences: DayNumber[] = [];
+
+  if (nth === null) {
+    // Business days are counted from startDate, unless every one of them occurs
+    let count = 0;
+    for (let day = interval === 1 ? lowest : start; day <= last; day++) {
+      if (isBusinessDay(schedule, holidays, day)) {
+        if (count % interval === 0 && day >= lowest) {
+          occurrences.push(day);
+        }
+        count++;
+      }
+    }
+    return occurrences;
+  }
+
+  // Skip whole periods before the range
+  const from = dayParts(lowest);
+  const firstMonth = dayParts(start).year * 12 + dayParts(start).month - 1;
+  const skip = Math.trunc((from.year * 12 + from.month - 1 - firstMonth) / interval);
+  for (let index = firstMonth + skip * interval; ; index += interval) {
+    const year = Math.floor(index / 12);
+    const month = makeDay(year, (index % 12) + 1, 1);
+    if (month > last) {
+      break;
+    }
+    const businessDays: DayNumber[] = [];
+    for (let day = month; day < month + daysInMonth(year, (index % 12) + 1); day++) {
+      if (isBusinessDay(schedule, holidays, day)) {
+        businessDays.push(day);
+      }
+    }
+    const date = nth > 0 ? businessDays[nth - 1] : businessDays[businessDays.length + nth];
+    if (date !== undefined && date >= lowest && date <= last) {
+      occurrences.push(date);
+    }
+  }
+  return occurrences;
+}
+
+// Monday of the week containing a day, like date_trunc('week', ...)
+function weekStart(day: DayNumber): DayNumber {
+  return day - ((dayParts(day).dow + 6) % 7);
+}
+
+// Mirrors pgcalendar.should_generate_projection
+function shouldGenerate(schedule: EngineSchedule, day: DayNumber): boolean {
+  const elapsed = day - datePart(schedule.startDate);
+  const interval = schedule.recurrenceInterval;
+  const parts = dayParts(day);
+  switch (schedule.recurrenceType) {
+    case 'daily':
+      return elapsed % interval === 0;
+    case 'weekly':
+      // Weeks run Monday to Sunday and count from the week of startDate
+      return (schedule.recurrenceDaysOfWeek ?? [schedule.recurrenceDayOfWeek]).includes(parts.dow)
+        && elapsed >= 0
+        && ((weekStart(day) - weekStart(datePart(schedule.startDate))) / 7) % interval === 0;
+    case 'monthly':
+    case 'yearly':
+      return monthOccurrences(schedule, day, day).length > 0;
+    case 'business_day':
+      return businessDayOccurrences(schedule, day, day).length > 0;
+    default:
+      return false;
+  }
+}
+
+// Mirrors pgcalendar.get_next_recurrence_date
+function nextDate(schedule: EngineSchedule, day: DayNumber): DayNumber | null {
+  const interval = schedule.recurrenceInterval;
+  switch (schedule.recurrenceType) {
+    case 'daily':
+      return day + interval;
+    case 'weekly':
+      // The next matching weekday; a week later when there is none
+      for (let next = day + 1; next <= day + interval * 7 + 6; next++) {
+        if (shouldGenerate(schedule, next)) {
+          return next;
+        }
+      }
+      return day + interval * 7;
+    case 'monthly':
+    case 'yearly': {
+      // The next occurrence, or null when there is none within eight periods' worth of years
+      const { year, month, day: dayOfMonth } = dayParts(day);
+      const horizon = makeDay(year + 8 * interval, month, Math.min(dayOfMonth, daysInMonth(year + 8 * interval, month)));
+      return monthOccurrences(schedule, day + 1, horizon)[0] ?? null;
+    }
+    case 'business_day': {
+      // The next occurrence, or null when there is none within a year per interval
+      const { year, month, day: dayOfMonth } = dayParts(day);
+      const horizon = makeDay(year + interval, month, Math.min(dayOfMonth, daysInMonth(year + interval, month)));
+      return businessDayOccurrences(schedule, day + 1, horizon)[0] ?? null;
+    }
+    default:
+      return day + 1;
+  }
+}
+
+export function shouldGenerateProjection(schedule: EngineSchedule, date: DateOnly): boolean {
+  return shouldGenerate(schedule, toDayNumber(date));
+}
+
+export function getNextRecurrenceDate(schedule: EngineSchedule, date: DateOnly): DateOnly | null {
+  const next = nextDate(schedule, toDayNumber(date));
+  return next === null ? null : fromDayNumber(next);
+}
+
+// Mirrors pgcalendar.holiday_shift: the day itself when it is not a holiday,
+// null when the occurrence is skipped, else the nearest business day
+function holidayShift(schedule: EngineSchedule, holidays: Set<DayNumber>, day: DayNumber): DayNumber | null {
+  if (!holidays.has(day)) {
+    return day;
+  }
+  if ((schedule.holidayPolicy ?? 'skip') === 'skip') {
+    return null;
+  }
+  const step = schedule.holidayPolicy === 'previous_business_day' ? -1 : 1;
+  let current = day + step;
+  while (!isBusinessDay(schedule, holidays, current)) {
+    current += step;
+  }
+  return current;
+}
+
+// Mirrors pgcalendar.schedule_occurrences
+function occurrences(schedule: EngineSchedule, first: DayNumber, end: DayNumber): DayNumber[] {
+  const last = schedule.endDate === null ? end : Math.min(end, datePart(schedule.endDate));
+
+  // Schedules with an RRULE are expanded from their first occurrence
+  if (schedule.rrule) {
+    return expandRRule(schedule.rrule, fromDayNumber(datePart(schedule.startDate)), fromDayNumber(last))
+      .map(toDayNumber)
+      .filter((day) => day >= first);
+  }
+
+  // Monthly and yearly schedules have at most one occurrence per period
+  if (schedule.recurrenceType === 'monthly' || schedule.recurrenceType === 'yearly') {
+    return monthOccurrences(schedule, first, last);
+  }
+
+  if (schedule.recurrenceType === 'business_day') {
+    return businessDayOccurrences(schedule, first, last);
+  }
+
+  const days: DayNumber[] = [];
+  const start = datePart(schedule.startDate);
+  let current = Math.max(first, start);
+  if (schedule.recurrenceType === 'daily') {
+    // Every interval days from the series start, from the first of them within the range
+    const interval = schedule.recurrenceInterval;
+    current = start + Math.ceil((current - start) / interval) * interval;
+  }
+  while (current <= last) {
+    if (shouldGenerate(schedule, current)) {
+      days.push(current);
+    }
+    current = nextDate(schedule, current) as DayNumber;
+  }
+  return days;
+}
+
+/**
+ * Expands a schedule into projections between two dates (inclusive),
+ * applying cancelled, modified and added exceptions and the holiday policy.
+ * Produces the same rows, in the same order, as
+ * `pgcalendar.generate_projections`. Schedules with a
+ * `timeZone` get their wall-clock times resolved in that zone; floating
+ * schedules use the local time zone, as the database uses its session's.
+ */
+export function generateProjections(
+  schedule: EngineSchedule,
+  exceptions: EngineException[],
+  startDate: DateOnly,
+  endDate: DateOnly,
+): Projection[] {
+  const byDate = new Map(exceptions.map((exception) => [exception.exceptionDate, exception]));
+  const holidays = new Set((schedule.holidays ?? []).map(toDayNumber));
+  const { timeZone } = schedule;
+  const startTime = timePart(schedule.startDate);
+  const first = toDayNumber(startDate);
+  const projections: Projection[] = [];
+
+  // Mirrors the exception handling of pgcalendar.schedule_projections
+  const project = (current: DayNumber) => {
+    const exception = byDate.get(fromDayNumber(current));
+    if (!exception) {
+      const day = holidayShift(schedule, holidays, current);
+      if (day !== null) {
+        projections.push({
+          projectionDate: fromDayNumber(day),
+          startTime: atTime(day, startTime, timeZone),
+          endTime: occurrenceEnd(schedule, day, { day, time: startTime }),
+          status: day === current ? 'active' : 'shifted',
+        });
+      }
+    } else if (exception.exceptionType !== 'cancelled') {
+      const projectionDate = exception.modifiedDate ?? fromDayNumber(current);
+      const day = toDayNumber(projectionDate);
+      const start = exception.modifiedStartTime
+        ? { day: datePart(exception.modifiedStartTime), time: timePart(exception.modifiedStartTime) }
+        : { day, time: startTime };
+      projections.push({
+        projectionDate,
+        startTime: atTime(start.day, start.time, timeZone),
+        endTime: exception.modifiedEndTime
+          ? zoned(exception.modifiedEndTime, timeZone)
+          : occurrenceEnd(schedule, day, start),
+        status: exception.exceptionType,
+      });
+    }
+  };
+
+  // COUNT is counted from the series start, cancelled occurrences included
+  const count = schedule.occurrenceCount ?? null;
+  const days = count === null
+    ? occurrences(schedule, first, toDayNumber(endDate))
+    : occurrences(schedule, datePart(schedule.startDate), toDayNumber(endDate)).slice(0, count);
+  // Added occurrences are neither bounded by the series nor counted; one on a
+  // date the schedule already has takes that occurrence's place
+  const last = toDayNumber(endDate);
+  const added = exceptions
+    .filter((exception) => exception.exceptionType === 'added')
+    .map((exception) => toDayNumber(exception.exceptionDate))
+    .filter((day) => day >= first && day <= last);
+  [...new Set([...days.filter((day) => day >= first), ...added])]
+    .sort((a, b) => a - b)
+    .forEach(project);
+  return projections;
+}
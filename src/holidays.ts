@@ -0,0 +1,94 @@
+// Parsing of holiday files for pgcalendar.load_holidays
+
+import { addMonths, fromDayNumber, toDayNumber } from './days';
+import {
+  getProperties,
+  getProperty,
+  parseDateTime,
+  parseDateTimeList,
+  parseICalendar,
+  unescapeText,
+} from './ical/parse';
+import { expandRRule } from './rrule';
+import { DateOnly, Holiday } from './types';
+
+export interface HolidayParseOptions {
+  /**
+   * Last date recurring iCalendar holidays (RRULE) are expanded to.
+   * Defaults to ten years after each holiday's first date.
+   */
+  until?: DateOnly;
+}
+
+export class HolidayParseError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line !== undefined ? `${message} (line ${line})` : message);
+    this.name = 'HolidayParseError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// All-day VEVENTs: every day from DTSTART to the day before DTEND, one day without DTEND
+function parseICalendarHolidays(source: string, options: HolidayParseOptions): Holiday[] {
+  const holidays: Holiday[] = [];
+  const calendars = parseICalendar(source).filter((component) => component.name === 'VCALENDAR');
+  for (const event of calendars.flatMap((calendar) => calendar.components)) {
+    if (event.name !== 'VEVENT') {
+      continue;
+    }
+    const dtstart = getProperty(event, 'DTSTART');
+    if (!dtstart) {
+      throw new HolidayParseError('VEVENT without DTSTART');
+    }
+    const start = parseDateTime(dtstart.value, dtstart.params).date;
+    const dtend = getProperty(event, 'DTEND');
+    const days = dtend ? Math.max(toDayNumber(parseDateTime(dtend.value, dtend.params).date) - toDayNumber(start), 1) : 1;
+    const summary = getProperty(event, 'SUMMARY');
+    const name = summary ? unescapeText(summary.value) : null;
+
+    const rrule = getProperty(event, 'RRULE');
+    const excluded = new Set(getProperties(event, 'EXDATE').flatMap(parseDateTimeList).map((value) => value.date));
+    const firsts = rrule
+      ? expandRRule(rrule.value, start, options.until ?? fromDayNumber(addMonths(toDayNumber(start), 120)))
+      : [start];
+    for (const first of firsts.filter((date) => !excluded.has(date))) {
+      for (let offset = 0; offset < days; offset++) {
+        holidays.push({ date: fromDayNumber(toDayNumber(first) + offset), name });
+      }
+    }
+  }
+  return holidays;
+}
+
+// One holiday per line: `YYYY-MM-DD,Name`, the name optional; a header line and # comments are ignored
+function parseCsvHolidays(source: string): Holiday[] {
+  const holidays: Holiday[] = [];
+  source.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      return;
+    }
+    const separator = trimmed.indexOf(',');
+    const date = (separator < 0 ? trimmed : trimmed.slice(0, separator)).trim();
+    const name = separator < 0 ? '' : trimmed.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (!DATE_PATTERN.test(date)) {
+      if (i === 0 && holidays.length === 0) {
+        return;
+      }
+      throw new HolidayParseError(`Invalid date "${date}"`, i + 1);
+    }
+    holidays.push({ date, name: name === '' ? null : name });
+  });
+  return holidays;
+}
+
+/**
+ * Reads holidays from an iCalendar (`.ics`) or CSV file's contents, e.g.
+ * a public holiday calendar export, for `PgCalendarClient.loadHolidays`.
+ */
+export function parseHolidays(source: string, options: HolidayParseOptions = {}): Holiday[] {
+  return /^\s*BEGIN:VCALENDAR/i.test(source)
+    ? parseICalendarHolidays(source, options)
+    : parseCsvHolidays(source);
+}
@@ -0,0 +1,447 @@
+// iCalendar (RFC 5545) export of events, schedules and projections
+
+import { toDateOnly } from '../dates';
+import { addMonths, fromDayNumber, toDayNumber } from '../days';
+import { generateProjections } from '../engine';
+import { WEEKDAY_CODES } from '../rrule';
+import {
+  DateOnly,
+  DetailedProjection,
+  Event,
+  Exception,
+  Schedule,
+} from '../types';
+import {
+  escapeText,
+  formatDateTime,
+  formatUtcDateTime,
+  serializeLines,
+} from './format';
+import { fromWallClock, toWallClock } from '../zones';
+
+export interface ICalendarOptions {
+  /** PRODID of the calendar, defaults to `-//pgcalendar//pgcalendar//EN`. */
+  prodId?: string;
+  /** Right-hand side of generated UIDs, defaults to `pgcalendar`. */
+  uidDomain?: string;
+  /** Display name written as `X-WR-CALNAME`. */
+  calendarName?: string;
+  /** DTSTAMP of every component, defaults to the current time. */
+  now?: Date;
+}
+
+const OPEN_SERIES_YEARS = 2;
+
+export interface ICalendarEventSource {
+  event: Event;
+  schedules: Schedule[];
+  exceptions: Exception[];
+  /** Dates of the holiday sets the schedules use, by `holidaySetId`. */
+  holidays?: Record<number, DateOnly[]>;
+}
+
+// Wall-clock time of `time` placed on `date`
+function atTimeOf(date: DateOnly, time: Date): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, time.getHours(), time.getMinutes(), time.getSeconds());
+}
+
+// Wall-clock time of a projection instant, as a local Date like `atTimeOf`
+function localOf(instant: Date, timeZone: string | null): Date {
+  if (!timeZone) {
+    return instant;
+  }
+  const wall = toWallClock(instant, timeZone);
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hours, wall.minutes, wall.seconds);
+}
+
+// Unbounded series are expanded this far for their exceptions and RDATEs
+function lastExportedDate(schedule: Schedule, exceptions: Exception[]): DateOnly {
+  if (schedule.endDate) {
+    return toDateOnly(schedule.endDate);
+  }
+  const horizon = fromDayNumber(addMonths(toDayNumber(toDateOnly(schedule.startDate)), OPEN_SERIES_YEARS * 12));
+  return exceptions
+    .filter((e) => e.scheduleId === schedule.scheduleId)
+    .map((e) => e.exceptionDate)
+    .reduce((last, date) => (date > last ? date : last), horizon);
+}
+
+// Zoned series must give UNTIL in UTC (RFC 5545, 3.3.10)
+function untilOf(schedule: Schedule & { endDate: Date }): string {
+  const endDate = toDateOnly(schedule.endDate);
+  if (!schedule.timeZone) {
+    return `${endDate.replace(/-/g, '')}T235959`;
+  }
+  const [year, month, day] = endDate.split('-').map(Number);
+  return formatUtcDateTime(fromWallClock(
+    { year, month, day, hours: 23, minutes: 59, seconds: 59, milliseconds: 0 },
+    schedule.timeZone,
+  ));
+}
+
+// A DATE-TIME property, with TZID for zoned wall-clock times
+function dateTime(name: string, value: Date, timeZone: string | null): string {
+  return timeZone
+    ? `${name};TZID=${timeZone}:${formatDateTime(value)}`
+    : `${name}:${formatDateTime(value)}`;
+}
+
+// BY* parts selecting the day of a monthly or yearly schedule within its month
+function monthDayParts(schedule: Schedule): string[] | null {
+  const ordinal = schedule.recurrenceWeekOfMonth;
+  const day = schedule.recurrenceDayOfMonth;
+  const clamp = schedule.missingDayPolicy === 'clamp';
+  if (ordinal !== null) {
+    if (schedule.recurrenceDayOfWeek === null) {
+      return null;
+    }
+    const code = WEEKDAY_CODES[schedule.recurrenceDayOfWeek];
+    if (Math.abs(ordinal) < 5 || schedule.missingDayPolicy === 'skip') {
+      return [`BYDAY=${ordinal}${code}`];
+    }
+    // The 5th weekday when there is one, else the 4th
+    return clamp
+      ? (ordinal > 0 ? [`BYDAY=4${code},5${code}`, 'BYSETPOS=-1'] : [`BYDAY=-5${code},-4${code}`, 'BYSETPOS=1'])
+      : null;
+  }
+  if (day === null) {
+    return null;
+  }
+  if (Math.abs(day) <= 28 || schedule.missingDayPolicy === 'skip') {
+    return [`BYMONTHDAY=${day}`];
+  }
+  // The requested day when the month has it, else the nearest one
+  const days = Array.from({ length: Math.abs(day) - 27 }, (_, i) => (day > 0 ? 28 + i : day + i));
+  return clamp ? [`BYMONTHDAY=${days.join(',')}`, `BYSETPOS=${day > 0 ? -1 : 1}`] : null;
+}
+
+// Business days as the weekdays outside weekendDays, the nth of them picked by BYSETPOS;
+// null when holidays or every nth business day cannot be expressed
+function businessDayParts(schedule: Schedule): string[] | null {
+  const { recurrenceDayOfMonth: nth, recurrenceInterval: interval } = schedule;
+  if (schedule.holidaySetId !== null || (nth === null && interval > 1)) {
+    return null;
+  }
+  // Listed Monday first, in week order
+  const codes = [1, 2, 3, 4, 5, 6, 0].filter((d) => !schedule.weekendDays.includes(d)).map((d) => WEEKDAY_CODES[d]);
+  return nth === null
+    ? ['FREQ=DAILY', `BYDAY=${codes.join(',')}`]
+    : ['FREQ=MONTHLY', ...(interval > 1 ? [`INTERVAL=${interval}`] : []), `BYDAY=${codes.join(',')}`, `BYSETPOS=${nth}`];
+}
+
+/**
+ * Builds the RRULE value for a schedule, or returns null when the
+ * schedule cannot produce occurrences (e.g. a weekly rule without a day)
+ * or no rule can express them (missing days rolled into the next month,
+ * business days around holidays).
+ * Native `rrule` values are exported as they are stored.
+ */
+export function buildRecurrenceRule(schedule: Schedule): string | null {
+  if (schedule.rrule) {
+    // The schedule's end still bounds rules without their own end
+    const end = seriesEnd(schedule);
+    return /(^|;)(UNTIL|COUNT)=/.test(schedule.rrule) || !end
+      ? schedule.rrule
+      : `${schedule.rrule};${end}`;
+  }
+
+  const parts = [`FREQ=${schedule.recurrenceType.toUpperCase()}`];
+  if (schedule.recurrenceInterval > 1) {
+    parts.push(`INTERVAL=${schedule.recurrenceInterval}`);
+  }
+  switch (schedule.recurrenceType) {
+    case 'daily':
+      break;
+    case 'weekly':
+      const days = schedule.recurrenceDaysOfWeek
+        ?? (schedule.recurrenceDayOfWeek === null ? [] : [schedule.recurrenceDayOfWeek]);
+      if (days.length === 0) {
+        return null;
+      }
+      // Listed Monday first, in week order
+      const codes = [...new Set(days)].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map((d) => WEEKDAY_CODES[d]);
+      parts.push(`BYDAY=${codes.join(',')}`);
+      break;
+    case 'monthly':
+    case 'yearly': {
+      if (schedule.recurrenceType === 'yearly') {
+        if (schedule.recurrenceMonth === null) {
+          return null;
+        }
+        parts.push(`BYMONTH=${schedule.recurrenceMonth}`);
+      }
+      const dayParts = monthDayParts(schedule);
+      if (!dayParts) {
+        return null;
+      }
+      parts.push(...dayParts);
+      break;
+    }
+    case 'business_day': {
+      const businessParts = businessDayParts(schedule);
+      if (!businessParts) {
+        return null;
+      }
+      parts.splice(0, parts.length, ...businessParts);
+      break;
+    }
+  }
+  const end = seriesEnd(schedule);
+  if (end) {
+    parts.push(end);
+  }
+  return parts.join(';');
+}
+
+// COUNT or UNTIL ending a series, whichever ends it first; null when unbounded
+function seriesEnd(schedule: Schedule): string | null {
+  const { endDate, occurrenceCount } = schedule;
+  if (occurrenceCount !== null) {
+    const countReached = endDate === null || generateProjections(
+      schedule,
+      [],
+      toDateOnly(schedule.startDate),
+      toDateOnly(endDate),
+    ).length >= occurrenceCount;
+    if (countReached) {
+      return `COUNT=${occurrenceCount}`;
+    }
+  }
+  return endDate ? `UNTIL=${untilOf({ ...schedule, endDate })}` : null;
+}
+
+function describe(event: Event, schedule: Schedule | null): string | null {
+  const text = [event.description, schedule?.description].filter(Boolean).join('\n');
+  return text.length > 0 ? text : null;
+}
+
+function eventProperties(event: Event, description: string | null): string[] {
+  const lines = [`SUMMARY:${escapeText(event.name)}`];
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.category) {
+    lines.push(`CATEGORIES:${escapeText(event.category)}`);
+  }
+  return lines;
+}
+
+function hasOverrides(exception: Exception): boolean {
+  return exception.overrideName !== null
+    || exception.overrideDescription !== null
+    || exception.overrideLocation !== null;
+}
+
+function scheduleComponents(
+  event: Event,
+  schedule: Schedule,
+  exceptions: Exception[],
+  holidays: DateOnly[] | null,
+  stamp: string,
+  uidDomain: string,
+): string[] {
+  const rule = buildRecurrenceRule(schedule);
+  const start = toDateOnly(schedule.startDate);
+  const last = lastExportedDate(schedule, exceptions);
+  // Holidays decide which days are business days; other schedules have them applied afterwards
+  const occurrences = generateProjections(
+    schedule.recurrenceType === 'business_day' ? { ...schedule, holidays } : schedule,
+    [],
+    start,
+    last,
+  );
+  const [first] = occurrences;
+  if (!first) {
+    return [];
+  }
+
+  const uid = `UID:pgcalendar-event-${event.eventId}-schedule-${schedule.scheduleId}@${uidDomain}`;
+  const properties = eventProperties(event, describe(event, schedule));
+  // Exceptions on dates that are not occurrences are ignored by the SQL too
+  const dates = new Set(occurrences.map((p) => p.projectionDate));
+  const applicable = exceptions
+    .filter((e) => e.scheduleId === schedule.scheduleId && dates.has(e.exceptionDate))
+    .sort((a, b) => a.exceptionDate.localeCompare(b.exceptionDate));
+  const cancelled = applicable.filter((e) => e.exceptionType === 'cancelled');
+  // An added occurrence on an occurrence date only changes that occurrence
+  const modified = applicable.filter((e) => e.exceptionType !== 'cancelled');
+  const added = exceptions
+    .filter((e) => e.scheduleId === schedule.scheduleId && e.exceptionType === 'added' && !dates.has(e.exceptionDate))
+    .sort((a, b) => a.exceptionDate.localeCompare(b.exceptionDate));
+  // Added occurrences at other than the schedule's times or with other values also need an override
+  const moved = added.filter((e) => {
+    if (hasOverrides(e)) {
+      return true;
+    }
+    const [own] = generateProjections(schedule, [e], e.exceptionDate, e.exceptionDate);
+    const [usual] = generateProjections(
+      schedule,
+      [{ ...e, modifiedStartTime: null, modifiedEndTime: null }],
+      e.exceptionDate,
+      e.exceptionDate,
+    );
+    return own.startTime.getTime() !== usual.startTime.getTime() || own.endTime.getTime() !== usual.endTime.getTime();
+  });
+  // Occurrences on holidays are skipped or shifted to a business day, unless an exception applies
+  const onHolidays = new Set(schedule.recurrenceType === 'business_day' ? [] : holidays ?? []);
+  const exceptionDates = new Set(applicable.map((e) => e.exceptionDate));
+  const skipped = occurrences
+    .map((p) => p.projectionDate)
+    .filter((date) => onHolidays.has(date) && !exceptionDates.has(date));
+  const shifted = onHolidays.size === 0 ? [] : generateProjections({ ...schedule, holidays }, applicable, start, last)
+    .filter((p) => p.status === 'shifted')
+    .map((p) => p.projectionDate);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    uid,
+    `DTSTAMP:${stamp}`,
+    dateTime('DTSTART', localOf(first.startTime, schedule.timeZone), schedule.timeZone),
+    dateTime('DTEND', localOf(first.endTime, schedule.timeZone), schedule.timeZone),
+  ];
+  if (rule) {
+    lines.push(`RRULE:${rule}`);
+  }
+  // Occurrences no rule can express are listed one by one, like added ones
+  const rdates = [...new Set([
+    ...(rule ? [] : occurrences.slice(1).map((p) => p.projectionDate)),
+    ...added.map((e) => e.exceptionDate),
+    ...shifted,
+  ])].sort().map((date) => atTimeOf(date, schedule.startDate));
+  if (rdates.length > 0) {
+    lines.push(dateTime('RDATE', rdates[0], schedule.timeZone)
+      + rdates.slice(1).map((rdate) => `,${formatDateTime(rdate)}`).join(''));
+  }
+  const exdates = [...cancelled.map((e) => e.exceptionDate), ...skipped]
+    .sort()
+    .map((date) => atTimeOf(date, schedule.startDate));
+  if (exdates.length > 0) {
+    lines.push(dateTime('EXDATE', exdates[0], schedule.timeZone)
+      + exdates.slice(1).map((exdate) => `,${formatDateTime(exdate)}`).join(''));
+  }
+  lines.push(...properties, 'END:VEVENT');
+
+  const overrides = [...modified, ...moved].sort((a, b) => a.exceptionDate.localeCompare(b.exceptionDate));
+  for (const exception of overrides) {
+    const [override] = generateProjections(schedule, [exception], exception.exceptionDate, exception.exceptionDate);
+    const occurrence: Event = {
+      ...event,
+      name: exception.overrideName ?? event.name,
+      description: exception.overrideDescription ?? event.description,
+      location: exception.overrideLocation ?? event.location,
+    };
+    lines.push(
+      'BEGIN:VEVENT',
+      uid,
+      `DTSTAMP:${stamp}`,
+      dateTime('RECURRENCE-ID', atTimeOf(exception.exceptionDate, schedule.startDate), schedule.timeZone),
+      dateTime('DTSTART', localOf(override.startTime, schedule.timeZone), schedule.timeZone),
+      dateTime('DTEND', localOf(override.endTime, schedule.timeZone), schedule.timeZone),
+      ...(hasOverrides(exception) ? eventProperties(occurrence, describe(occurrence, schedule)) : properties),
+    );
+    if (exception.notes) {
+      lines.push(`COMMENT:${escapeText(exception.notes)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  return lines;
+}
+
+function calendar(components: string[], options: ICalendarOptions): string {
+  const header = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${options.prodId ?? '-//pgcalendar//pgcalendar//EN'}`,
+    'CALSCALE:GREGORIAN',
+  ];
+  if (options.calendarName) {
+    header.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+  return serializeLines([...header, ...components, 'END:VCALENDAR']);
+}
+
+/**
+ * Exports events as recurring VEVENTs: one per schedule with an RRULE,
+ * EXDATE for cancelled occurrences, RDATE for added ones and an
+ * overriding VEVENT with RECURRENCE-ID for every modified occurrence.
+ * Occurrences skipped for a holiday are excluded with EXDATE; shifted
+ * ones are excluded and listed on their business day with RDATE.
+ *
+ * Times are written as floating local times, like the `TIMESTAMP`
+ * columns they come from, with a TZID for schedules that have a time zone.
+ * No VTIMEZONE components are emitted; the TZID is the IANA name.
+ */
+export function eventsToICalendar(
+  sources: ICalendarEventSource[],
+  options: ICalendarOptions = {},
+): string {
+  const stamp = formatUtcDateTime(options.now ?? new Date());
+  const uidDomain = options.uidDomain ?? 'pgcalendar';
+  const components = sources.flatMap(({ event, schedules, exceptions, holidays }) =>
+    schedules.flatMap((schedule) => {
+      const holidayDates = schedule.holidaySetId === null ? null : holidays?.[schedule.holidaySetId] ?? [];
+      return scheduleComponents(event, schedule, exceptions, holidayDates, stamp, uidDomain);
+    }),
+  );
+  return calendar(components, options);
+}
+
+// FNV-1a, used to derive stable UIDs for flattened projections
+function hash(value: string): string {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return (result >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Exports projections (e.g. rows of `get_events_detailed`) as one
+ * standalone VEVENT each, without recurrence rules.
+ */
+export function projectionsToICalendar(
+  projections: DetailedProjection[],
+  options: ICalendarOptions = {},
+): string {
+  const stamp = formatUtcDateTime(options.now ?? new Date());
+  const uidDomain = options.uidDomain ?? 'pgcalendar';
+  const seen = new Map<string, number>();
+
+  const components = projections.flatMap((projection) => {
+    const key = hash(`${projection.eventName}\n${projection.scheduleDescription ?? ''}`)
+      + `-${formatDateTime(projection.startTime)}`;
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+
+    const description = [projection.eventDescription, projection.scheduleDescription]
+      .filter(Boolean)
+      .join('\n');
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:pgcalendar-${key}${count > 1 ? `-${count}` : ''}@${uidDomain}`,
+      `DTSTAMP:${stamp}`,
+      dateTime('DTSTART', projection.localStartTime, projection.timeZone),
+      dateTime('DTEND', projection.localEndTime, projection.timeZone),
+      `SUMMARY:${escapeText(projection.eventName)}`,
+    ];
+    if (description) {
+      lines.push(`DESCRIPTION:${escapeText(description)}`);
+    }
+    if (projection.location) {
+      lines.push(`LOCATION:${escapeText(projection.location)}`);
+    }
+    if (projection.eventCategory) {
+      lines.push(`CATEGORIES:${escapeText(projection.eventCategory)}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+  });
+
+  return calendar(components, options);
+}
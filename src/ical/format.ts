@@ -0,0 +1,54 @@
+// RFC 5545 content-line helpers shared by the iCalendar export and import
+
+export const CRLF = '\r\n';
+
+const MAX_LINE_OCTETS = 75;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/** Escapes a TEXT property value. */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line so that no line exceeds 75 octets. */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+/** Formats a local wall-clock time as a floating DATE-TIME (`19980118T230000`). */
+export function formatDateTime(value: Date): string {
+  return `${pad(value.getFullYear(), 4)}${pad(value.getMonth() + 1)}${pad(value.getDate())}`
+    + `T${pad(value.getHours())}${pad(value.getMinutes())}${pad(value.getSeconds())}`;
+}
+
+/** Formats an instant as a UTC DATE-TIME (`19980118T230000Z`). */
+export function formatUtcDateTime(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Joins content lines into a CRLF-terminated, folded iCalendar stream. */
+export function serializeLines(lines: string[]): string {
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
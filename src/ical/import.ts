@@ -0,0 +1,519 @@
+// iCalendar (RFC 5545) import into events, schedules and exceptions
+
+import { PoolClient } from 'pg';
+import { expandRRule, parseRRule, RRule, RRuleError } from '../rrule';
+import { DateOnly, ExceptionType, RecurrenceType } from '../types';
+import { fromWallClock, isValidTimeZone, toWallClock } from '../zones';
+import {
+  getProperties,
+  getProperty,
+  ICalendarComponent,
+  ICalendarDateTime,
+  ICalendarProperty,
+  parseDateTime,
+  parseDateTimeList,
+  parseDuration,
+  parseICalendar,
+  unescapeText,
+} from './parse';
+
+export interface ICalendarImportOptions {
+  /**
+   * `end_date` for series without UNTIL or COUNT. By default they are
+   * imported as unbounded schedules.
+   */
+  openEndDate?: DateOnly | null;
+}
+
+/**
+ * Something in the source that could not be represented. `skipped` means
+ * the schedule (or component) was not imported; `ignored` means only the
+ * named property was dropped.
+ */
+export interface ICalendarImportIssue {
+  uid: string | null;
+  summary: string | null;
+  property: string;
+  reason: string;
+  action: 'skipped' | 'ignored';
+}
+
+export interface ICalendarImportedEvent {
+  uid: string;
+  eventId: number;
+  scheduleId: number | null;
+  created: boolean;
+  exceptions: number;
+}
+
+export interface ICalendarImportReport {
+  events: ICalendarImportedEvent[];
+  issues: ICalendarImportIssue[];
+}
+
+interface PlannedSchedule {
+  startDate: string;
+  endDate: string | null;
+  durationMinutes: number | null;
+  recurrenceType: RecurrenceType;
+  recurrenceInterval: number;
+  recurrenceDayOfWeek: number | null;
+  recurrenceDayOfMonth: number | null;
+  recurrenceMonth: number | null;
+  rrule: string | null;
+  timeZone: string | null;
+}
+
+interface PlannedException {
+  exceptionDate: DateOnly;
+  exceptionType: ExceptionType;
+  modifiedDate: DateOnly | null;
+  modifiedStartTime: string | null;
+  modifiedEndTime: string | null;
+  overrideName: string | null;
+  overrideDescription: string | null;
+  overrideLocation: string | null;
+}
+
+interface ImportPlan {
+  uid: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  location: string | null;
+  schedule: PlannedSchedule | null;
+  exceptions: PlannedException[];
+}
+
+const SECONDS_PER_DAY = 86400;
+
+const NO_OVERRIDES = { overrideName: null, overrideDescription: null, overrideLocation: null };
+
+// Far enough for COUNT rules to reach their last occurrence
+const COUNT_SEARCH_END = '2999-12-31';
+
+function secondsOf(time: string): number {
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+function timeOf(seconds: number): string {
+  return [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+}
+
+function addDays(date: DateOnly, days: number): DateOnly {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Start plus a duration, as a `YYYY-MM-DD HH:MM:SS` timestamp
+function shift(start: ICalendarDateTime, seconds: number): string {
+  const total = secondsOf(start.time ?? '00:00:00') + seconds;
+  const days = Math.floor(total / SECONDS_PER_DAY);
+  return `${addDays(start.date, days)} ${timeOf(total - days * SECONDS_PER_DAY)}`;
+}
+
+function zoneOf(value: ICalendarDateTime): string | null {
+  if (value.utc) {
+    return 'UTC';
+  }
+  return value.tzid && isValidTimeZone(value.tzid) ? value.tzid : null;
+}
+
+// The same instant as wall-clock time in `timeZone`; floating values are kept
+function inZone(value: ICalendarDateTime, timeZone: string | null): ICalendarDateTime {
+  const source = zoneOf(value);
+  if (value.time === null || !timeZone || !source || source === timeZone) {
+    return value;
+  }
+  const [year, month, day] = value.date.split('-').map(Number);
+  const [hours, minutes, seconds] = value.time.split(':').map(Number);
+  const wall = toWallClock(
+    fromWallClock({ year, month, day, hours, minutes, seconds, milliseconds: 0 }, source),
+    timeZone,
+  );
+  return {
+    date: new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).toISOString().slice(0, 10),
+    time: timeOf(wall.hours * 3600 + wall.minutes * 60 + wall.seconds),
+    utc: timeZone === 'UTC',
+    tzid: timeZone,
+  };
+}
+
+function text(component: ICalendarComponent, name: string): string | null {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : null;
+}
+
+// An override's value when it differs from the recurring VEVENT's, else null
+function changed(override: ICalendarComponent, name: string, value: string | null): string | null {
+  const own = text(override, name);
+  return own !== null && own !== value ? own : null;
+}
+
+function durationOf(component: ICalendarComponent, start: ICalendarDateTime): number {
+  const end = getProperty(component, 'DTEND');
+  if (end) {
+    const value = parseDateTime(end.value, end.params);
+    const days = (Date.parse(value.date) - Date.parse(start.date)) / 1000;
+    return days + secondsOf(value.time ?? '00:00:00') - secondsOf(start.time ?? '00:00:00');
+  }
+  const duration = getProperty(component, 'DURATION');
+  if (duration) {
+    return parseDuration(duration.value);
+  }
+  return start.time === null ? SECONDS_PER_DAY : 0;
+}
+
+function planEvent(
+  master: ICalendarComponent,
+  overrides: ICalendarComponent[],
+  options: Required<ICalendarImportOptions>,
+  issues: ICalendarImportIssue[],
+): ImportPlan | null {
+  const uid = text(master, 'UID');
+  const summary = text(master, 'SUMMARY');
+  const issue = (property: string, reason: string, action: ICalendarImportIssue['action']) =>
+    issues.push({ uid, summary, property, reason, action });
+
+  if (!uid) {
+    issue('UID', 'VEVENT without UID cannot be matched on re-import', 'skipped');
+    return null;
+  }
+  const categories = getProperty(master, 'CATEGORIES');
+  const plan: ImportPlan = {
+    uid,
+    name: summary ?? uid,
+    description: text(master, 'DESCRIPTION'),
+    category: categories ? unescapeText(categories.value.split(/(?<!\\),/)[0]) : null,
+    location: text(master, 'LOCATION'),
+    schedule: null,
+    exceptions: [],
+  };
+
+  const dtstart = getProperty(master, 'DTSTART');
+  if (!dtstart) {
+    issue('DTSTART', 'VEVENT without DTSTART has no occurrences', 'skipped');
+    return plan;
+  }
+  const start = parseDateTime(dtstart.value, dtstart.params);
+  const timeZone = start.time === null ? null : zoneOf(start);
+  if (start.tzid && !isValidTimeZone(start.tzid)) {
+    issue('DTSTART', `unknown time zone ${start.tzid}, the wall-clock time was kept`, 'ignored');
+  }
+
+  // Occurrences ending on the start day keep their end time in end_date,
+  // later ones carry their length in duration_minutes
+  const duration = durationOf(master, start);
+  const startSeconds = secondsOf(start.time ?? '00:00:00');
+  let endSeconds = startSeconds + duration;
+  if (start.time === null && duration === SECONDS_PER_DAY) {
+    endSeconds = SECONDS_PER_DAY - 1;
+  }
+  if (duration < 0) {
+    issue('DTEND', 'occurrences ending before they start cannot be represented', 'skipped');
+    return plan;
+  }
+  const startTime = timeOf(startSeconds);
+  const endTime = timeOf(endSeconds % SECONDS_PER_DAY);
+  const spansDays = endSeconds >= SECONDS_PER_DAY;
+
+  if (getProperty(master, 'EXRULE')) {
+    issue('EXRULE', 'EXRULE is not supported', 'ignored');
+  }
+
+  const rrule = getProperty(master, 'RRULE');
+  if (!rrule) {
+    plan.schedule = {
+      startDate: `${start.date} ${startTime}`,
+      endDate: `${start.date} ${endTime}`,
+      durationMinutes: spansDays ? Math.round(duration / 60) : null,
+      recurrenceType: 'daily',
+      recurrenceInterval: 1,
+      recurrenceDayOfWeek: null,
+      recurrenceDayOfMonth: null,
+      recurrenceMonth: null,
+      rrule: null,
+      timeZone,
+    };
+  } else {
+    // Recurring events keep their rule as a native RRULE
+    let rule: RRule;
+    try {
+      rule = parseRRule(rrule.value);
+    } catch (error) {
+      if (error instanceof RRuleError) {
+        issue(error.part ? `RRULE:${error.part}` : 'RRULE', error.message, 'skipped');
+        return plan;
+      }
+      throw error;
+    }
+
+    let lastDate = rule.until ?? options.openEndDate;
+    if (rule.count !== null) {
+      const occurrences = expandRRule(rule, start.date, options.openEndDate ?? COUNT_SEARCH_END);
+      lastDate = occurrences[occurrences.length - 1] ?? start.date;
+    } else if (!rule.until && lastDate) {
+      issue('RRULE', `open-ended series end on ${lastDate}`, 'ignored');
+    }
+    plan.schedule = {
+      startDate: `${start.date} ${startTime}`,
+      // Unbounded series carry the occurrence length separately
+      endDate: lastDate ? `${lastDate} ${endTime}` : null,
+      durationMinutes: lastDate && !spansDays ? null : Math.round(duration / 60),
+      recurrenceType: rule.freq,
+      recurrenceInterval: rule.interval,
+      recurrenceDayOfWeek: null,
+      recurrenceDayOfMonth: null,
+      recurrenceMonth: null,
+      rrule: rrule.value,
+      timeZone,
+    };
+  }
+
+  const exceptions = new Map<DateOnly, PlannedException>();
+  // RDATEs become added occurrences, at their own time when it is not the series'
+  for (const property of getProperties(master, 'RDATE')) {
+    if (property.params.VALUE?.toUpperCase() === 'PERIOD') {
+      issue('RDATE', 'RDATE periods are not supported', 'ignored');
+      continue;
+    }
+    for (const value of parseDateTimeList(property).map((rdate) => inZone(rdate, timeZone))) {
+      const own = value.time !== null && value.time !== startTime;
+      exceptions.set(value.date, {
+        exceptionDate: value.date,
+        exceptionType: 'added',
+        modifiedDate: null,
+        modifiedStartTime: own ? shift(value, 0) : null,
+        modifiedEndTime: own ? shift(value, duration) : null,
+        ...NO_OVERRIDES,
+      });
+    }
+  }
+  // EXDATE wins over RDATE (RFC 5545, 3.8.5.1)
+  for (const property of getProperties(master, 'EXDATE')) {
+    for (const value of parseDateTimeList(property).map((exdate) => inZone(exdate, timeZone))) {
+      exceptions.set(value.date, {
+        exceptionDate: value.date,
+        exceptionType: 'cancelled',
+        modifiedDate: null,
+        modifiedStartTime: null,
+        modifiedEndTime: null,
+        ...NO_OVERRIDES,
+      });
+    }
+  }
+  for (const override of overrides) {
+    const recurrenceId = getProperty(override, 'RECURRENCE-ID') as ICalendarProperty;
+    const original = inZone(parseDateTime(recurrenceId.value, recurrenceId.params), timeZone);
+    if (recurrenceId.params.RANGE) {
+      issue('RECURRENCE-ID', 'RANGE=THISANDFUTURE is not supported, only one occurrence was changed', 'ignored');
+    }
+    if (text(override, 'STATUS')?.toUpperCase() === 'CANCELLED') {
+      exceptions.set(original.date, {
+        exceptionDate: original.date,
+        exceptionType: 'cancelled',
+        modifiedDate: null,
+        modifiedStartTime: null,
+        modifiedEndTime: null,
+        ...NO_OVERRIDES,
+      });
+      continue;
+    }
+    const moved = getProperty(override, 'DTSTART');
+    const movedStart = moved ? inZone(parseDateTime(moved.value, moved.params), timeZone) : original;
+    const movedDuration = getProperty(override, 'DTEND') || getProperty(override, 'DURATION')
+      ? durationOf(override, movedStart)
+      : duration;
+    const values = {
+      overrideName: changed(override, 'SUMMARY', plan.name),
+      overrideDescription: changed(override, 'DESCRIPTION', plan.description),
+      overrideLocation: changed(override, 'LOCATION', plan.location),
+    };
+    if (exceptions.get(original.date)?.exceptionType === 'added') {
+      // Added occurrences cannot be moved, they are added on the new date instead
+      exceptions.delete(original.date);
+      exceptions.set(movedStart.date, {
+        exceptionDate: movedStart.date,
+        exceptionType: 'added',
+        modifiedDate: null,
+        modifiedStartTime: shift(movedStart, 0),
+        modifiedEndTime: shift(movedStart, movedDuration),
+        ...values,
+      });
+      continue;
+    }
+    exceptions.set(original.date, {
+      exceptionDate: original.date,
+      exceptionType: 'modified',
+      modifiedDate: movedStart.date !== original.date ? movedStart.date : null,
+      modifiedStartTime: shift(movedStart, 0),
+      modifiedEndTime: shift(movedStart, movedDuration),
+      ...values,
+    });
+  }
+  plan.exceptions = [...exceptions.values()];
+
+  return plan;
+}
+
+/** Turns an iCalendar stream into import plans, collecting issues. */
+function planImport(
+  source: string,
+  options: Required<ICalendarImportOptions>,
+  issues: ICalendarImportIssue[],
+): ImportPlan[] {
+  const vevents = parseICalendar(source)
+    .flatMap((component) => (component.name === 'VCALENDAR' ? component.components : [component]))
+    .filter((component) => component.name === 'VEVENT');
+
+  const masters = vevents.filter((vevent) => !getProperty(vevent, 'RECURRENCE-ID'));
+  const overrides = vevents.filter((vevent) => getProperty(vevent, 'RECURRENCE-ID'));
+  const plans: ImportPlan[] = [];
+
+  for (const master of masters) {
+    const uid = text(master, 'UID');
+    const plan = planEvent(master, overrides.filter((o) => text(o, 'UID') === uid), options, issues);
+    if (plan) {
+      plans.push(plan);
+    }
+  }
+  const masterUids = new Set(masters.map((master) => text(master, 'UID')));
+  for (const orphan of overrides.filter((o) => !masterUids.has(text(o, 'UID')))) {
+    issues.push({
+      uid: text(orphan, 'UID'),
+      summary: text(orphan, 'SUMMARY'),
+      property: 'RECURRENCE-ID',
+      reason: 'override without a matching recurring VEVENT',
+      action: 'skipped',
+    });
+  }
+  return plans;
+}
+
+/**
+ * Imports an iCalendar stream using `db`, which must already be inside a
+ * transaction. Events are matched on `metadata->>'ical_uid'`, so
+ * importing the same file again updates the events it created earlier
+ * and replaces their imported schedules. Schedules rejected by the
+ * overlap trigger are reported as issues.
+ */
+export async function importICalendar(
+  db: PoolClient,
+  source: string,
+  options: ICalendarImportOptions = {},
+): Promise<ICalendarImportReport> {
+  const issues: ICalendarImportIssue[] = [];
+  const plans = planImport(source, { openEndDate: null, ...options }, issues);
+  const events: ICalendarImportedEvent[] = [];
+
+  for (const plan of plans) {
+    const metadata = { ical_uid: plan.uid };
+    const existing = await db.query<{ event_id: number }>(
+      `SELECT event_id FROM pgcalendar.events WHERE metadata->>'ical_uid' = $1 FOR UPDATE`,
+      [plan.uid],
+    );
+
+    let eventId: number;
+    if (existing.rows.length > 0) {
+      eventId = existing.rows[0].event_id;
+      await db.query(
+        `UPDATE pgcalendar.events
+         SET name = $2, description = $3, category = $4, location = $5, metadata = metadata || $6::jsonb
+         WHERE event_id = $1`,
+        [eventId, plan.name, plan.description, plan.category, plan.location, metadata],
+      );
+      await db.query(
+        `DELETE FROM pgcalendar.schedules WHERE event_id = $1 AND metadata->>'ical_uid' = $2`,
+        [eventId, plan.uid],
+      );
+    } else {
+      const inserted = await db.query<{ event_id: number }>(
+        `INSERT INTO pgcalendar.events (name, description, category, location, metadata)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING event_id`,
+        [plan.name, plan.description, plan.category, plan.location, metadata],
+      );
+      eventId = inserted.rows[0].event_id;
+    }
+
+    const imported: ICalendarImportedEvent = {
+      uid: plan.uid,
+      eventId,
+      scheduleId: null,
+      created: existing.rows.length === 0,
+      exceptions: 0,
+    };
+    events.push(imported);
+    if (!plan.schedule) {
+      continue;
+    }
+
+    const schedule = plan.schedule;
+    await db.query('SAVEPOINT pgcalendar_ical_schedule');
+    try {
+      const inserted = await db.query<{ schedule_id: number }>(
+        `INSERT INTO pgcalendar.schedules
+         (event_id, start_date, end_date, recurrence_type, recurrence_interval,
+          recurrence_day_of_week, recurrence_day_of_month, recurrence_month, rrule, time_zone, metadata,
+          duration_minutes)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         RETURNING schedule_id`,
+        [
+          eventId,
+          schedule.startDate,
+          schedule.endDate,
+          schedule.recurrenceType,
+          schedule.recurrenceInterval,
+          schedule.recurrenceDayOfWeek,
+          schedule.recurrenceDayOfMonth,
+          schedule.recurrenceMonth,
+          schedule.rrule,
+          schedule.timeZone,
+          metadata,
+          schedule.durationMinutes,
+        ],
+      );
+      await db.query('RELEASE SAVEPOINT pgcalendar_ical_schedule');
+      imported.scheduleId = inserted.rows[0].schedule_id;
+    } catch (error) {
+      await db.query('ROLLBACK TO SAVEPOINT pgcalendar_ical_schedule');
+      if (!/overlap/i.test((error as Error).message)) {
+        throw error;
+      }
+      issues.push({
+        uid: plan.uid,
+        summary: plan.name,
+        property: 'DTSTART',
+        reason: (error as Error).message,
+        action: 'skipped',
+      });
+      continue;
+    }
+
+    for (const exception of plan.exceptions) {
+      await db.query(
+        `INSERT INTO pgcalendar.exceptions
+         (schedule_id, exception_date, exception_type, modified_date, modified_start_time, modified_end_time,
+          override_name, override_description, override_location)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          imported.scheduleId,
+          exception.exceptionDate,
+          exception.exceptionType,
+          exception.modifiedDate,
+          exception.modifiedStartTime,
+          exception.modifiedEndTime,
+          exception.overrideName,
+          exception.overrideDescription,
+          exception.overrideLocation,
+        ],
+      );
+      imported.exceptions++;
+    }
+  }
+
+  return { events, issues };
+}
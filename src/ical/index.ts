@@ -0,0 +1,15 @@
+export {
+  buildRecurrenceRule,
+  eventsToICalendar,
+  projectionsToICalendar,
+} from './export';
+export type { ICalendarOptions, ICalendarEventSource } from './export';
+export { importICalendar } from './import';
+export type {
+  ICalendarImportOptions,
+  ICalendarImportIssue,
+  ICalendarImportedEvent,
+  ICalendarImportReport,
+} from './import';
+export { parseICalendar, ICalendarParseError } from './parse';
+export type { ICalendarComponent, ICalendarProperty } from './parse';
@@ -0,0 +1,147 @@
+// Minimal RFC 5545 parser: content lines, parameters and nested components
+
+export interface ICalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalendarComponent {
+  name: string;
+  properties: ICalendarProperty[];
+  components: ICalendarComponent[];
+}
+
+/** Parsed DATE or DATE-TIME value. `time` is null for all-day (DATE) values. */
+export interface ICalendarDateTime {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM:SS
+  utc: boolean;
+  tzid: string | null;
+}
+
+export class ICalendarParseError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line !== undefined ? `${message} (line ${line})` : message);
+    this.name = 'ICalendarParseError';
+  }
+}
+
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+function parseContentLine(line: string, lineNumber: number): ICalendarProperty {
+  let index = 0;
+  let quoted = false;
+  const segments: string[] = [];
+  let current = '';
+
+  // Split on ';' and the first unquoted ':' while respecting quoted params
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      quoted = !quoted;
+      current += char;
+    } else if (!quoted && char === ';') {
+      segments.push(current);
+      current = '';
+    } else if (!quoted && char === ':') {
+      break;
+    } else {
+      current += char;
+    }
+  }
+  if (index >= line.length) {
+    throw new ICalendarParseError(`Malformed content line "${line}"`, lineNumber);
+  }
+  segments.push(current);
+
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const separator = param.indexOf('=');
+    if (separator < 0) {
+      throw new ICalendarParseError(`Malformed parameter "${param}"`, lineNumber);
+    }
+    params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+/** Parses an iCalendar stream into its top-level components. */
+export function parseICalendar(source: string): ICalendarComponent[] {
+  const lines = source.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const roots: ICalendarComponent[] = [];
+  const stack: ICalendarComponent[] = [];
+
+  lines.forEach((line, i) => {
+    if (line.trim() === '') {
+      return;
+    }
+    const property = parseContentLine(line, i + 1);
+    if (property.name === 'BEGIN') {
+      const component = { name: property.value.toUpperCase(), properties: [], components: [] };
+      (stack.length > 0 ? stack[stack.length - 1].components : roots).push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const component = stack.pop();
+      if (!component || component.name !== property.value.toUpperCase()) {
+        throw new ICalendarParseError(`Unexpected END:${property.value}`, i + 1);
+      }
+    } else if (stack.length === 0) {
+      throw new ICalendarParseError(`Property ${property.name} outside of a component`, i + 1);
+    } else {
+      stack[stack.length - 1].properties.push(property);
+    }
+  });
+
+  if (stack.length > 0) {
+    throw new ICalendarParseError(`Missing END:${stack[stack.length - 1].name}`);
+  }
+  return roots;
+}
+
+export function getProperty(component: ICalendarComponent, name: string): ICalendarProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+export function getProperties(component: ICalendarComponent, name: string): ICalendarProperty[] {
+  return component.properties.filter((property) => property.name === name);
+}
+
+/** Reverses TEXT escaping. */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+export function parseDateTime(value: string, params: Record<string, string> = {}): ICalendarDateTime {
+  const match = DATE_TIME_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new ICalendarParseError(`Invalid date-time "${value}"`);
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  return {
+    date: `${year}-${month}-${day}`,
+    time: hours !== undefined ? `${hours}:${minutes}:${seconds}` : null,
+    utc: utc === 'Z',
+    tzid: params.TZID ?? null,
+  };
+}
+
+/** Parses a comma-separated list of dates (EXDATE, RDATE). */
+export function parseDateTimeList(property: ICalendarProperty): ICalendarDateTime[] {
+  return property.value.split(',').map((value) => parseDateTime(value, property.params));
+}
+
+/** Parses a DURATION value into seconds. */
+export function parseDuration(value: string): number {
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new ICalendarParseError(`Invalid duration "${value}"`);
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part ?? '0');
+  const total = Number(weeks) * 604800 + Number(days) * 86400
+    + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  return sign === '-' ? -total : total;
+}
@@ -0,0 +1,18 @@
+export { PgCalendarClient } from './client';
+export { ChangeSubscriber, CHANGE_CHANNEL } from './changes';
+export type { ChangeSubscriberOptions } from './changes';
+export { ReminderWorker } from './reminders';
+export type { ReminderBatch, ReminderSender, ReminderWorkerOptions } from './reminders';
+export { parseHolidays, HolidayParseError } from './holidays';
+export type { HolidayParseOptions } from './holidays';
+export { toDateOnly, parseDateOnly } from './dates';
+export {
+  generateProjections,
+  shouldGenerateProjection,
+  getNextRecurrenceDate,
+} from './engine';
+export type { EngineSchedule, EngineException } from './engine';
+export { parseRRule, expandRRule, RRuleError } from './rrule';
+export type { RRule, RRuleWeekday } from './rrule';
+export * from './ical';
+export * from './types';
@@ -0,0 +1,132 @@
+// Worker delivering due reminders
+
+import { Pool } from 'pg';
+import { calendarTypes } from './dates';
+import { DueReminderRow, toDueReminder } from './rows';
+import { DueReminder } from './types';
+
+/** Delivers one reminder; a rejection leaves it queued for another attempt. */
+export type ReminderSender = (reminder: DueReminder) => Promise<void>;
+
+export interface ReminderWorkerOptions {
+  /** Reminders claimed per transaction. Default 10. */
+  batchSize?: number;
+  /** Delay between polls once no reminders are due. Default 30000. */
+  pollIntervalMs?: number;
+  /** Clock used for due times, e.g. to replay a past moment. Default `() => new Date()`. */
+  now?: () => Date;
+  /** Called with failed deliveries and failed polls; the worker keeps running. */
+  onError?: (error: Error, reminder?: DueReminder) => void;
+}
+
+export interface ReminderBatch {
+  claimed: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Queues the reminders that are due and delivers them through `sender`.
+ * Claimed reminders stay locked until their outcome is recorded, so any
+ * number of workers can run against the same database.
+ */
+export class ReminderWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private started = false;
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly sender: ReminderSender,
+    private readonly options: ReminderWorkerOptions = {},
+  ) {}
+
+  /** Queues the due reminders, then claims and sends batches until none are left. */
+  async runOnce(): Promise<ReminderBatch> {
+    const now = (this.options.now ?? (() => new Date()))();
+    await this.pool.query('SELECT pgcalendar.queue_due_reminders($1)', [now]);
+
+    const total: ReminderBatch = { claimed: 0, sent: 0, failed: 0 };
+    for (;;) {
+      const batch = await this.deliverBatch(now);
+      total.claimed += batch.claimed;
+      total.sent += batch.sent;
+      total.failed += batch.failed;
+      // Failed reminders would be claimed again right away
+      if (batch.claimed < (this.options.batchSize ?? 10) || batch.sent === 0) {
+        return total;
+      }
+    }
+  }
+
+  /** Polls every `pollIntervalMs` until `stop` is called. */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.poll();
+  }
+
+  /** Stops polling and waits for the batch in progress. */
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  private poll(): void {
+    this.running = this.runOnce()
+      .then(() => undefined, (error: Error) => this.options.onError?.(error))
+      .finally(() => {
+        this.running = null;
+        if (this.started) {
+          this.timer = setTimeout(() => this.poll(), this.options.pollIntervalMs ?? 30000);
+        }
+      });
+  }
+
+  private async deliverBatch(now: Date): Promise<ReminderBatch> {
+    const db = await this.pool.connect();
+    const batch: ReminderBatch = { claimed: 0, sent: 0, failed: 0 };
+    try {
+      await db.query('BEGIN');
+      const result = await db.query<DueReminderRow>({
+        text: 'SELECT * FROM pgcalendar.claim_due_reminders($1, $2)',
+        values: [now, this.options.batchSize ?? 10],
+        types: calendarTypes,
+      });
+      batch.claimed = result.rows.length;
+
+      for (const reminder of result.rows.map(toDueReminder)) {
+        let error: Error | null = null;
+        try {
+          await this.sender(reminder);
+        } catch (caught) {
+          error = caught instanceof Error ? caught : new Error(String(caught));
+          this.options.onError?.(error, reminder);
+        }
+        await db.query(
+          'SELECT pgcalendar.record_reminder_delivery($1, $2, $3::date, $4, $5)',
+          [reminder.reminderId, reminder.scheduleId, reminder.occurrenceDate, reminder.startTime, error?.message ?? null],
+        );
+        if (error) {
+          batch.failed += 1;
+        } else {
+          batch.sent += 1;
+        }
+      }
+
+      await db.query('COMMIT');
+      return batch;
+    } catch (error) {
+      await db.query('ROLLBACK');
+      throw error;
+    } finally {
+      db.release();
+    }
+  }
+}
@@ -0,0 +1,543 @@
+// Mapping between pgcalendar table rows and the public client types
+
+import {
+  Attendee,
+  AuditEntry,
+  AuditTable,
+  BusyInterval,
+  CalendarChange,
+  ChangeEntity,
+  ChangeOperation,
+  Conflict,
+  DateOnly,
+  DetailedProjection,
+  DueReminder,
+  Event,
+  Exception,
+  ExceptionType,
+  Holiday,
+  HolidayPolicy,
+  HolidaySet,
+  Metadata,
+  MissingDayPolicy,
+  OverridableField,
+  Participant,
+  Projection,
+  ProjectionStatus,
+  QueriedProjection,
+  RecurrenceType,
+  Reminder,
+  Resource,
+  RsvpResponse,
+  Schedule,
+} from './types';
+
+// Rows as the driver returns them with `calendarTypes`: DATE columns as
+// strings, TIMESTAMP columns as `Date`s. Object types rather than interfaces,
+// which the driver's `QueryResultRow` constraint does not accept.
+
+export type EventRow = {
+  event_id: number;
+  name: string;
+  description: string | null;
+  category: string | null;
+  location: string | null;
+  priority: number | null;
+  status: string | null;
+  tenant_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+  metadata: Metadata | null;
+};
+
+export type ScheduleRow = {
+  schedule_id: number;
+  event_id: number;
+  description: string | null;
+  start_date: Date;
+  end_date: Date | null;
+  recurrence_type: RecurrenceType;
+  recurrence_interval: number;
+  recurrence_day_of_week: number | null;
+  recurrence_days_of_week: number[] | null;
+  recurrence_day_of_month: number | null;
+  recurrence_month: number | null;
+  recurrence_week_of_month: number | null;
+  missing_day_policy: MissingDayPolicy;
+  rrule: string | null;
+  time_zone: string | null;
+  occurrence_count: number | null;
+  duration_minutes: number | null;
+  occurrence_end_time: string | null;
+  weekend_days: number[];
+  holiday_set_id: number | null;
+  holiday_policy: HolidayPolicy;
+  created_at: Date;
+  updated_at: Date;
+  metadata: Metadata | null;
+};
+
+export type ExceptionRow = {
+  exception_id: number;
+  schedule_id: number;
+  exception_date: DateOnly;
+  exception_type: ExceptionType;
+  modified_date: DateOnly | null;
+  modified_start_time: Date | null;
+  modified_end_time: Date | null;
+  notes: string | null;
+  override_name: string | null;
+  override_description: string | null;
+  override_location: string | null;
+  override_metadata: Metadata | null;
+  created_at: Date;
+  metadata: Metadata | null;
+};
+
+export type ParticipantRow = {
+  participant_id: number;
+  name: string;
+  email: string | null;
+  tenant_id: string | null;
+  created_at: Date;
+  metadata: Metadata | null;
+};
+
+export type AttendeeRow = {
+  attendee_id: number;
+  event_id: number;
+  participant_id: number;
+  response: RsvpResponse | null;
+  created_at: Date;
+  metadata: Metadata | null;
+};
+
+export type ResourceRow = {
+  resource_id: number;
+  name: string;
+  exclusive: boolean;
+  tenant_id: string | null;
+  created_at: Date;
+  metadata: Metadata | null;
+};
+
+export type HolidaySetRow = {
+  holiday_set_id: number;
+  name: string;
+  description: string | null;
+  tenant_id: string | null;
+  created_at: Date;
+  metadata: Metadata | null;
+};
+
+export type HolidayRow = {
+  holiday_date: DateOnly;
+  name: string | null;
+};
+
+export type ReminderRow = {
+  reminder_id: number;
+  event_id: number | null;
+  schedule_id: number | null;
+  minutes_before: number;
+  created_at: Date;
+  metadata: Metadata | null;
+};
+
+export type ProjectionRow = {
+  projection_date: DateOnly;
+  start_time: Date;
+  end_time: Date;
+  status: ProjectionStatus;
+};
+
+export type DetailedProjectionRow = ProjectionRow & {
+  event_name: string;
+  event_description: string | null;
+  event_category: string | null;
+  schedule_description: string | null;
+  time_zone: string | null;
+  local_start_time: Date;
+  local_end_time: Date;
+  location: string | null;
+  metadata: Metadata | null;
+  overridden_fields: OverridableField[] | null;
+  // Only the participant projections have it
+  response?: RsvpResponse | null;
+};
+
+export type QueriedProjectionRow = DetailedProjectionRow & {
+  event_id: number;
+  schedule_id: number;
+  occurrence_date: DateOnly;
+  priority: number | null;
+};
+
+export type ConflictRow = {
+  conflict_type: Conflict['conflictType'];
+  shared_id: number;
+  event_id: number;
+  schedule_id: number;
+  occurrence_date: DateOnly;
+  start_time: Date;
+  end_time: Date;
+  other_event_id: number;
+  other_schedule_id: number;
+  other_occurrence_date: DateOnly;
+  other_start_time: Date;
+  other_end_time: Date;
+};
+
+export type DueReminderRow = {
+  reminder_id: number;
+  event_id: number;
+  schedule_id: number;
+  occurrence_date: DateOnly;
+  projection_date: DateOnly;
+  start_time: Date;
+  end_time: Date;
+  remind_at: Date;
+  event_name: string;
+  location: string | null;
+  metadata: Metadata | null;
+};
+
+export type BusyIntervalRow = {
+  busy_type: BusyInterval['busyType'];
+  busy_id: number;
+  start_time: Date;
+  end_time: Date;
+};
+
+export type AuditEntryRow = {
+  // BIGSERIAL, which the driver returns as a string
+  audit_id: string;
+  table_name: AuditTable;
+  row_id: number;
+  event_id: number | null;
+  schedule_id: number | null;
+  tenant_id: string | null;
+  operation: ChangeOperation;
+  changed_at: Date;
+  changed_by: string;
+  database_user: string | null;
+  old_row: Record<string, unknown> | null;
+  new_row: Record<string, unknown> | null;
+};
+
+/** The JSON payload of a `pgcalendar_changes` notification. */
+export type CalendarChangePayload = {
+  entity: ChangeEntity;
+  id: number;
+  operation: ChangeOperation;
+  event_id: number | null;
+  tenant_id: string | null;
+  from: DateOnly | null;
+  until: DateOnly | null;
+};
+
+/** Maps public (camelCase) input fields onto their table columns. */
+export const EVENT_COLUMNS = {
+  name: 'name',
+  description: 'description',
+  category: 'category',
+  location: 'location',
+  priority: 'priority',
+  status: 'status',
+  tenantId: 'tenant_id',
+  metadata: 'metadata',
+} as const;
+
+export const SCHEDULE_COLUMNS = {
+  eventId: 'event_id',
+  description: 'description',
+  startDate: 'start_date',
+  endDate: 'end_date',
+  recurrenceType: 'recurrence_type',
+  recurrenceInterval: 'recurrence_interval',
+  recurrenceDayOfWeek: 'recurrence_day_of_week',
+  recurrenceDaysOfWeek: 'recurrence_days_of_week',
+  recurrenceDayOfMonth: 'recurrence_day_of_month',
+  recurrenceMonth: 'recurrence_month',
+  recurrenceWeekOfMonth: 'recurrence_week_of_month',
+  missingDayPolicy: 'missing_day_policy',
+  rrule: 'rrule',
+  timeZone: 'time_zone',
+  occurrenceCount: 'occurrence_count',
+  durationMinutes: 'duration_minutes',
+  occurrenceEndTime: 'occurrence_end_time',
+  weekendDays: 'weekend_days',
+  holidaySetId: 'holiday_set_id',
+  holidayPolicy: 'holiday_policy',
+  metadata: 'metadata',
+} as const;
+
+export const EXCEPTION_COLUMNS = {
+  scheduleId: 'schedule_id',
+  exceptionDate: 'exception_date',
+  exceptionType: 'exception_type',
+  modifiedDate: 'modified_date',
+  modifiedStartTime: 'modified_start_time',
+  modifiedEndTime: 'modified_end_time',
+  notes: 'notes',
+  overrideName: 'override_name',
+  overrideDescription: 'override_description',
+  overrideLocation: 'override_location',
+  overrideMetadata: 'override_metadata',
+  metadata: 'metadata',
+} as const;
+
+export const PARTICIPANT_COLUMNS = {
+  name: 'name',
+  email: 'email',
+  tenantId: 'tenant_id',
+  metadata: 'metadata',
+} as const;
+
+export const RESOURCE_COLUMNS = {
+  name: 'name',
+  exclusive: 'exclusive',
+  tenantId: 'tenant_id',
+  metadata: 'metadata',
+} as const;
+
+export const REMINDER_COLUMNS = {
+  eventId: 'event_id',
+  scheduleId: 'schedule_id',
+  minutesBefore: 'minutes_before',
+  metadata: 'metadata',
+} as const;
+
+export function toEvent(row: EventRow): Event {
+  return {
+    eventId: row.event_id,
+    name: row.name,
+    description: row.description,
+    category: row.category,
+    location: row.location,
+    priority: row.priority,
+    status: row.status,
+    tenantId: row.tenant_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    metadata: row.metadata ?? {},
+  };
+}
+
+export function toSchedule(row: ScheduleRow): Schedule {
+  return {
+    scheduleId: row.schedule_id,
+    eventId: row.event_id,
+    description: row.description,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    recurrenceType: row.recurrence_type,
+    recurrenceInterval: row.recurrence_interval,
+    recurrenceDayOfWeek: row.recurrence_day_of_week,
+    recurrenceDaysOfWeek: row.recurrence_days_of_week,
+    recurrenceDayOfMonth: row.recurrence_day_of_month,
+    recurrenceMonth: row.recurrence_month,
+    recurrenceWeekOfMonth: row.recurrence_week_of_month,
+    missingDayPolicy: row.missing_day_policy,
+    rrule: row.rrule,
+    timeZone: row.time_zone,
+    occurrenceCount: row.occurrence_count,
+    durationMinutes: row.duration_minutes,
+    occurrenceEndTime: row.occurrence_end_time,
+    weekendDays: row.weekend_days,
+    holidaySetId: row.holiday_set_id,
+    holidayPolicy: row.holiday_policy,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    metadata: row.metadata ?? {},
+  };
+}
+
+export function toException(row: ExceptionRow): Exception {
+  return {
+    exceptionId: row.exception_id,
+    scheduleId: row.schedule_id,
+    exceptionDate: row.exception_date,
+    exceptionType: row.exception_type,
+    modifiedDate: row.modified_date,
+    modifiedStartTime: row.modified_start_time,
+    modifiedEndTime: row.modified_end_time,
+    notes: row.notes,
+    overrideName: row.override_name,
+    overrideDescription: row.override_description,
+    overrideLocation: row.override_location,
+    overrideMetadata: row.override_metadata,
+    createdAt: row.created_at,
+    metadata: row.metadata ?? {},
+  };
+}
+
+export function toParticipant(row: ParticipantRow): Participant {
+  return {
+    participantId: row.participant_id,
+    name: row.name,
+    email: row.email,
+    tenantId: row.tenant_id,
+    createdAt: row.created_at,
+    metadata: row.metadata ?? {},
+  };
+}
+
+export function toAttendee(row: AttendeeRow): Attendee {
+  return {
+    attendeeId: row.attendee_id,
+    eventId: row.event_id,
+    participantId: row.participant_id,
+    response: row.response,
+    createdAt: row.created_at,
+    metadata: row.metadata ?? {},
+  };
+}
+
+export function toResource(row: ResourceRow): Resource {
+  return {
+    resourceId: row.resource_id,
+    name: row.name,
+    exclusive: row.exclusive,
+    tenantId: row.tenant_id,
+    createdAt: row.created_at,
+    metadata: row.metadata ?? {},
+  };
+}
+
+export function toHolidaySet(row: HolidaySetRow): HolidaySet {
+  return {
+    holidaySetId: row.holiday_set_id,
+    name: row.name,
+    description: row.description,
+    tenantId: row.tenant_id,
+    createdAt: row.created_at,
+    metadata: row.metadata ?? {},
+  };
+}
+
+export function toHoliday(row: HolidayRow): Holiday {
+  return {
+    date: row.holiday_date,
+    name: row.name,
+  };
+}
+
+export function toReminder(row: ReminderRow): Reminder {
+  return {
+    reminderId: row.reminder_id,
+    eventId: row.event_id,
+    scheduleId: row.schedule_id,
+    minutesBefore: row.minutes_before,
+    createdAt: row.created_at,
+    metadata: row.metadata ?? {},
+  };
+}
+
+export function toProjection(row: ProjectionRow): Projection {
+  return {
+    projectionDate: row.projection_date,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    status: row.status,
+  };
+}
+
+export function toDetailedProjection(row: DetailedProjectionRow): DetailedProjection {
+  return {
+    ...toProjection(row),
+    eventName: row.event_name,
+    eventDescription: row.event_description,
+    eventCategory: row.event_category,
+    scheduleDescription: row.schedule_description,
+    timeZone: row.time_zone,
+    localStartTime: row.local_start_time,
+    localEndTime: row.local_end_time,
+    location: row.location,
+    metadata: row.metadata ?? {},
+    overriddenFields: row.overridden_fields ?? [],
+    response: row.response ?? null,
+  };
+}
+
+export function toQueriedProjection(row: QueriedProjectionRow): QueriedProjection {
+  return {
+    ...toDetailedProjection(row),
+    eventId: row.event_id,
+    scheduleId: row.schedule_id,
+    occurrenceDate: row.occurrence_date,
+    priority: row.priority,
+  };
+}
+
+export function toConflict(row: ConflictRow): Conflict {
+  return {
+    conflictType: row.conflict_type,
+    sharedId: row.shared_id,
+    eventId: row.event_id,
+    scheduleId: row.schedule_id,
+    occurrenceDate: row.occurrence_date,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    otherEventId: row.other_event_id,
+    otherScheduleId: row.other_schedule_id,
+    otherOccurrenceDate: row.other_occurrence_date,
+    otherStartTime: row.other_start_time,
+    otherEndTime: row.other_end_time,
+  };
+}
+
+export function toDueReminder(row: DueReminderRow): DueReminder {
+  return {
+    reminderId: row.reminder_id,
+    eventId: row.event_id,
+    scheduleId: row.schedule_id,
+    occurrenceDate: row.occurrence_date,
+    projectionDate: row.projection_date,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    remindAt: row.remind_at,
+    eventName: row.event_name,
+    location: row.location,
+    metadata: row.metadata ?? {},
+  };
+}
+
+export function toBusyInterval(row: BusyIntervalRow): BusyInterval {
+  return {
+    busyType: row.busy_type,
+    busyId: row.busy_id,
+    startTime: row.start_time,
+    endTime: row.end_time,
+  };
+}
+
+export function toAuditEntry(row: AuditEntryRow): AuditEntry {
+  return {
+    auditId: Number(row.audit_id),
+    tableName: row.table_name,
+    rowId: row.row_id,
+    eventId: row.event_id,
+    scheduleId: row.schedule_id,
+    tenantId: row.tenant_id,
+    operation: row.operation,
+    changedAt: row.changed_at,
+    changedBy: row.changed_by,
+    databaseUser: row.database_user,
+    oldRow: row.old_row,
+    newRow: row.new_row,
+  };
+}
+
+/** Maps a `pgcalendar_changes` notification payload. */
+export function toCalendarChange(payload: CalendarChangePayload): CalendarChange {
+  return {
+    entity: payload.entity,
+    id: payload.id,
+    operation: payload.operation,
+    eventId: payload.event_id,
+    tenantId: payload.tenant_id,
+    from: payload.from,
+    until: payload.until,
+  };
+}
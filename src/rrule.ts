@@ -0,0 +1,299 @@
+// RFC 5545 RRULE parsing and expansion mirroring pgcalendar.parse_rrule
+// and pgcalendar.rrule_occurrences. This module must not import `pg`.
+
+import {
+  addMonths,
+  dayParts,
+  DayNumber,
+  daysInMonth,
+  fromDayNumber,
+  makeDay,
+  toDayNumber,
+} from './days';
+import { DateOnly, RecurrenceType } from './types';
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface RRuleWeekday {
+  ordinal: number | null; // e.g. 2 for 2TU, -1 for -1FR
+  weekday: number; // 0=Sunday
+}
+
+export interface RRule {
+  freq: RecurrenceType;
+  interval: number;
+  count: number | null;
+  until: DateOnly | null;
+  byDay: RRuleWeekday[] | null;
+  byMonthDay: number[] | null;
+  byMonth: number[] | null;
+  bySetPos: number[] | null;
+  weekStart: number;
+}
+
+export class RRuleError extends Error {
+  constructor(rrule: string, reason: string, public readonly part?: string) {
+    super(`Invalid RRULE "${rrule}": ${reason}`);
+    this.name = 'RRuleError';
+  }
+}
+
+const BYDAY_PATTERN = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/;
+
+function integers(rrule: string, key: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map((item) => {
+    const number = Number(item);
+    if (!/^[+-]?\d{1,3}$/.test(item) || number === 0 || number < min || number > max) {
+      throw new RRuleError(rrule, `${key} must be a list of values between ${min} and ${max} (excluding 0)`, key);
+    }
+    return number;
+  });
+}
+
+/** Parses and validates an RRULE, with or without the `RRULE:` prefix. */
+export function parseRRule(rrule: string): RRule {
+  let freq: RecurrenceType | undefined;
+  const parsed: Omit<RRule, 'freq'> = {
+    interval: 1,
+    count: null,
+    until: null,
+    byDay: null,
+    byMonthDay: null,
+    byMonth: null,
+    bySetPos: null,
+    weekStart: 1,
+  };
+  const seen = new Set<string>();
+  const fail = (reason: string, part?: string): never => {
+    throw new RRuleError(rrule, reason, part);
+  };
+
+  for (const part of rrule.trim().replace(/^RRULE:/i, '').toUpperCase().split(';')) {
+    if (part === '') {
+      continue;
+    }
+    const [key] = part.split('=', 1);
+    const value = part.slice(key.length + 1);
+    if (seen.has(key)) {
+      fail(`${key} is given more than once`, key);
+    }
+    if (value === '') {
+      fail(`${key} has no value`, key);
+    }
+    seen.add(key);
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(value)) {
+          fail(`FREQ=${value} is not supported`, key);
+        }
+        freq = value.toLowerCase() as RecurrenceType;
+        break;
+      case 'INTERVAL':
+      case 'COUNT':
+        if (!/^\d{1,6}$/.test(value) || Number(value) < 1) {
+          fail(`${key} must be a positive integer`, key);
+        }
+        parsed[key === 'INTERVAL' ? 'interval' : 'count'] = Number(value);
+        break;
+      case 'UNTIL': {
+        if (!/^\d{8}(T\d{6}Z?)?$/.test(value)) {
+          fail('UNTIL must be a date or date-time', key);
+        }
+        const until = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+        if (fromDayNumber(toDayNumber(until)) !== until) {
+          fail('UNTIL must be a date or date-time', key);
+        }
+        parsed.until = until;
+        break;
+      }
+      case 'BYDAY':
+        parsed.byDay = value.split(',').map((item) => {
+          const match = BYDAY_PATTERN.exec(item);
+          if (!match) {
+            return fail(`invalid BYDAY value ${item}`, key);
+          }
+          const ordinal = match[1] !== undefined ? Number(match[1]) : null;
+          if (ordinal === 0 || (ordinal !== null && Math.abs(ordinal) > 53)) {
+            fail(`invalid BYDAY ordinal ${item}`, key);
+          }
+          return { ordinal, weekday: WEEKDAY_CODES.indexOf(match[2]) };
+        });
+        break;
+      case 'BYMONTHDAY':
+        parsed.byMonthDay = integers(rrule, key, value, -31, 31);
+        break;
+      case 'BYMONTH':
+        parsed.byMonth = integers(rrule, key, value, 1, 12);
+        break;
+      case 'BYSETPOS':
+        parsed.bySetPos = integers(rrule, key, value, -366, 366);
+        break;
+      case 'WKST':
+        parsed.weekStart = WEEKDAY_CODES.indexOf(value);
+        if (parsed.weekStart < 0) {
+          fail(`invalid WKST value ${value}`, key);
+        }
+        break;
+      default:
+        fail(`${key} is not supported`, key);
+    }
+  }
+
+  if (!freq) {
+    return fail('FREQ is required', 'FREQ');
+  }
+  const rule: RRule = { freq, ...parsed };
+  if (rule.count !== null && rule.until !== null) {
+    fail('COUNT and UNTIL cannot be combined', 'COUNT');
+  }
+  const ordinals = (rule.byDay ?? []).filter((d) => d.ordinal !== null).map((d) => d.ordinal as number);
+  if ((rule.freq === 'daily' || rule.freq === 'weekly') && ordinals.length > 0) {
+    fail('BYDAY ordinals require FREQ=MONTHLY or FREQ=YEARLY', 'BYDAY');
+  }
+  if ((rule.freq === 'monthly' || (rule.freq === 'yearly' && rule.byMonth))
+    && ordinals.some((ordinal) => Math.abs(ordinal) > 5)) {
+    fail('BYDAY ordinals within a month must be between -5 and 5', 'BYDAY');
+  }
+  if (rule.freq === 'weekly' && rule.byMonthDay) {
+    fail('BYMONTHDAY cannot be used with FREQ=WEEKLY', 'BYMONTHDAY');
+  }
+  if (rule.bySetPos && !rule.byDay && !rule.byMonthDay && !rule.byMonth) {
+    fail('BYSETPOS requires another BYxxx rule part', 'BYSETPOS');
+  }
+
+  return rule;
+}
+
+function weekdayMatches(byDay: RRuleWeekday[], day: DayNumber, scopeStart: DayNumber, scopeEnd: DayNumber): boolean {
+  const { dow } = dayParts(day);
+  return byDay.some(({ ordinal, weekday }) => weekday === dow && (
+    ordinal === null
+    || (ordinal > 0 && Math.floor((day - scopeStart) / 7) + 1 === ordinal)
+    || (ordinal < 0 && Math.floor((scopeEnd - day) / 7) + 1 === -ordinal)
+  ));
+}
+
+// Mirrors pgcalendar.rrule_period_dates
+function periodDates(rule: RRule, periodStart: DayNumber, dtstart: DayNumber): DayNumber[] {
+  const first = dayParts(dtstart);
+  let periodEnd: DayNumber;
+  switch (rule.freq) {
+    case 'daily':
+      periodEnd = periodStart;
+      break;
+    case 'weekly':
+      periodEnd = periodStart + 6;
+      break;
+    case 'monthly':
+      periodEnd = addMonths(periodStart, 1) - 1;
+      break;
+    default:
+      periodEnd = addMonths(periodStart, 12) - 1;
+  }
+
+  let dates: DayNumber[] = [];
+  for (let day = periodStart; day <= periodEnd; day++) {
+    const parts = dayParts(day);
+    const monthStart = makeDay(parts.year, parts.month, 1);
+    const monthEnd = monthStart + daysInMonth(parts.year, parts.month) - 1;
+
+    if (rule.byMonth && !rule.byMonth.includes(parts.month)) {
+      continue;
+    }
+    if (rule.byMonthDay
+      && !rule.byMonthDay.includes(parts.day)
+      && !rule.byMonthDay.includes(day - monthEnd - 1)) {
+      continue;
+    }
+    if (rule.byDay) {
+      const monthScoped = rule.freq === 'monthly' || (rule.freq === 'yearly' && rule.byMonth !== null);
+      const matches = monthScoped
+        ? weekdayMatches(rule.byDay, day, monthStart, monthEnd)
+        : weekdayMatches(rule.byDay, day, periodStart, periodEnd);
+      if (!matches) {
+        continue;
+      }
+    }
+    // Without BYxxx parts the rule repeats the weekday, day or date of its start
+    const implicit = !rule.byDay && !rule.byMonthDay;
+    if (rule.freq === 'weekly' && !rule.byDay && parts.dow !== first.dow) {
+      continue;
+    }
+    if (rule.freq === 'monthly' && implicit && parts.day !== first.day) {
+      continue;
+    }
+    if (rule.freq === 'yearly' && implicit
+      && (parts.day !== first.day || (!rule.byMonth && parts.month !== first.month))) {
+      continue;
+    }
+    dates.push(day);
+  }
+
+  if (rule.bySetPos) {
+    const selected = rule.bySetPos
+      .filter((pos) => Math.abs(pos) <= dates.length)
+      .map((pos) => dates[pos > 0 ? pos - 1 : dates.length + pos]);
+    dates = [...new Set(selected)].sort((a, b) => a - b);
+  }
+  return dates;
+}
+
+/**
+ * Expands an RRULE into occurrence dates from `dtstart` up to and
+ * including `until`, honoring the rule's own COUNT and UNTIL.
+ */
+export function expandRRule(rrule: RRule | string, dtstart: DateOnly, until: DateOnly): DateOnly[] {
+  const rule = typeof rrule === 'string' ? parseRRule(rrule) : rrule;
+  const firstDay = toDayNumber(dtstart);
+  const last = rule.until ? Math.min(toDayNumber(until), toDayNumber(rule.until)) : toDayNumber(until);
+  const { dow } = dayParts(firstDay);
+
+  let firstPeriod: DayNumber;
+  switch (rule.freq) {
+    case 'daily':
+      firstPeriod = firstDay;
+      break;
+    case 'weekly':
+      firstPeriod = firstDay - ((dow - rule.weekStart + 7) % 7);
+      break;
+    case 'monthly':
+      firstPeriod = firstDay - dayParts(firstDay).day + 1;
+      break;
+    default:
+      firstPeriod = makeDay(dayParts(firstDay).year, 1, 1);
+  }
+
+  const occurrences: DateOnly[] = [];
+  for (let step = 0, period = firstPeriod; period <= last;) {
+    for (const day of periodDates(rule, period, firstDay)) {
+      if (day > last) {
+        return occurrences;
+      }
+      if (day < firstDay) {
+        continue;
+      }
+      occurrences.push(fromDayNumber(day));
+      if (occurrences.length === rule.count) {
+        return occurrences;
+      }
+    }
+
+    // Periods are counted from the first one so month lengths never drift
+    step += rule.interval;
+    switch (rule.freq) {
+      case 'daily':
+        period = firstPeriod + step;
+        break;
+      case 'weekly':
+        period = firstPeriod + step * 7;
+        break;
+      case 'monthly':
+        period = addMonths(firstPeriod, step);
+        break;
+      default:
+        period = addMonths(firstPeriod, step * 12);
+    }
+  }
+  return occurrences;
+}
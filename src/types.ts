@@ -0,0 +1,474 @@
+// Public types for the pgcalendar TypeScript client
+
+/** A calendar date without a time component, formatted as `YYYY-MM-DD`. */
+export type DateOnly = string;
+
+/**
+ * A wall-clock timestamp. Strings are passed to PostgreSQL unchanged
+ * (e.g. `'2024-01-01 09:00:00'`); `Date` values are sent in local time,
+ * matching how the driver reads `TIMESTAMP` columns back.
+ */
+export type Timestamp = Date | string;
+
+export type RecurrenceType = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'business_day';
+
+/** What monthly and yearly schedules do when a month lacks the requested day. */
+export type MissingDayPolicy = 'skip' | 'clamp' | 'roll';
+
+/** `added` is an extra occurrence on `exceptionDate`, like an iCalendar RDATE. */
+export type ExceptionType = 'cancelled' | 'modified' | 'added';
+
+/** `shifted` occurrences were moved off a holiday by their schedule's holiday policy. */
+export type ProjectionStatus = 'active' | 'modified' | 'added' | 'shifted';
+
+/** What a schedule does with occurrences falling on a holiday of its holiday set. */
+export type HolidayPolicy = 'skip' | 'previous_business_day' | 'next_business_day';
+
+/** Event values an exception can replace for its occurrence. */
+export type OverridableField = 'name' | 'description' | 'location' | 'metadata';
+
+/** An attendee's answer to an invitation. */
+export type RsvpResponse = 'accepted' | 'declined' | 'tentative';
+
+export type Metadata = Record<string, unknown>;
+
+// Events
+
+export interface Event {
+  eventId: number;
+  name: string;
+  description: string | null;
+  category: string | null;
+  location: string | null;
+  priority: number | null;
+  status: string | null;
+  /** Owner of the event and its schedules; null for an event without a tenant. */
+  tenantId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  metadata: Metadata;
+}
+
+export interface NewEvent {
+  name: string;
+  description?: string | null;
+  category?: string | null;
+  location?: string | null;
+  priority?: number | null;
+  status?: string | null;
+  /** Defaults to the session's `pgcalendar.tenant` setting. */
+  tenantId?: string | null;
+  metadata?: Metadata;
+}
+
+export type EventPatch = Partial<NewEvent>;
+
+// Schedules
+
+export interface Schedule {
+  scheduleId: number;
+  eventId: number;
+  description: string | null;
+  startDate: Date;
+  endDate: Date | null; // null = unbounded series
+  recurrenceType: RecurrenceType;
+  recurrenceInterval: number;
+  recurrenceDayOfWeek: number | null; // 0=Sunday, 1=Monday, etc.
+  recurrenceDaysOfWeek: number[] | null; // weekly; overrides recurrenceDayOfWeek
+  recurrenceDayOfMonth: number | null; // 1-31, or -1 (last day) to -31; business_day: the nth business day
+  recurrenceMonth: number | null; // 1-12
+  recurrenceWeekOfMonth: number | null; // 1-5 or -1 (last) to -5, with recurrenceDayOfWeek
+  missingDayPolicy: MissingDayPolicy;
+  rrule: string | null; // RFC 5545 rule; overrides the recurrence* fields
+  timeZone: string | null; // IANA zone of the wall-clock times; null = floating
+  occurrenceCount: number | null; // series ends after this many occurrences
+  durationMinutes: number | null;
+  occurrenceEndTime: string | null; // HH:MM:SS
+  weekendDays: number[]; // days that are not business days, 0=Sunday
+  holidaySetId: number | null; // holidays the series avoids
+  holidayPolicy: HolidayPolicy;
+  createdAt: Date;
+  updatedAt: Date;
+  metadata: Metadata;
+}
+
+export interface NewSchedule {
+  eventId: number;
+  description?: string | null;
+  startDate: Timestamp;
+  /**
+   * Last day of the series; omit or pass null for an unbounded series.
+   * Its time of day ends each occurrence unless `durationMinutes` or
+   * `occurrenceEndTime` is given, one of which unbounded series need.
+   */
+  endDate?: Timestamp | null;
+  /** Required unless `rrule` is given, in which case it is derived from FREQ. */
+  recurrenceType?: RecurrenceType;
+  recurrenceInterval?: number;
+  recurrenceDayOfWeek?: number | null;
+  /** Weekly schedules on several days, e.g. `[1, 3, 5]` for Mon/Wed/Fri. */
+  recurrenceDaysOfWeek?: number[] | null;
+  recurrenceDayOfMonth?: number | null;
+  recurrenceMonth?: number | null;
+  recurrenceWeekOfMonth?: number | null;
+  missingDayPolicy?: MissingDayPolicy;
+  rrule?: string | null;
+  /** IANA time zone (e.g. `America/New_York`) of the dates and exception times. */
+  timeZone?: string | null;
+  /** Ends the series after this many occurrences, like RRULE `COUNT`. */
+  occurrenceCount?: number | null;
+  durationMinutes?: number | null;
+  /** Wall-clock end of each occurrence, e.g. `'17:30:00'`. */
+  occurrenceEndTime?: string | null;
+  /** Days that are not business days, e.g. `[5, 6]` for Friday and Saturday. Default `[0, 6]`. */
+  weekendDays?: number[];
+  /** Holiday set whose holidays the series skips or moves off, per `holidayPolicy`. */
+  holidaySetId?: number | null;
+  holidayPolicy?: HolidayPolicy;
+  metadata?: Metadata;
+}
+
+export type SchedulePatch = Partial<Omit<NewSchedule, 'eventId'>>;
+
+// Exceptions
+
+export interface Exception {
+  exceptionId: number;
+  scheduleId: number;
+  exceptionDate: DateOnly;
+  exceptionType: ExceptionType;
+  modifiedDate: DateOnly | null;
+  modifiedStartTime: Date | null;
+  modifiedEndTime: Date | null;
+  notes: string | null;
+  /** Replace the event's values for this occurrence; null keeps them. */
+  overrideName: string | null;
+  overrideDescription: string | null;
+  overrideLocation: string | null;
+  /** Merged over the event's and schedule's metadata. */
+  overrideMetadata: Metadata | null;
+  createdAt: Date;
+  metadata: Metadata;
+}
+
+export interface NewException {
+  scheduleId: number;
+  exceptionDate: DateOnly | Date;
+  exceptionType: ExceptionType;
+  modifiedDate?: DateOnly | Date | null;
+  modifiedStartTime?: Timestamp | null;
+  modifiedEndTime?: Timestamp | null;
+  notes?: string | null;
+  overrideName?: string | null;
+  overrideDescription?: string | null;
+  overrideLocation?: string | null;
+  overrideMetadata?: Metadata | null;
+  metadata?: Metadata;
+}
+
+export type ExceptionPatch = Partial<Omit<NewException, 'scheduleId'>>;
+
+// Participants and attendees
+
+export interface Participant {
+  participantId: number;
+  name: string;
+  email: string | null;
+  tenantId: string | null;
+  createdAt: Date;
+  metadata: Metadata;
+}
+
+export interface NewParticipant {
+  name: string;
+  /** Unique per tenant. */
+  email?: string | null;
+  /** Defaults to the session's `pgcalendar.tenant` setting. */
+  tenantId?: string | null;
+  metadata?: Metadata;
+}
+
+export type ParticipantPatch = Partial<NewParticipant>;
+
+/** A participant invited to an event. */
+export interface Attendee {
+  attendeeId: number;
+  eventId: number;
+  participantId: number;
+  /** Response to the whole series; null = not answered yet. */
+  response: RsvpResponse | null;
+  createdAt: Date;
+  metadata: Metadata;
+}
+
+// Resources
+
+/** A room, piece of equipment or anything else events book. */
+export interface Resource {
+  resourceId: number;
+  name: string;
+  /** Schedules and exceptions that would double-book it are rejected. */
+  exclusive: boolean;
+  tenantId: string | null;
+  createdAt: Date;
+  metadata: Metadata;
+}
+
+export interface NewResource {
+  name: string;
+  exclusive?: boolean;
+  /** Defaults to the session's `pgcalendar.tenant` setting. */
+  tenantId?: string | null;
+  metadata?: Metadata;
+}
+
+export type ResourcePatch = Partial<NewResource>;
+
+// Holidays
+
+/** A named set of holidays, e.g. the public holidays of a country. */
+export interface HolidaySet {
+  holidaySetId: number;
+  /** Unique per tenant. */
+  name: string;
+  description: string | null;
+  tenantId: string | null;
+  createdAt: Date;
+  metadata: Metadata;
+}
+
+export interface Holiday {
+  date: DateOnly;
+  name: string | null;
+}
+
+// Reminders
+
+/** A reminder before every occurrence of an event, or of one of its schedules. */
+export interface Reminder {
+  reminderId: number;
+  eventId: number | null;
+  scheduleId: number | null;
+  minutesBefore: number;
+  createdAt: Date;
+  metadata: Metadata;
+}
+
+/** Exactly one of `eventId` and `scheduleId` is required. */
+export interface NewReminder {
+  eventId?: number | null;
+  scheduleId?: number | null;
+  /** E.g. 15, or 1440 for a day before. */
+  minutesBefore: number;
+  metadata?: Metadata;
+}
+
+// Projections
+
+export interface Projection {
+  projectionDate: DateOnly;
+  startTime: Date;
+  endTime: Date;
+  status: ProjectionStatus;
+}
+
+export interface DetailedProjection extends Projection {
+  eventName: string;
+  eventDescription: string | null;
+  eventCategory: string | null;
+  scheduleDescription: string | null;
+  /** Zone of the local times: the viewer's if one was requested, else the schedule's. */
+  timeZone: string | null;
+  /** Wall-clock start and end in `timeZone`, read like other `TIMESTAMP` columns. */
+  localStartTime: Date;
+  localEndTime: Date;
+  location: string | null;
+  /** The event's metadata, then the schedule's and the occurrence's merged over it. */
+  metadata: Metadata;
+  /** Event values replaced by the occurrence's exception, e.g. `['name']`. */
+  overriddenFields: OverridableField[];
+  /**
+   * The participant's response to the occurrence when projections were
+   * requested for one, else null.
+   */
+  response: RsvpResponse | null;
+}
+
+/** A projection found by `PgCalendarClient.queryProjections`. */
+export interface QueriedProjection extends DetailedProjection {
+  eventId: number;
+  scheduleId: number;
+  /** Date the schedule generated, before an exception moved it. */
+  occurrenceDate: DateOnly;
+  priority: number | null;
+}
+
+/** The row a page of `queryProjectionPage` starts after, e.g. the last row of the previous page. */
+export type ProjectionCursor = Pick<QueriedProjection, 'startTime' | 'eventId' | 'scheduleId' | 'occurrenceDate'>;
+
+// Function arguments
+
+export interface TransitionScheduleInput {
+  eventId: number;
+  startDate: Timestamp;
+  endDate?: Timestamp | null;
+  recurrenceType: RecurrenceType;
+  recurrenceInterval?: number;
+  recurrenceDayOfWeek?: number | null;
+  recurrenceDayOfMonth?: number | null;
+  recurrenceMonth?: number | null;
+  description?: string | null;
+  timeZone?: string | null;
+  recurrenceWeekOfMonth?: number | null;
+  missingDayPolicy?: MissingDayPolicy;
+  recurrenceDaysOfWeek?: number[] | null;
+  occurrenceCount?: number | null;
+  durationMinutes?: number | null;
+  occurrenceEndTime?: string | null;
+}
+
+/** Filters of `PgCalendarClient.queryProjections`; omitted ones match everything. */
+export interface ProjectionQuery {
+  categories?: string[];
+  /** The events' statuses, e.g. `['active']`. */
+  eventStatuses?: string[];
+  minPriority?: number;
+  maxPriority?: number;
+  eventIds?: number[];
+  /** Contained in each occurrence's merged metadata, e.g. `{ team: 'platform' }`. */
+  metadata?: Metadata;
+  /** The projections' statuses, e.g. `['modified', 'added']`. */
+  statuses?: ProjectionStatus[];
+  /** Projections fetched per query; 100 by default. */
+  pageSize?: number;
+}
+
+export interface FreeBusyQuery {
+  participantIds?: number[];
+  resourceIds?: number[];
+  /** IANA time zone whose dates the range covers; the session's by default. */
+  timeZone?: string;
+}
+
+export interface FreeSlotQuery extends FreeBusyQuery {
+  durationMinutes: number;
+  /** Wall-clock working hours of each day in `timeZone`; 09:00:00 to 17:00:00 by default. */
+  dayStart?: string;
+  dayEnd?: string;
+  /** Free time to keep before and after anything busy. */
+  bufferMinutes?: number;
+  /** Minutes between candidate start times; 15 by default. */
+  stepMinutes?: number;
+}
+
+// Function results
+
+/** Overlapping occurrences of two events that share a resource or participant. */
+export interface Conflict {
+  conflictType: 'resource' | 'participant';
+  /** `resourceId` or `participantId`, depending on `conflictType`. */
+  sharedId: number;
+  eventId: number;
+  scheduleId: number;
+  occurrenceDate: DateOnly;
+  startTime: Date;
+  endTime: Date;
+  otherEventId: number;
+  otherScheduleId: number;
+  otherOccurrenceDate: DateOnly;
+  otherStartTime: Date;
+  otherEndTime: Date;
+}
+
+export interface ScheduleSplit {
+  /** The original schedule, now ending before the split date. */
+  head: Schedule;
+  /** The new schedule continuing from the split date. */
+  tail: Schedule;
+}
+
+/** A reminder due for one occurrence, at its current (possibly moved) time. */
+export interface DueReminder {
+  reminderId: number;
+  eventId: number;
+  scheduleId: number;
+  /** Date the schedule generated, before an exception moved it. */
+  occurrenceDate: DateOnly;
+  projectionDate: DateOnly;
+  startTime: Date;
+  endTime: Date;
+  remindAt: Date;
+  eventName: string;
+  location: string | null;
+  /** The reminder's metadata, e.g. who to notify and how. */
+  metadata: Metadata;
+}
+
+/** Merged occurrences during which a participant or resource is busy. */
+export interface BusyInterval {
+  busyType: 'participant' | 'resource';
+  /** `participantId` or `resourceId`, depending on `busyType`. */
+  busyId: number;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface FreeSlot {
+  startTime: Date;
+  endTime: Date;
+}
+
+// Change feed
+
+export type ChangeEntity = 'event' | 'schedule' | 'exception';
+
+export type ChangeOperation = 'insert' | 'update' | 'delete';
+
+/** A change to a row of `events`, `schedules` or `exceptions`. */
+export interface CalendarChange {
+  entity: ChangeEntity;
+  /** `eventId`, `scheduleId` or `exceptionId`, depending on `entity`. */
+  id: number;
+  operation: ChangeOperation;
+  /** Null for an exception deleted along with its schedule. */
+  eventId: number | null;
+  /** Tenant of the changed event; null for events without a tenant. */
+  tenantId: string | null;
+  /**
+   * Projection dates the change can affect, before and after an update.
+   * `until` is null for unbounded series and the end date of counted ones;
+   * both are null when no projections are affected, e.g. for an event
+   * without schedules.
+   */
+  from: DateOnly | null;
+  until: DateOnly | null;
+}
+
+// Audit log
+
+export type AuditTable = 'events' | 'schedules' | 'exceptions';
+
+/** A change to a row of `events`, `schedules` or `exceptions`, from `pgcalendar.audit_log`. */
+export interface AuditEntry {
+  auditId: number;
+  tableName: AuditTable;
+  /** `eventId`, `scheduleId` or `exceptionId`, depending on `tableName`. */
+  rowId: number;
+  eventId: number | null;
+  scheduleId: number | null;
+  tenantId: string | null;
+  operation: ChangeOperation;
+  /** Start of the transaction that made the change. */
+  changedAt: Date;
+  /**
+   * The `pgcalendar.user` setting of the change, else the database user.
+   * Sessions set it themselves, so it is who the application says made the change.
+   */
+  changedBy: string;
+  /** The database role that made the change; null for changes recorded before it was. */
+  databaseUser: string | null;
+  /** The row before the change, by column name; null for inserts. */
+  oldRow: Record<string, unknown> | null;
+  /** The row after the change, by column name; null for deletes. */
+  newRow: Record<string, unknown> | null;
+}
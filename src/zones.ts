@@ -0,0 +1,88 @@
+// IANA time zone arithmetic for the projection engine, built on Intl
+//
+// Wall-clock times are resolved the way PostgreSQL's `AT TIME ZONE`
+// resolves them, so engine results match the SQL around DST changes.
+// This module must not import `pg`.
+
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+// Wider than any UTC offset, so each side lies beyond a nearby transition
+const TRANSITION_WINDOW = 14 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let result = formatters.get(timeZone);
+  if (!result) {
+    result = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, result);
+  }
+  return result;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Returns the wall-clock time of an instant in `timeZone`. */
+export function toWallClock(instant: Date, timeZone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+    milliseconds: instant.getUTCMilliseconds(),
+  };
+}
+
+function asUtc(wall: WallClock): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hours, wall.minutes, wall.seconds, wall.milliseconds);
+}
+
+// Offset of `timeZone` from UTC at an instant, in milliseconds
+function offsetAt(instant: number, timeZone: string): number {
+  return asUtc(toWallClock(new Date(instant), timeZone)) - instant;
+}
+
+/**
+ * Returns the instant a wall-clock time denotes in `timeZone`. Times in a
+ * DST gap use the offset from before the change and ambiguous times the
+ * offset from after it, like PostgreSQL.
+ */
+export function fromWallClock(wall: WallClock, timeZone: string): Date {
+  const local = asUtc(wall);
+  const before = offsetAt(local - TRANSITION_WINDOW, timeZone);
+  const after = offsetAt(local + TRANSITION_WINDOW, timeZone);
+  const valid = [before, after]
+    .map((offset) => local - offset)
+    .filter((instant) => offsetAt(instant, timeZone) === local - instant);
+  return new Date(valid.length > 0 ? Math.max(...valid) : local - before);
+}
@@ -0,0 +1,150 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient } from '../src';
+
+describe('pgcalendar - Attendees', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let eventId: number;
+  let scheduleId: number;
+  let ana: number;
+  let ben: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const event = await client.createEvent({ name: 'Standup' });
+    eventId = event.eventId;
+
+    const schedule = await client.createSchedule({
+      eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-05 09:15:00',
+      recurrenceType: 'daily',
+    });
+    scheduleId = schedule.scheduleId;
+
+    ana = (await client.createParticipant({ name: 'Ana', email: 'ana@example.com' })).participantId;
+    ben = (await client.createParticipant({ name: 'Ben' })).participantId;
+    await client.addAttendee(eventId, ana, 'accepted');
+  });
+
+  afterEach(async () => {
+    await pool.query(
+      `UPDATE pgcalendar.projection_cache_settings
+       SET enabled = FALSE, window_start = NULL, window_end = NULL, refreshed_at = NULL`,
+    );
+    await pool.query('DELETE FROM pgcalendar.projections');
+  });
+
+  async function responses(participantId: number) {
+    const projections = await client.getEventProjections(eventId, '2024-01-01', '2024-01-05', participantId);
+    return projections.map((p) => `${p.projectionDate} ${p.response}`);
+  }
+
+  it('should return the series response unless an occurrence has its own', async () => {
+    await client.setOccurrenceResponse(scheduleId, '2024-01-03', ana, 'declined');
+    await client.setOccurrenceResponse(scheduleId, '2024-01-04', ana, 'tentative');
+
+    expect(await responses(ana)).toEqual([
+      '2024-01-01 accepted',
+      '2024-01-02 accepted',
+      '2024-01-03 declined',
+      '2024-01-04 tentative',
+      '2024-01-05 accepted',
+    ]);
+
+    await client.setOccurrenceResponse(scheduleId, '2024-01-03', ana, null);
+    expect(await responses(ana)).toContain('2024-01-03 accepted');
+  });
+
+  it('should key responses by the original date of a moved occurrence', async () => {
+    await client.setOccurrenceResponse(scheduleId, '2024-01-03', ana, 'declined');
+    await client.createException({
+      scheduleId,
+      exceptionDate: '2024-01-03',
+      exceptionType: 'modified',
+      modifiedDate: '2024-01-06',
+      modifiedStartTime: '2024-01-06 10:00:00',
+      modifiedEndTime: '2024-01-06 10:15:00',
+    });
+
+    const projections = await client.getEventProjections(eventId, '2024-01-01', '2024-01-06', ana);
+    expect(projections.map((p) => `${p.projectionDate} ${p.response}`)).toContain('2024-01-06 declined');
+  });
+
+  it('should only list the events a participant attends', async () => {
+    const other = await client.createEvent({ name: 'Review' });
+    await client.createSchedule({
+      eventId: other.eventId,
+      startDate: '2024-01-02 14:00:00',
+      endDate: '2024-01-02 15:00:00',
+      recurrenceType: 'daily',
+    });
+    await client.addAttendee(other.eventId, ben);
+
+    const forBen = await client.getEventsDetailed('2024-01-01', '2024-01-05', undefined, ben);
+    expect(forBen.map((p) => [p.eventName, p.response])).toEqual([['Review', null]]);
+
+    const forAna = await client.getEventsDetailed('2024-01-01', '2024-01-05', 'Europe/Berlin', ana);
+    expect(forAna).toHaveLength(5);
+    expect(forAna.every((p) => p.eventName === 'Standup' && p.response === 'accepted')).toBe(true);
+
+    expect(await client.getEventProjections(eventId, '2024-01-01', '2024-01-05', ben)).toEqual([]);
+    // Without a participant every event is listed and no response is returned
+    const all = await client.getEventsDetailed('2024-01-01', '2024-01-05');
+    expect(all).toHaveLength(6);
+    expect(all.every((p) => p.response === null)).toBe(true);
+  });
+
+  it('should read responses over the projections cache', async () => {
+    await client.extendProjectionWindow('2024-01-01', '2024-01-31');
+    await client.setProjectionCacheEnabled(true);
+    await client.setOccurrenceResponse(scheduleId, '2024-01-02', ana, 'declined');
+
+    expect((await responses(ana)).slice(0, 2)).toEqual(['2024-01-01 accepted', '2024-01-02 declined']);
+    expect(await responses(ben)).toEqual([]);
+  });
+
+  it('should reject responses from participants who do not attend', async () => {
+    await expect(client.setOccurrenceResponse(scheduleId, '2024-01-02', ben, 'accepted'))
+      .rejects.toThrow(/does not attend/);
+
+    const other = await client.createEvent({ name: 'Review' });
+    const otherSchedule = await client.createSchedule({
+      eventId: other.eventId,
+      startDate: '2024-01-02 14:00:00',
+      endDate: '2024-01-02 15:00:00',
+      recurrenceType: 'daily',
+    });
+    const [attendee] = await client.listAttendees(eventId);
+    await expect(pool.query(
+      `INSERT INTO pgcalendar.occurrence_responses (attendee_id, schedule_id, occurrence_date, response)
+       VALUES ($1, $2, '2024-01-02', 'accepted')`,
+      [attendee.attendeeId, otherSchedule.scheduleId],
+    )).rejects.toThrow(/does not belong/);
+  });
+
+  it('should move responses with a split schedule and drop them with the attendee', async () => {
+    await client.setOccurrenceResponse(scheduleId, '2024-01-02', ana, 'declined');
+    await client.setOccurrenceResponse(scheduleId, '2024-01-04', ana, 'declined');
+
+    const { tail } = await client.splitSchedule(scheduleId, '2024-01-04');
+    const moved = await pool.query(
+      'SELECT schedule_id, occurrence_date::text FROM pgcalendar.occurrence_responses ORDER BY occurrence_date',
+    );
+    expect(moved.rows).toEqual([
+      { schedule_id: scheduleId, occurrence_date: '2024-01-02' },
+      { schedule_id: tail.scheduleId, occurrence_date: '2024-01-04' },
+    ]);
+    expect(await responses(ana)).toContain('2024-01-04 declined');
+
+    expect(await client.removeAttendee(eventId, ana)).toBe(true);
+    const remaining = await pool.query('SELECT count(*)::int AS count FROM pgcalendar.occurrence_responses');
+    expect(remaining.rows[0].count).toBe(0);
+  });
+});
@@ -0,0 +1,143 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { getNextRecurrenceDate, NewSchedule, PgCalendarClient, shouldGenerateProjection } from '../src';
+
+describe('pgcalendar - Business Days', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let eventId: number;
+  let holidaySetId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    eventId = (await client.createEvent({ name: 'Payroll' })).eventId;
+    holidaySetId = (await client.loadHolidays('UK', [
+      { date: '2024-01-01', name: "New Year's Day" },
+      { date: '2024-03-29', name: 'Good Friday' },
+      { date: '2024-12-25', name: 'Christmas Day' },
+      { date: '2024-12-26', name: 'Boxing Day' },
+      { date: '2025-01-01', name: "New Year's Day" },
+    ])).holidaySetId;
+  });
+
+  async function projectionDates(schedule: Omit<NewSchedule, 'eventId'>, startDate: string, endDate: string) {
+    await client.createSchedule({ eventId, ...schedule });
+    const projections = await client.getEventProjections(eventId, startDate, endDate);
+    return projections.map((p) => p.projectionDate);
+  }
+
+  it('should occur every business day, around weekends and holidays', async () => {
+    expect(await projectionDates({
+      startDate: '2024-12-20 09:00:00',
+      endDate: '2025-01-03 17:00:00',
+      recurrenceType: 'business_day',
+      holidaySetId,
+    }, '2024-12-01', '2025-01-31')).toEqual([
+      '2024-12-20', '2024-12-23', '2024-12-24', '2024-12-27',
+      '2024-12-30', '2024-12-31', '2025-01-02', '2025-01-03',
+    ]);
+  });
+
+  it('should occur on the nth business day of each month', async () => {
+    // New Year's Day is a Monday, so the 3rd business day of January is Thursday
+    expect(await projectionDates({
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-03-31 10:00:00',
+      recurrenceType: 'business_day',
+      recurrenceDayOfMonth: 3,
+      holidaySetId,
+    }, '2024-01-01', '2024-03-31')).toEqual(['2024-01-04', '2024-02-05', '2024-03-05']);
+  });
+
+  it('should count from the month end for negative days', async () => {
+    // The last business day of March is before Good Friday
+    expect(await projectionDates({
+      startDate: '2024-01-01 16:00:00',
+      endDate: '2024-03-31 17:00:00',
+      recurrenceType: 'business_day',
+      recurrenceDayOfMonth: -1,
+      holidaySetId,
+    }, '2024-01-01', '2024-03-31')).toEqual(['2024-01-31', '2024-02-29', '2024-03-28']);
+  });
+
+  it('should use the schedule\'s weekend and count every interval-th business day', async () => {
+    const dates = await projectionDates({
+      startDate: '2024-07-01 09:00:00',
+      endDate: '2024-07-20 10:00:00',
+      recurrenceType: 'business_day',
+      recurrenceInterval: 2,
+      weekendDays: [5, 6],
+    }, '2024-07-05', '2024-07-31');
+
+    // Sunday to Thursday, every other one from Monday, July 1
+    expect(dates).toEqual(['2024-07-07', '2024-07-09', '2024-07-11', '2024-07-15', '2024-07-17']);
+    expect((await client.listSchedules(eventId))[0].weekendDays).toEqual([5, 6]);
+  });
+
+  it('should answer should_generate_projection and get_next_recurrence_date like the engine', async () => {
+    const schedule = await client.createSchedule({
+      eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-12-31 10:00:00',
+      recurrenceType: 'business_day',
+      recurrenceDayOfMonth: 3,
+      holidaySetId,
+    });
+    const result = await pool.query(
+      `SELECT pgcalendar.should_generate_projection(s, '2024-01-03') AS jan3,
+              pgcalendar.should_generate_projection(s, '2024-01-04') AS jan4,
+              pgcalendar.get_next_recurrence_date(s, '2024-01-04')::text AS next
+       FROM pgcalendar.schedules s WHERE schedule_id = $1`,
+      [schedule.scheduleId],
+    );
+    expect(result.rows[0]).toEqual({ jan3: false, jan4: true, next: '2024-02-05' });
+
+    const engineSchedule = {
+      ...schedule,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-12-31 10:00:00',
+      holidays: (await client.listHolidays(holidaySetId)).map((h) => h.date),
+    };
+    expect(shouldGenerateProjection(engineSchedule, '2024-01-03')).toBe(false);
+    expect(shouldGenerateProjection(engineSchedule, '2024-01-04')).toBe(true);
+    expect(getNextRecurrenceDate(engineSchedule, '2024-01-04')).toBe('2024-02-05');
+  });
+
+  it('should convert to an RRULE unless holidays take part', async () => {
+    const nth = await client.createSchedule({
+      eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-03-31 10:00:00',
+      recurrenceType: 'business_day',
+      recurrenceDayOfMonth: 3,
+    });
+    expect(await client.convertScheduleToRRule(nth.scheduleId))
+      .toBe('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=3');
+    expect((await client.getEventProjections(eventId, '2024-01-01', '2024-03-31')).map((p) => p.projectionDate))
+      .toEqual(['2024-01-03', '2024-02-05', '2024-03-05']);
+
+    const withHolidays = await client.createSchedule({
+      eventId,
+      startDate: '2024-04-01 09:00:00',
+      endDate: '2024-04-30 10:00:00',
+      recurrenceType: 'business_day',
+      holidaySetId,
+    });
+    await expect(client.convertScheduleToRRule(withHolidays.scheduleId)).rejects.toThrow(/RRULE cannot express/);
+  });
+
+  it('should reject a week without business days', async () => {
+    await expect(client.createSchedule({
+      eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-31 10:00:00',
+      recurrenceType: 'business_day',
+      weekendDays: [0, 1, 2, 3, 4, 5, 6],
+    })).rejects.toThrow(/valid_weekend_days/);
+  });
+});
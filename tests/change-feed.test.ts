@@ -0,0 +1,133 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { CalendarChange, ChangeSubscriber, PgCalendarClient } from '../src';
+
+describe('pgcalendar - Change Feed', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let subscriber: ChangeSubscriber;
+  let changes: CalendarChange[];
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    changes = [];
+    subscriber = new ChangeSubscriber(pool, { reconnectDelayMs: 50 });
+    subscriber.on('change', (change) => changes.push(change));
+    await subscriber.start();
+  });
+
+  afterEach(async () => {
+    await subscriber.stop();
+  });
+
+  // Notifications are delivered after the commit, asynchronously
+  async function waitForChanges(count: number): Promise<CalendarChange[]> {
+    for (let i = 0; i < 100 && changes.length < count; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    return changes;
+  }
+
+  it('should notify inserts, updates and deletes with the affected dates', async () => {
+    const event = await client.createEvent({ name: 'Standup' });
+    const schedule = await client.createSchedule({
+      eventId: event.eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-31 09:15:00',
+      recurrenceType: 'daily',
+    });
+    await client.updateSchedule(schedule.scheduleId, { startDate: '2023-12-15 09:00:00' });
+    await client.deleteEvent(event.eventId);
+
+    expect(await waitForChanges(5)).toEqual([
+      { entity: 'event', id: event.eventId, operation: 'insert', eventId: event.eventId, tenantId: null, from: null, until: null },
+      {
+        entity: 'schedule',
+        id: schedule.scheduleId,
+        operation: 'insert',
+        eventId: event.eventId,
+        tenantId: null,
+        from: '2024-01-01',
+        until: '2024-01-31',
+      },
+      {
+        entity: 'schedule',
+        id: schedule.scheduleId,
+        operation: 'update',
+        eventId: event.eventId,
+        tenantId: null,
+        from: '2023-12-15',
+        until: '2024-01-31',
+      },
+      { entity: 'event', id: event.eventId, operation: 'delete', eventId: event.eventId, tenantId: null, from: null, until: null },
+      {
+        entity: 'schedule',
+        id: schedule.scheduleId,
+        operation: 'delete',
+        eventId: event.eventId,
+        tenantId: null,
+        from: '2023-12-15',
+        until: '2024-01-31',
+      },
+    ]);
+  });
+
+  it('should cover both dates of a moved occurrence', async () => {
+    const event = await client.createEvent({ name: 'Standup' });
+    const schedule = await client.createSchedule({
+      eventId: event.eventId,
+      startDate: '2024-01-01 22:00:00',
+      recurrenceType: 'daily',
+      durationMinutes: 180,
+    });
+    const exception = await client.createException({
+      scheduleId: schedule.scheduleId,
+      exceptionDate: '2024-01-10',
+      exceptionType: 'modified',
+      modifiedDate: '2024-01-05',
+    });
+
+    const [eventChange, scheduleChange, exceptionChange] = await waitForChanges(3);
+    expect(eventChange.from).toBeNull();
+    // Unbounded
+    expect([scheduleChange.from, scheduleChange.until]).toEqual(['2024-01-01', null]);
+    // Occurrences end the day after they start
+    expect(exceptionChange).toEqual({
+      entity: 'exception',
+      id: exception.exceptionId,
+      operation: 'insert',
+      eventId: event.eventId,
+      tenantId: null,
+      from: '2024-01-05',
+      until: '2024-01-11',
+    });
+  });
+
+  it('should reconnect after the connection drops', async () => {
+    const disconnected = new Promise((resolve) => subscriber.once('disconnected', resolve));
+    const reconnected = new Promise((resolve) => subscriber.once('connected', resolve));
+
+    await pool.query(
+      `SELECT pg_terminate_backend(pid) FROM pg_stat_activity
+       WHERE query = 'LISTEN pgcalendar_changes' AND pid <> pg_backend_pid()`,
+    );
+    await disconnected;
+    expect(await reconnected).toBe(true);
+
+    const event = await client.createEvent({ name: 'After the drop' });
+    expect((await waitForChanges(1)).map((c) => c.id)).toEqual([event.eventId]);
+  });
+
+  it('should stop delivering changes once stopped', async () => {
+    await subscriber.stop();
+    await client.createEvent({ name: 'Unheard' });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient } from '../src';
+
+describe('pgcalendar - TypeScript Client', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let eventId: number;
+  let scheduleId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const event = await client.createEvent({
+      name: 'Test Event',
+      description: 'A test event',
+      category: 'meeting',
+      metadata: { room: 'A' },
+    });
+    eventId = event.eventId;
+
+    const schedule = await client.createSchedule({
+      eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-07 10:00:00',
+      recurrenceType: 'daily',
+    });
+    scheduleId = schedule.scheduleId;
+  });
+
+  describe('Events', () => {
+    it('should create and fetch an event with typed fields', async () => {
+      const event = await client.getEvent(eventId);
+
+      expect(event).not.toBeNull();
+      expect(event!.name).toBe('Test Event');
+      expect(event!.category).toBe('meeting');
+      expect(event!.priority).toBe(1);
+      expect(event!.metadata).toEqual({ room: 'A' });
+      expect(event!.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should update only the given fields', async () => {
+      const updated = await client.updateEvent(eventId, { priority: 5 });
+
+      expect(updated!.priority).toBe(5);
+      expect(updated!.name).toBe('Test Event');
+    });
+
+    it('should return null for a missing event', async () => {
+      expect(await client.getEvent(99999)).toBeNull();
+      expect(await client.updateEvent(99999, { name: 'Nope' })).toBeNull();
+    });
+
+    it('should delete an event', async () => {
+      expect(await client.deleteEvent(eventId)).toBe(true);
+      expect(await client.deleteEvent(eventId)).toBe(false);
+      expect(await client.listSchedules(eventId)).toHaveLength(0);
+    });
+  });
+
+  describe('Schedules', () => {
+    it('should map schedule columns', async () => {
+      const schedule = await client.getSchedule(scheduleId);
+
+      expect(schedule!.eventId).toBe(eventId);
+      expect(schedule!.recurrenceType).toBe('daily');
+      expect(schedule!.recurrenceInterval).toBe(1);
+      expect(schedule!.recurrenceDayOfWeek).toBeNull();
+      expect(schedule!.startDate).toEqual(new Date(2024, 0, 1, 9, 0, 0));
+    });
+
+    it('should surface the overlap trigger error', async () => {
+      await expect(
+        client.createSchedule({
+          eventId,
+          startDate: '2024-01-05 09:00:00',
+          endDate: '2024-01-10 10:00:00',
+          recurrenceType: 'daily',
+        }),
+      ).rejects.toThrow(/overlap/);
+    });
+
+    it('should update a schedule', async () => {
+      const updated = await client.updateSchedule(scheduleId, { recurrenceInterval: 2 });
+
+      expect(updated!.recurrenceInterval).toBe(2);
+      expect(await client.getEventProjections(eventId, '2024-01-01', '2024-01-07')).toHaveLength(4);
+    });
+  });
+
+  describe('Exceptions', () => {
+    it('should return exception dates as date-only strings', async () => {
+      const exception = await client.createException({
+        scheduleId,
+        exceptionDate: new Date(2024, 0, 3),
+        exceptionType: 'modified',
+        modifiedDate: '2024-01-04',
+        modifiedStartTime: '2024-01-04 14:00:00',
+      });
+
+      expect(exception.exceptionDate).toBe('2024-01-03');
+      expect(exception.modifiedDate).toBe('2024-01-04');
+      expect(exception.modifiedStartTime).toEqual(new Date(2024, 0, 4, 14, 0, 0));
+      expect(exception.modifiedEndTime).toBeNull();
+      expect(await client.listExceptions(scheduleId)).toHaveLength(1);
+    });
+
+    it('should reject malformed dates before querying', async () => {
+      await expect(
+        client.createException({
+          scheduleId,
+          exceptionDate: '01/03/2024',
+          exceptionType: 'cancelled',
+        }),
+      ).rejects.toThrow(RangeError);
+    });
+  });
+
+  describe('Projections', () => {
+    it('should return typed projections for an event', async () => {
+      await client.createException({
+        scheduleId,
+        exceptionDate: '2024-01-03',
+        exceptionType: 'cancelled',
+      });
+
+      const projections = await client.getEventProjections(eventId, '2024-01-01', '2024-01-07');
+
+      expect(projections).toHaveLength(6);
+      expect(projections.map((p) => p.projectionDate)).not.toContain('2024-01-03');
+      expect(projections[0]).toEqual({
+        projectionDate: '2024-01-01',
+        startTime: new Date(2024, 0, 1, 9, 0, 0),
+        endTime: new Date(2024, 0, 1, 10, 0, 0),
+        status: 'active',
+        eventName: 'Test Event',
+        eventDescription: 'A test event',
+        eventCategory: 'meeting',
+        scheduleDescription: null,
+        timeZone: null,
+        localStartTime: new Date(2024, 0, 1, 9, 0, 0),
+        localEndTime: new Date(2024, 0, 1, 10, 0, 0),
+        location: null,
+        metadata: { room: 'A' },
+        overriddenFields: [],
+        response: null,
+      });
+    });
+
+    it('should return projections for all events', async () => {
+      const projections = await client.getEventsDetailed(
+        new Date(2024, 0, 1),
+        new Date(2024, 0, 2),
+      );
+
+      expect(projections.map((p) => p.projectionDate)).toEqual(['2024-01-01', '2024-01-02']);
+    });
+  });
+
+  describe('Functions', () => {
+    it('should check schedule overlap', async () => {
+      expect(await client.checkScheduleOverlap(eventId, '2024-01-05 00:00:00', '2024-01-06 00:00:00')).toBe(true);
+      expect(await client.checkScheduleOverlap(eventId, '2024-01-08 00:00:00', '2024-01-09 00:00:00')).toBe(false);
+    });
+
+    it('should transition to a new schedule', async () => {
+      const schedule = await client.transitionEventSchedule({
+        eventId,
+        startDate: '2024-01-15 09:00:00',
+        endDate: '2024-01-31 10:00:00',
+        recurrenceType: 'weekly',
+        recurrenceDayOfWeek: 1,
+        description: 'Weekly from now on',
+      });
+
+      expect(schedule.recurrenceType).toBe('weekly');
+      expect(schedule.recurrenceDayOfWeek).toBe(1);
+      expect(schedule.description).toBe('Weekly from now on');
+      expect(await client.listSchedules(eventId)).toHaveLength(2);
+    });
+  });
+});
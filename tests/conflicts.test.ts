@@ -0,0 +1,169 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient } from '../src';
+
+describe('pgcalendar - Conflicts', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let standupId: number;
+  let reviewId: number;
+  let roomId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    standupId = (await client.createEvent({ name: 'Standup' })).eventId;
+    reviewId = (await client.createEvent({ name: 'Review' })).eventId;
+    roomId = (await client.createResource({ name: 'Room A' })).resourceId;
+    await client.addEventResource(standupId, roomId);
+    await client.addEventResource(reviewId, roomId);
+
+    await client.createSchedule({
+      eventId: standupId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-05 10:00:00',
+      recurrenceType: 'daily',
+    });
+  });
+
+  async function scheduleReview(startDate: string, endDate: string) {
+    return client.createSchedule({ eventId: reviewId, startDate, endDate, recurrenceType: 'daily' });
+  }
+
+  it('should return overlapping occurrences of events sharing a resource', async () => {
+    const review = await scheduleReview('2024-01-03 09:30:00', '2024-01-04 10:30:00');
+
+    const conflicts = await client.findConflicts('2024-01-01', '2024-01-31');
+
+    expect(conflicts.map((c) => [c.conflictType, c.sharedId, c.eventId, c.occurrenceDate, c.otherEventId]))
+      .toEqual([
+        ['resource', roomId, standupId, '2024-01-03', reviewId],
+        ['resource', roomId, standupId, '2024-01-04', reviewId],
+      ]);
+    expect(conflicts[0].otherScheduleId).toBe(review.scheduleId);
+    expect(conflicts[0].otherStartTime).toEqual(new Date(2024, 0, 3, 9, 30, 0));
+  });
+
+  it('should compare occurrences in different time zones by their instants', async () => {
+    // 09:00 in New York is 15:00 in Berlin
+    await client.updateSchedule((await client.listSchedules(standupId))[0].scheduleId, {
+      timeZone: 'America/New_York',
+    });
+    await client.createSchedule({
+      eventId: reviewId,
+      startDate: '2024-01-02 15:30:00',
+      endDate: '2024-01-02 16:00:00',
+      recurrenceType: 'daily',
+      timeZone: 'Europe/Berlin',
+    });
+    await client.createSchedule({
+      eventId: reviewId,
+      startDate: '2024-01-03 09:30:00',
+      endDate: '2024-01-03 10:00:00',
+      recurrenceType: 'daily',
+      timeZone: 'Europe/Berlin',
+    });
+
+    const conflicts = await client.findConflicts('2024-01-01', '2024-01-31');
+    expect(conflicts.map((c) => c.otherOccurrenceDate)).toEqual(['2024-01-02']);
+  });
+
+  it('should skip moved occurrences and participants who declined', async () => {
+    await client.removeEventResource(reviewId, roomId);
+    const review = await scheduleReview('2024-01-02 09:30:00', '2024-01-03 10:30:00');
+    const ana = (await client.createParticipant({ name: 'Ana' })).participantId;
+    await client.addAttendee(standupId, ana, 'accepted');
+    await client.addAttendee(reviewId, ana, 'accepted');
+
+    await client.createException({
+      scheduleId: review.scheduleId,
+      exceptionDate: '2024-01-02',
+      exceptionType: 'modified',
+      modifiedStartTime: '2024-01-02 14:00:00',
+      modifiedEndTime: '2024-01-02 15:00:00',
+    });
+    expect((await client.findConflicts('2024-01-01', '2024-01-31')).map((c) => [c.conflictType, c.occurrenceDate]))
+      .toEqual([['participant', '2024-01-03']]);
+
+    await client.setOccurrenceResponse(review.scheduleId, '2024-01-03', ana, 'declined');
+    expect(await client.findConflicts('2024-01-01', '2024-01-31')).toEqual([]);
+  });
+
+  it('should limit conflicts to the given events', async () => {
+    await scheduleReview('2024-01-03 09:30:00', '2024-01-03 10:30:00');
+    const other = (await client.createEvent({ name: 'Interview' })).eventId;
+    await client.addEventResource(other, roomId);
+    await client.createSchedule({
+      eventId: other,
+      startDate: '2024-01-04 09:00:00',
+      endDate: '2024-01-04 09:30:00',
+      recurrenceType: 'daily',
+    });
+
+    expect(await client.findConflicts('2024-01-01', '2024-01-31')).toHaveLength(2);
+    const forInterview = await client.findConflicts('2024-01-01', '2024-01-31', [other]);
+    expect(forInterview.map((c) => [c.eventId, c.otherEventId, c.occurrenceDate]))
+      .toEqual([[standupId, other, '2024-01-04']]);
+  });
+
+  it('should reject double-booking an exclusive resource', async () => {
+    await client.updateResource(roomId, { exclusive: true });
+
+    await expect(scheduleReview('2024-01-03 09:30:00', '2024-01-03 10:30:00'))
+      .rejects.toThrow(/Room A is double-booked/);
+    const review = await scheduleReview('2024-01-03 10:00:00', '2024-01-03 11:00:00');
+
+    // Moving an occurrence into a booked slot is rejected, cancelling one frees it
+    await expect(client.createException({
+      scheduleId: review.scheduleId,
+      exceptionDate: '2024-01-03',
+      exceptionType: 'modified',
+      modifiedStartTime: '2024-01-03 09:45:00',
+      modifiedEndTime: '2024-01-03 10:45:00',
+    })).rejects.toThrow(/double-booked/);
+
+    const standup = (await client.listSchedules(standupId))[0];
+    await client.createException({ scheduleId: standup.scheduleId, exceptionDate: '2024-01-04', exceptionType: 'cancelled' });
+    await client.createSchedule({
+      eventId: reviewId,
+      startDate: '2024-01-04 09:30:00',
+      endDate: '2024-01-04 10:30:00',
+      recurrenceType: 'daily',
+    });
+    expect(await client.findConflicts('2024-01-01', '2024-01-31')).toEqual([]);
+  });
+
+  it('should check unbounded series', async () => {
+    await client.updateResource(roomId, { exclusive: true });
+
+    // Weekly on Fridays, the fifth occurrence clashes with the standup on January 5
+    await expect(client.createSchedule({
+      eventId: reviewId,
+      startDate: '2023-12-01 09:30:00',
+      recurrenceType: 'weekly',
+      recurrenceDayOfWeek: 5,
+      durationMinutes: 30,
+    })).rejects.toThrow(/double-booked/);
+  });
+
+  it('should see new occurrences when the projections cache covers them', async () => {
+    await client.updateResource(roomId, { exclusive: true });
+    await client.extendProjectionWindow('2024-01-01', '2024-12-31');
+    await client.setProjectionCacheEnabled(true);
+
+    try {
+      await expect(scheduleReview('2024-01-03 09:30:00', '2024-01-03 10:30:00'))
+        .rejects.toThrow(/double-booked/);
+    } finally {
+      await pool.query(
+        `UPDATE pgcalendar.projection_cache_settings
+         SET enabled = FALSE, window_start = NULL, window_end = NULL, refreshed_at = NULL`,
+      );
+      await pool.query('DELETE FROM pgcalendar.projections');
+    }
+  });
+});
@@ -0,0 +1,440 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import {
+  EngineException,
+  EngineSchedule,
+  generateProjections,
+  getNextRecurrenceDate,
+  shouldGenerateProjection,
+} from '../src';
+import { HolidayPolicy, MissingDayPolicy, RecurrenceType } from '../src/types';
+
+// Small seeded PRNG so a failing parity case can be replayed
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function isoDay(date: Date): string {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Builds a random rule within the supported RRULE subset
+function randomRRule(random: () => number, freq: RecurrenceType): string {
+  const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const sample = <T>(values: T[], max: number): T[] =>
+    [...new Set(Array.from({ length: int(1, max) }, () => values[int(0, values.length - 1)]))];
+  const nonZero = (min: number, max: number) => {
+    const value = int(min, max);
+    return value === 0 ? 1 : value;
+  };
+  const days = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+  const parts = [`FREQ=${freq.toUpperCase()}`];
+
+  if (random() < 0.5) {
+    parts.push(`INTERVAL=${int(1, 3)}`);
+  }
+  const byMonth = freq !== 'weekly' && random() < 0.3;
+  if (random() < 0.6) {
+    const ordinals = freq === 'monthly' || (freq === 'yearly' && byMonth)
+      ? [-5, 5]
+      : freq === 'yearly' ? [-53, 53] : null;
+    const byDay = sample(days, 3).map((day) =>
+      ordinals && random() < 0.5 ? `${nonZero(ordinals[0], ordinals[1])}${day}` : day);
+    parts.push(`BYDAY=${byDay.join(',')}`);
+  }
+  if (freq !== 'weekly' && random() < 0.4) {
+    parts.push(`BYMONTHDAY=${sample([1, 2, 15, 28, 29, 30, 31, -1, -2, -15], 3).join(',')}`);
+  }
+  if (byMonth) {
+    parts.push(`BYMONTH=${sample([1, 2, 3, 6, 9, 12], 2).join(',')}`);
+  }
+  if (parts.some((part) => part.startsWith('BY')) && random() < 0.3) {
+    parts.push(`BYSETPOS=${sample([1, 2, -1, -2], 2).join(',')}`);
+  }
+  if (random() < 0.3) {
+    parts.push(`COUNT=${int(1, 20)}`);
+  } else if (random() < 0.3) {
+    parts.push(`UNTIL=${2023 + int(0, 3)}${String(int(1, 12)).padStart(2, '0')}15`);
+  }
+  if (freq === 'weekly' && random() < 0.3) {
+    parts.push(`WKST=${days[int(0, 6)]}`);
+  }
+  return parts.join(';');
+}
+
+function timestamp(day: string, hours: number, minutes: number): string {
+  return `${day} ${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`;
+}
+
+describe('pgcalendar - Projection Engine', () => {
+  const daily: EngineSchedule = {
+    startDate: '2024-01-01 09:00:00',
+    endDate: '2024-01-07 10:00:00',
+    recurrenceType: 'daily',
+    recurrenceInterval: 1,
+    recurrenceDayOfWeek: null,
+    recurrenceDayOfMonth: null,
+    recurrenceMonth: null,
+  };
+
+  describe('generateProjections', () => {
+    it('should expand a daily schedule with times from start and end dates', () => {
+      const projections = generateProjections(daily, [], '2024-01-01', '2024-01-31');
+
+      expect(projections).toHaveLength(7);
+      expect(projections[0]).toEqual({
+        projectionDate: '2024-01-01',
+        startTime: new Date(2024, 0, 1, 9, 0, 0),
+        endTime: new Date(2024, 0, 1, 10, 0, 0),
+        status: 'active',
+      });
+    });
+
+    it('should end occurrences before their start time on the next day', () => {
+      const [shift] = generateProjections(
+        { ...daily, startDate: '2024-01-01 22:00:00', endDate: '2024-01-07 06:00:00' },
+        [],
+        '2024-01-01',
+        '2024-01-01',
+      );
+
+      expect(shift.endTime).toEqual(new Date(2024, 0, 2, 6, 0, 0));
+    });
+
+    it('should apply cancelled and modified exceptions', () => {
+      const exceptions: EngineException[] = [
+        { exceptionDate: '2024-01-02', exceptionType: 'cancelled' },
+        { exceptionDate: '2024-01-03', exceptionType: 'modified', modifiedDate: '2024-01-10' },
+      ];
+
+      const projections = generateProjections(daily, exceptions, '2024-01-01', '2024-01-07');
+
+      expect(projections.map((p) => p.projectionDate)).toEqual([
+        '2024-01-01', '2024-01-10', '2024-01-04', '2024-01-05', '2024-01-06', '2024-01-07',
+      ]);
+      expect(projections[1].status).toBe('modified');
+      expect(projections[1].startTime).toEqual(new Date(2024, 0, 10, 9, 0, 0));
+    });
+
+    it('should add extra occurrences with their own times', () => {
+      const exceptions: EngineException[] = [
+        {
+          exceptionDate: '2024-01-20',
+          exceptionType: 'added',
+          modifiedStartTime: '2024-01-20 14:00:00',
+          modifiedEndTime: '2024-01-20 15:30:00',
+        },
+        { exceptionDate: '2024-01-03', exceptionType: 'added', modifiedEndTime: '2024-01-03 12:00:00' },
+      ];
+
+      const projections = generateProjections(daily, exceptions, '2024-01-01', '2024-01-31');
+
+      expect(projections.map((p) => [p.projectionDate, p.status])).toEqual([
+        ['2024-01-01', 'active'],
+        ['2024-01-02', 'active'],
+        ['2024-01-03', 'added'],
+        ['2024-01-04', 'active'],
+        ['2024-01-05', 'active'],
+        ['2024-01-06', 'active'],
+        ['2024-01-07', 'active'],
+        ['2024-01-20', 'added'],
+      ]);
+      expect(projections[2].endTime).toEqual(new Date(2024, 0, 3, 12, 0, 0));
+      expect(projections[7].startTime).toEqual(new Date(2024, 0, 20, 14, 0, 0));
+      expect(projections[7].endTime).toEqual(new Date(2024, 0, 20, 15, 30, 0));
+    });
+
+    it('should accept Date values for schedule bounds', () => {
+      const projections = generateProjections(
+        { ...daily, startDate: new Date(2024, 0, 1, 9), endDate: new Date(2024, 0, 3, 10) },
+        [],
+        '2024-01-01',
+        '2024-01-31',
+      );
+
+      expect(projections).toHaveLength(3);
+    });
+  });
+
+  describe('recurrence helpers', () => {
+    it('should match weekly dates on the configured weekday only', () => {
+      const weekly = { ...daily, recurrenceType: 'weekly' as const, recurrenceDayOfWeek: 1 };
+
+      expect(shouldGenerateProjection(weekly, '2024-01-08')).toBe(true);
+      expect(shouldGenerateProjection(weekly, '2024-01-09')).toBe(false);
+    });
+
+    it('should match several weekdays in every interval-th week', () => {
+      const weekly = {
+        ...daily,
+        startDate: '2024-01-03 09:00:00',
+        endDate: '2024-01-31 10:00:00',
+        recurrenceType: 'weekly' as const,
+        recurrenceInterval: 2,
+        recurrenceDaysOfWeek: [1, 3, 5],
+      };
+
+      expect(generateProjections(weekly, [], '2024-01-01', '2024-01-31').map((p) => p.projectionDate)).toEqual([
+        '2024-01-03', '2024-01-05', '2024-01-15', '2024-01-17', '2024-01-19', '2024-01-29', '2024-01-31',
+      ]);
+      expect(getNextRecurrenceDate(weekly, '2024-01-05')).toBe('2024-01-15');
+    });
+
+    it('should expand native RRULE schedules', () => {
+      const projections = generateProjections(
+        { ...daily, endDate: '2024-12-31 10:00:00', rrule: 'FREQ=MONTHLY;BYDAY=-1FR;COUNT=3' },
+        [],
+        '2024-02-01',
+        '2024-12-31',
+      );
+
+      expect(projections.map((p) => p.projectionDate)).toEqual(['2024-02-23', '2024-03-29']);
+    });
+
+    it('should keep the wall-clock time of zoned schedules across DST changes', () => {
+      const projections = generateProjections(
+        { ...daily, startDate: '2024-03-09 09:00:00', endDate: '2024-03-11 09:30:00', timeZone: 'America/New_York' },
+        [{ exceptionDate: '2024-03-11', exceptionType: 'modified', modifiedStartTime: '2024-03-11 02:30:00' }],
+        '2024-03-01',
+        '2024-03-31',
+      );
+
+      expect(projections.map((p) => [p.startTime.toISOString(), p.endTime.toISOString()])).toEqual([
+        ['2024-03-09T14:00:00.000Z', '2024-03-09T14:30:00.000Z'],
+        ['2024-03-10T13:00:00.000Z', '2024-03-10T13:30:00.000Z'],
+        ['2024-03-11T06:30:00.000Z', '2024-03-11T13:30:00.000Z'],
+      ]);
+    });
+
+    it('should resolve skipped and repeated local times like PostgreSQL', () => {
+      const at = (day: string, time: string) => generateProjections(
+        { ...daily, startDate: `${day} ${time}`, endDate: `${day} 23:00:00`, timeZone: 'America/New_York' },
+        [],
+        day,
+        day,
+      )[0].startTime.toISOString();
+
+      expect(at('2024-03-10', '02:30:00')).toBe('2024-03-10T07:30:00.000Z');
+      expect(at('2024-11-03', '01:30:00')).toBe('2024-11-03T06:30:00.000Z');
+    });
+
+    it('should apply the missing day policy to monthly dates', () => {
+      const monthly = {
+        ...daily,
+        endDate: '2024-12-31 10:00:00',
+        recurrenceType: 'monthly' as const,
+        recurrenceDayOfMonth: 31,
+      };
+
+      expect(getNextRecurrenceDate(monthly, '2024-01-31')).toBe('2024-03-31');
+      expect(getNextRecurrenceDate({ ...monthly, missingDayPolicy: 'clamp' }, '2024-01-31')).toBe('2024-02-29');
+      expect(getNextRecurrenceDate({ ...monthly, missingDayPolicy: 'clamp' }, '2024-02-29')).toBe('2024-03-31');
+      expect(getNextRecurrenceDate({ ...monthly, missingDayPolicy: 'roll' }, '2024-01-31')).toBe('2024-03-01');
+      expect(shouldGenerateProjection({ ...monthly, missingDayPolicy: 'roll' }, '2024-05-01')).toBe(true);
+    });
+
+    it('should expand nth-weekday and last-day monthly schedules', () => {
+      const monthly = {
+        ...daily,
+        endDate: '2024-04-30 10:00:00',
+        recurrenceType: 'monthly' as const,
+        recurrenceDayOfWeek: 5,
+        recurrenceWeekOfMonth: -1,
+      };
+
+      expect(generateProjections(monthly, [], '2024-01-01', '2024-12-31').map((p) => p.projectionDate))
+        .toEqual(['2024-01-26', '2024-02-23', '2024-03-29', '2024-04-26']);
+      expect(generateProjections(
+        { ...monthly, recurrenceWeekOfMonth: null, recurrenceDayOfMonth: -1 },
+        [],
+        '2024-01-01',
+        '2024-12-31',
+      ).map((p) => p.projectionDate)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+    });
+  });
+
+  describe('SQL parity', () => {
+    const CASES = 150;
+    const seed = Number(process.env.PGCALENDAR_PARITY_SEED) || Date.now();
+    const types: RecurrenceType[] = ['daily', 'weekly', 'monthly', 'yearly', 'business_day'];
+    const zones = ['America/New_York', 'Europe/London', 'Australia/Sydney', 'Asia/Kolkata', 'UTC'];
+    const policies: MissingDayPolicy[] = ['skip', 'clamp', 'roll'];
+    const holidayPolicies: HolidayPolicy[] = ['skip', 'previous_business_day', 'next_business_day'];
+    let pool: Pool;
+
+    beforeAll(async () => {
+      pool = await setupTestDatabase();
+      await cleanTestData(pool);
+    });
+
+    afterAll(async () => {
+      await cleanTestData(pool);
+    });
+
+    it(`should match generate_projections for random schedules (seed ${seed})`, async () => {
+      const random = mulberry32(seed);
+      const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+      const pick = <T>(values: T[]): T => values[int(0, values.length - 1)];
+      const dayAfter = (day: string, offset: number) => {
+        const [y, m, d] = day.split('-').map(Number);
+        return isoDay(new Date(y, m - 1, d + offset));
+      };
+
+      const eventResult = await pool.query(
+        `INSERT INTO pgcalendar.events (name) VALUES ($1) RETURNING event_id`,
+        ['Parity Event'],
+      );
+      const eventId = eventResult.rows[0].event_id;
+
+      for (let i = 0; i < CASES; i++) {
+        const recurrenceType = pick(types);
+        const startDay = dayAfter('2023-01-01', int(0, 730));
+        const endDay = dayAfter(startDay, int(0, recurrenceType === 'daily' ? 120 : 1500));
+        const open = random() < 0.2;
+        const occurrenceEnd = open || random() < 0.3 ? pick(['duration', 'time']) : null;
+        const schedule: EngineSchedule = {
+          startDate: timestamp(startDay, int(0, 23), pick([0, 15, 30, 45])),
+          endDate: open ? null : timestamp(endDay, int(0, 23), pick([0, 15, 30, 45])),
+          occurrenceCount: random() < 0.25 ? int(1, 30) : null,
+          durationMinutes: occurrenceEnd === 'duration' ? int(0, 3000) : null,
+          occurrenceEndTime: occurrenceEnd === 'time' ? `${String(int(0, 23)).padStart(2, '0')}:30:00` : null,
+          recurrenceType,
+          recurrenceInterval: int(1, 4),
+          recurrenceDayOfWeek: random() < 0.9 ? int(0, 6) : null,
+          recurrenceDaysOfWeek: random() < 0.4 ? [...new Set([int(0, 6), int(0, 6), int(0, 6)])] : null,
+          recurrenceDayOfMonth: random() < 0.9 ? pick([int(1, 28), int(29, 31), -int(1, 31)]) : null,
+          recurrenceMonth: random() < 0.9 ? int(1, 12) : null,
+          recurrenceWeekOfMonth: random() < 0.3 ? pick([1, 2, 4, 5, -1, -2, -5]) : null,
+          missingDayPolicy: pick(policies),
+          rrule: random() < 0.4 && recurrenceType !== 'business_day' ? randomRRule(random, recurrenceType) : null,
+          timeZone: random() < 0.5 ? pick(zones) : null,
+          weekendDays: random() < 0.3 ? [...new Set([int(0, 6), int(0, 6)])] : [0, 6],
+        };
+
+        // Holidays on some occurrences and on days next to them
+        const rangeStart = dayAfter(startDay, int(-60, 60));
+        const rangeEnd = dayAfter(rangeStart, int(0, 1000));
+        const occurrences = generateProjections(schedule, [], rangeStart, rangeEnd);
+        let holidaySetId: number | null = null;
+        if (random() < 0.5) {
+          schedule.holidays = occurrences
+            .filter(() => random() < 0.3)
+            .flatMap((p) => (random() < 0.5
+              ? [p.projectionDate, dayAfter(p.projectionDate, pick([-1, 1]))]
+              : [p.projectionDate]));
+          schedule.holidayPolicy = pick(holidayPolicies);
+          const holidaySet = await pool.query(
+            'SELECT pgcalendar.load_holidays($1, $2) AS holiday_set_id',
+            ['Parity Holidays', JSON.stringify(schedule.holidays.map((date) => ({ date })))],
+          );
+          holidaySetId = holidaySet.rows[0].holiday_set_id;
+        }
+
+        const scheduleResult = await pool.query(
+          `INSERT INTO pgcalendar.schedules
+           (event_id, start_date, end_date, recurrence_type, recurrence_interval,
+            recurrence_day_of_week, recurrence_day_of_month, recurrence_month,
+            recurrence_week_of_month, missing_day_policy, rrule, time_zone, recurrence_days_of_week,
+            occurrence_count, duration_minutes, occurrence_end_time, holiday_set_id, holiday_policy,
+            weekend_days)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+           RETURNING schedule_id`,
+          [
+            eventId,
+            schedule.startDate,
+            schedule.endDate,
+            schedule.recurrenceType,
+            schedule.recurrenceInterval,
+            schedule.recurrenceDayOfWeek,
+            schedule.recurrenceDayOfMonth,
+            schedule.recurrenceMonth,
+            schedule.recurrenceWeekOfMonth,
+            schedule.missingDayPolicy,
+            schedule.rrule,
+            schedule.timeZone,
+            schedule.recurrenceDaysOfWeek,
+            schedule.occurrenceCount,
+            schedule.durationMinutes,
+            schedule.occurrenceEndTime,
+            holidaySetId,
+            schedule.holidayPolicy ?? 'skip',
+            schedule.weekendDays,
+          ],
+        );
+        const scheduleId = scheduleResult.rows[0].schedule_id;
+
+        // Put exceptions on real occurrences and on a few arbitrary days
+        const exceptionDays = new Set<string>();
+        occurrences.forEach((p) => random() < 0.2 && exceptionDays.add(p.projectionDate));
+        exceptionDays.add(dayAfter(startDay, int(0, 30)));
+        exceptionDays.add(dayAfter(rangeStart, int(0, 60)));
+
+        const exceptions: EngineException[] = [...exceptionDays].map((exceptionDate) => {
+          if (random() < 0.4) {
+            return { exceptionDate, exceptionType: 'cancelled' };
+          }
+          if (random() < 0.25) {
+            return {
+              exceptionDate,
+              exceptionType: 'added',
+              modifiedStartTime: random() < 0.5 ? timestamp(exceptionDate, int(0, 11), 0) : null,
+              modifiedEndTime: random() < 0.5 ? timestamp(exceptionDate, int(12, 23), 0) : null,
+            };
+          }
+          const movedTo = random() < 0.5 ? dayAfter(exceptionDate, int(-3, 3)) : null;
+          return {
+            exceptionDate,
+            exceptionType: 'modified',
+            modifiedDate: movedTo,
+            modifiedStartTime: random() < 0.5 ? timestamp(movedTo ?? exceptionDate, int(0, 11), 0) : null,
+            modifiedEndTime: random() < 0.5 ? timestamp(movedTo ?? exceptionDate, int(12, 23), 0) : null,
+          };
+        });
+        for (const exception of exceptions) {
+          await pool.query(
+            `INSERT INTO pgcalendar.exceptions
+             (schedule_id, exception_date, exception_type, modified_date, modified_start_time, modified_end_time)
+             VALUES ($1, $2, $3, $4, $5, $6)`,
+            [
+              scheduleId,
+              exception.exceptionDate,
+              exception.exceptionType,
+              exception.modifiedDate ?? null,
+              exception.modifiedStartTime ?? null,
+              exception.modifiedEndTime ?? null,
+            ],
+          );
+        }
+
+        const sqlResult = await pool.query(
+          `SELECT projection_date::text AS "projectionDate",
+                  start_time AS "startTime", end_time AS "endTime", status
+           FROM pgcalendar.generate_projections($1, $2::date, $3::date)`,
+          [scheduleId, rangeStart, rangeEnd],
+        );
+        const engineRows = generateProjections(schedule, exceptions, rangeStart, rangeEnd);
+
+        try {
+          expect(engineRows).toEqual(sqlResult.rows);
+        } catch (error) {
+          throw new Error(
+            `Parity mismatch (seed ${seed}, case ${i}) for range ${rangeStart}..${rangeEnd}\n` +
+            `schedule: ${JSON.stringify(schedule)}\nexceptions: ${JSON.stringify(exceptions)}\n` +
+            (error as Error).message,
+          );
+        }
+
+        // Schedules of one event may not overlap, so clear before the next case
+        await pool.query('DELETE FROM pgcalendar.schedules WHERE schedule_id = $1', [scheduleId]);
+      }
+    });
+  });
+});
@@ -334,6 +334,112 @@ describe('pgcalendar - Exceptions', () => {
     });
   });
 
+  describe('Added Occurrences', () => {
+    async function projections(startDate: string, endDate: string) {
+      const result = await pool.query(
+        `SELECT projection_date::text, start_time::text, end_time::text, status
+         FROM pgcalendar.get_event_projections($1, $2::date, $3::date)`,
+        [eventId, startDate, endDate]
+      );
+      return result.rows;
+    }
+
+    it('should add an occurrence outside the series with its own times', async () => {
+      await pool.query(
+        `INSERT INTO pgcalendar.exceptions
+         (schedule_id, exception_date, exception_type, modified_start_time, modified_end_time)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [scheduleId, '2024-01-10', 'added', '2024-01-10 14:00:00', '2024-01-10 15:30:00']
+      );
+
+      const rows = await projections('2024-01-07', '2024-01-12');
+      expect(rows.map((row) => [row.projection_date, row.status])).toEqual([
+        ['2024-01-07', 'active'],
+        ['2024-01-10', 'added'],
+      ]);
+      expect(rows[1].start_time).toContain('2024-01-10 14:00:00');
+      expect(rows[1].end_time).toContain('2024-01-10 15:30:00');
+    });
+
+    it('should use the schedule times when none are given', async () => {
+      await pool.query(
+        `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type)
+         VALUES ($1, $2, $3)`,
+        [scheduleId, '2024-01-09', 'added']
+      );
+
+      const rows = await projections('2024-01-09', '2024-01-09');
+      expect(rows).toHaveLength(1);
+      expect(rows[0].start_time).toContain('2024-01-09 09:00:00');
+    });
+
+    it('should replace an occurrence the schedule already has', async () => {
+      await pool.query(
+        `INSERT INTO pgcalendar.exceptions
+         (schedule_id, exception_date, exception_type, modified_start_time)
+         VALUES ($1, $2, $3, $4)`,
+        [scheduleId, '2024-01-03', 'added', '2024-01-03 11:00:00']
+      );
+
+      const rows = await projections('2024-01-03', '2024-01-03');
+      expect(rows).toHaveLength(1);
+      expect(rows[0].status).toBe('added');
+      expect(rows[0].start_time).toContain('2024-01-03 11:00:00');
+    });
+
+    it('should not count added occurrences towards occurrence_count', async () => {
+      await pool.query(
+        `UPDATE pgcalendar.schedules SET end_date = NULL, occurrence_count = 3, duration_minutes = 60 WHERE schedule_id = $1`,
+        [scheduleId]
+      );
+      await pool.query(
+        `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type)
+         VALUES ($1, $2, $3)`,
+        [scheduleId, '2024-01-02', 'added']
+      );
+      await pool.query(
+        `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type)
+         VALUES ($1, $2, $3)`,
+        [scheduleId, '2024-01-05', 'added']
+      );
+
+      const rows = await projections('2024-01-01', '2024-01-31');
+      expect(rows.map((row) => [row.projection_date, row.status])).toEqual([
+        ['2024-01-01', 'active'],
+        ['2024-01-02', 'added'],
+        ['2024-01-03', 'active'],
+        ['2024-01-05', 'added'],
+      ]);
+    });
+
+    it('should reject a moved date on an added occurrence', async () => {
+      await expect(
+        pool.query(
+          `INSERT INTO pgcalendar.exceptions
+           (schedule_id, exception_date, exception_type, modified_date)
+           VALUES ($1, $2, $3, $4)`,
+          [scheduleId, '2024-01-10', 'added', '2024-01-11']
+        )
+      ).rejects.toThrow(/added_on_exception_date/);
+    });
+
+    it('should not allow cancelling an added occurrence with a second exception', async () => {
+      await pool.query(
+        `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type)
+         VALUES ($1, $2, $3)`,
+        [scheduleId, '2024-01-10', 'added']
+      );
+
+      await expect(
+        pool.query(
+          `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type)
+           VALUES ($1, $2, $3)`,
+          [scheduleId, '2024-01-10', 'cancelled']
+        )
+      ).rejects.toThrow();
+    });
+  });
+
   describe('Exception Deletion', () => {
     it('should delete an exception', async () => {
       const result = await pool.query(
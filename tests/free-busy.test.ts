@@ -0,0 +1,128 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient } from '../src';
+
+describe('pgcalendar - Free/Busy', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let ana: number;
+  let ben: number;
+  let roomId: number;
+  let reviewId: number;
+  let reviewScheduleId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    ana = (await client.createParticipant({ name: 'Ana' })).participantId;
+    ben = (await client.createParticipant({ name: 'Ben' })).participantId;
+    roomId = (await client.createResource({ name: 'Room A' })).resourceId;
+
+    // Ana: standup 09:00-10:00 on weekdays; Ben and the room: review 09:30-11:00 on January 2
+    const standup = await client.createEvent({ name: 'Standup' });
+    await client.addAttendee(standup.eventId, ana);
+    await client.createSchedule({
+      eventId: standup.eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-05 10:00:00',
+      recurrenceType: 'weekly',
+      recurrenceDaysOfWeek: [1, 2, 3, 4, 5],
+    });
+
+    reviewId = (await client.createEvent({ name: 'Review' })).eventId;
+    await client.addAttendee(reviewId, ben);
+    await client.addEventResource(reviewId, roomId);
+    reviewScheduleId = (await client.createSchedule({
+      eventId: reviewId,
+      startDate: '2024-01-02 09:30:00',
+      endDate: '2024-01-02 11:00:00',
+      recurrenceType: 'daily',
+    })).scheduleId;
+  });
+
+  const at = (day: number, hours: number, minutes = 0) => new Date(2024, 0, day, hours, minutes, 0);
+
+  it('should return busy intervals per participant and resource', async () => {
+    const busy = await client.getFreeBusy('2024-01-02', '2024-01-02', {
+      participantIds: [ana, ben],
+      resourceIds: [roomId],
+    });
+
+    expect(busy).toEqual([
+      { busyType: 'participant', busyId: ana, startTime: at(2, 9), endTime: at(2, 10) },
+      { busyType: 'participant', busyId: ben, startTime: at(2, 9, 30), endTime: at(2, 11) },
+      { busyType: 'resource', busyId: roomId, startTime: at(2, 9, 30), endTime: at(2, 11) },
+    ]);
+  });
+
+  it('should merge overlapping occurrences and leave declined ones free', async () => {
+    const lunch = await client.createEvent({ name: 'Lunch' });
+    await client.addAttendee(lunch.eventId, ana);
+    await client.createSchedule({
+      eventId: lunch.eventId,
+      startDate: '2024-01-01 09:45:00',
+      endDate: '2024-01-02 10:30:00',
+      recurrenceType: 'daily',
+    });
+    await client.addAttendee(reviewId, ana);
+    await client.setOccurrenceResponse(reviewScheduleId, '2024-01-02', ana, 'declined');
+
+    const busy = await client.getFreeBusy('2024-01-01', '2024-01-02', { participantIds: [ana] });
+
+    expect(busy.map((b) => [b.startTime, b.endTime])).toEqual([
+      [at(1, 9), at(1, 10, 30)],
+      [at(2, 9), at(2, 10, 30)],
+    ]);
+  });
+
+  it('should find slots when everyone is free', async () => {
+    const slots = await client.findFreeSlots('2024-01-02', '2024-01-03', {
+      participantIds: [ana, ben],
+      resourceIds: [roomId],
+      durationMinutes: 45,
+      dayStart: '09:00:00',
+      dayEnd: '12:00:00',
+      stepMinutes: 30,
+    });
+
+    expect(slots.map((s) => s.startTime)).toEqual([
+      at(2, 11), at(3, 10), at(3, 10, 30), at(3, 11),
+    ]);
+    expect(slots[0].endTime).toEqual(at(2, 11, 45));
+  });
+
+  it('should keep a buffer around busy time', async () => {
+    const slots = await client.findFreeSlots('2024-01-02', '2024-01-02', {
+      participantIds: [ana, ben],
+      durationMinutes: 30,
+      dayEnd: '12:30:00',
+      bufferMinutes: 15,
+    });
+
+    expect(slots.map((s) => s.startTime)).toEqual([at(2, 11, 15), at(2, 11, 30), at(2, 11, 45), at(2, 12)]);
+  });
+
+  it('should use the working hours of the given time zone', async () => {
+    // 09:00-17:00 in New York is 14:00-22:00 UTC in January
+    const slots = await client.findFreeSlots('2024-01-02', '2024-01-02', {
+      resourceIds: [roomId],
+      durationMinutes: 60,
+      stepMinutes: 240,
+      timeZone: 'America/New_York',
+    });
+
+    expect(slots.map((s) => s.startTime.toISOString())).toEqual([
+      '2024-01-02T14:00:00.000Z',
+      '2024-01-02T18:00:00.000Z',
+    ]);
+  });
+
+  it('should reject durations that are not positive', async () => {
+    await expect(client.findFreeSlots('2024-01-02', '2024-01-02', { participantIds: [ana], durationMinutes: 0 }))
+      .rejects.toThrow(/must be positive/);
+  });
+});
@@ -0,0 +1,150 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient, Schedule } from '../src';
+
+describe('pgcalendar - History', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let eventId: number;
+  let schedule: Schedule;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    eventId = (await client.createEvent({ name: 'Standup' })).eventId;
+    schedule = await client.createSchedule({
+      eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-05 09:15:00',
+      recurrenceType: 'daily',
+    });
+  });
+
+  async function databaseNow(): Promise<Date> {
+    return (await pool.query('SELECT clock_timestamp() AS now')).rows[0].now;
+  }
+
+  async function projectionDates(asOf: Date) {
+    const projections = await client.getEventProjectionsAsOf(eventId, '2024-01-01', '2024-01-31', asOf);
+    return projections.map((p) => `${p.projectionDate} ${p.eventName} ${p.status}`);
+  }
+
+  it('should record who changed which row, with the rows before and after', async () => {
+    const db = await pool.connect();
+    try {
+      await db.query('BEGIN');
+      await db.query("SELECT set_config('pgcalendar.user', 'alice', TRUE)");
+      await db.query('UPDATE pgcalendar.events SET location = $1 WHERE event_id = $2', ['Room A', eventId]);
+      await db.query('COMMIT');
+    } finally {
+      db.release();
+    }
+    // Nothing changed but updated_at
+    await pool.query('UPDATE pgcalendar.events SET location = location WHERE event_id = $1', [eventId]);
+
+    const log = await pool.query(
+      `SELECT table_name, row_id, operation, changed_by, database_user, old_row->>'location' AS old_location,
+              new_row->>'location' AS new_location
+       FROM pgcalendar.audit_log ORDER BY audit_id`,
+    );
+    expect(log.rows).toEqual([
+      expect.objectContaining({ table_name: 'events', row_id: eventId, operation: 'insert', old_location: null }),
+      expect.objectContaining({ table_name: 'schedules', row_id: schedule.scheduleId, operation: 'insert' }),
+      {
+        table_name: 'events',
+        row_id: eventId,
+        operation: 'update',
+        changed_by: 'alice',
+        database_user: 'postgres',
+        old_location: null,
+        new_location: 'Room A',
+      },
+    ]);
+    expect(log.rows[0].changed_by).toBe('postgres');
+  });
+
+  it('should rebuild projections as they were at a past moment', async () => {
+    const created = await databaseNow();
+    await client.createException({
+      scheduleId: schedule.scheduleId,
+      exceptionDate: '2024-01-03',
+      exceptionType: 'cancelled',
+    });
+    await client.updateEvent(eventId, { name: 'Daily sync' });
+    const renamed = await databaseNow();
+    await client.deleteEvent(eventId);
+
+    expect(await projectionDates(created)).toEqual([
+      '2024-01-01 Standup active',
+      '2024-01-02 Standup active',
+      '2024-01-03 Standup active',
+      '2024-01-04 Standup active',
+      '2024-01-05 Standup active',
+    ]);
+    expect(await projectionDates(renamed)).toEqual([
+      '2024-01-01 Daily sync active',
+      '2024-01-02 Daily sync active',
+      '2024-01-04 Daily sync active',
+      '2024-01-05 Daily sync active',
+    ]);
+    expect(await projectionDates(await databaseNow())).toEqual([]);
+    expect(await projectionDates(new Date(2000, 0, 1))).toEqual([]);
+  });
+
+  it('should rebuild a schedule moved to another event with the event it had then', async () => {
+    const otherId = (await client.createEvent({ name: 'Retro' })).eventId;
+    const before = await databaseNow();
+    await pool.query('UPDATE pgcalendar.schedules SET event_id = $1 WHERE schedule_id = $2', [
+      otherId,
+      schedule.scheduleId,
+    ]);
+    const after = await databaseNow();
+
+    expect(await projectionDates(before)).toHaveLength(5);
+    expect(await projectionDates(after)).toEqual([]);
+    const moved = await client.getEventProjectionsAsOf(otherId, '2024-01-01', '2024-01-31', after);
+    expect(moved.map((p) => p.eventName)).toEqual(['Retro', 'Retro', 'Retro', 'Retro', 'Retro']);
+  });
+
+  it('should list the schedule and exception changes of an occurrence', async () => {
+    const exception = await client.createException({
+      scheduleId: schedule.scheduleId,
+      exceptionDate: '2024-01-03',
+      exceptionType: 'modified',
+      modifiedStartTime: '2024-01-03 10:00:00',
+      modifiedEndTime: '2024-01-03 10:15:00',
+    });
+    await client.createException({
+      scheduleId: schedule.scheduleId,
+      exceptionDate: '2024-01-04',
+      exceptionType: 'cancelled',
+    });
+    await client.updateException(exception.exceptionId, { exceptionType: 'cancelled' });
+    await client.updateEvent(eventId, { name: 'Daily sync' });
+    await client.deleteEvent(eventId);
+
+    // Why did the January 3 standup disappear?
+    const history = await client.getOccurrenceHistory(schedule.scheduleId, '2024-01-03');
+    expect(history.map((h) => `${h.tableName} ${h.operation}`)).toEqual([
+      'schedules insert',
+      'exceptions insert',
+      'exceptions update',
+      'schedules delete',
+      'exceptions delete',
+    ]);
+    expect(history[2]).toMatchObject({
+      rowId: exception.exceptionId,
+      eventId,
+      scheduleId: schedule.scheduleId,
+      changedBy: 'postgres',
+      oldRow: expect.objectContaining({ exception_type: 'modified' }),
+      newRow: expect.objectContaining({ exception_type: 'cancelled' }),
+    });
+    expect(history[2].changedAt).toBeInstanceOf(Date);
+    expect(history[4]).toMatchObject({ eventId, newRow: null });
+  });
+});
@@ -0,0 +1,150 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { HolidayPolicy, parseHolidays, PgCalendarClient } from '../src';
+
+describe('pgcalendar - Holidays', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let eventId: number;
+  let holidaySetId: number;
+
+  // Christmas Day is a Wednesday in 2024
+  const holidaysCsv = [
+    'date,name',
+    '2024-12-25,Christmas Day',
+    '2024-12-26,Boxing Day',
+    '# observed',
+    '2025-01-01,"New Year\'s Day"',
+  ].join('\n');
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    eventId = (await client.createEvent({ name: 'Payroll' })).eventId;
+    holidaySetId = (await client.loadHolidays('UK', holidaysCsv, 'Bank holidays')).holidaySetId;
+  });
+
+  afterEach(async () => {
+    await pool.query(
+      `UPDATE pgcalendar.projection_cache_settings
+       SET enabled = FALSE, window_start = NULL, window_end = NULL, refreshed_at = NULL`,
+    );
+    await pool.query('DELETE FROM pgcalendar.projections');
+  });
+
+  async function payroll(holidayPolicy: HolidayPolicy) {
+    await client.createSchedule({
+      eventId,
+      startDate: '2024-10-25 09:00:00',
+      endDate: '2025-01-25 10:00:00',
+      recurrenceType: 'monthly',
+      recurrenceDayOfMonth: 25,
+      holidaySetId,
+      holidayPolicy,
+    });
+    const projections = await client.getEventProjections(eventId, '2024-11-01', '2024-12-31');
+    return projections.map((p) => `${p.projectionDate} ${p.status}`);
+  }
+
+  it('should load a named set from a CSV file', async () => {
+    expect(await client.getHolidaySet('UK')).toMatchObject({ holidaySetId, description: 'Bank holidays' });
+    expect(await client.listHolidays(holidaySetId)).toEqual([
+      { date: '2024-12-25', name: 'Christmas Day' },
+      { date: '2024-12-26', name: 'Boxing Day' },
+      { date: '2025-01-01', name: "New Year's Day" },
+    ]);
+
+    // Loading again replaces the holidays and keeps the set
+    const reloaded = await client.loadHolidays('UK', [{ date: '2025-12-25', name: 'Christmas Day' }]);
+    expect(reloaded).toMatchObject({ holidaySetId, description: 'Bank holidays' });
+    expect((await client.listHolidays(holidaySetId)).map((h) => h.date)).toEqual(['2025-12-25']);
+  });
+
+  it('should read all-day and recurring holidays from an iCalendar file', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20241225',
+      'DTEND;VALUE=DATE:20241227',
+      'SUMMARY:Christmas',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20240704',
+      'RRULE:FREQ=YEARLY;COUNT=2',
+      'SUMMARY:Independence Day',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseHolidays(ics)).toEqual([
+      { date: '2024-12-25', name: 'Christmas' },
+      { date: '2024-12-26', name: 'Christmas' },
+      { date: '2024-07-04', name: 'Independence Day' },
+      { date: '2025-07-04', name: 'Independence Day' },
+    ]);
+    expect(() => parseHolidays('date,name\n2024-13,Bad')).toThrow(/Invalid date "2024-13" \(line 2\)/);
+  });
+
+  it('should skip occurrences on a holiday', async () => {
+    expect(await payroll('skip')).toEqual(['2024-11-25 active']);
+  });
+
+  it('should move occurrences to the next business day', async () => {
+    // Past Boxing Day to Friday
+    expect(await payroll('next_business_day')).toEqual(['2024-11-25 active', '2024-12-27 shifted']);
+  });
+
+  it('should move occurrences to the previous business day, over weekends', async () => {
+    await client.loadHolidays('UK', holidaysCsv + '\n2024-12-24,Christmas Eve\n2024-12-23,Closure');
+
+    // Back past Monday, Tuesday and the weekend to Friday
+    expect(await payroll('previous_business_day')).toEqual(['2024-11-25 active', '2024-12-20 shifted']);
+    const [shifted] = await client.getEventProjections(eventId, '2024-12-01', '2024-12-31');
+    expect(shifted.startTime).toEqual(new Date(2024, 11, 20, 9, 0, 0));
+  });
+
+  it('should leave occurrences with an exception alone', async () => {
+    const schedule = await client.createSchedule({
+      eventId,
+      startDate: '2024-12-24 09:00:00',
+      endDate: '2024-12-26 10:00:00',
+      recurrenceType: 'daily',
+      holidaySetId,
+      holidayPolicy: 'skip',
+    });
+    await client.createException({
+      scheduleId: schedule.scheduleId,
+      exceptionDate: '2024-12-25',
+      exceptionType: 'modified',
+      modifiedStartTime: '2024-12-25 11:00:00',
+      modifiedEndTime: '2024-12-25 12:00:00',
+    });
+
+    const projections = await client.getEventProjections(eventId, '2024-12-24', '2024-12-26');
+    expect(projections.map((p) => `${p.projectionDate} ${p.status}`))
+      .toEqual(['2024-12-24 active', '2024-12-25 modified']);
+  });
+
+  it('should refresh cached projections when the holidays change', async () => {
+    await client.extendProjectionWindow('2024-11-01', '2024-12-31');
+    await client.setProjectionCacheEnabled(true);
+    expect(await payroll('next_business_day')).toEqual(['2024-11-25 active', '2024-12-27 shifted']);
+
+    await client.loadHolidays('UK', [{ date: '2024-11-25', name: 'Closure' }]);
+    expect((await client.getEventProjections(eventId, '2024-11-01', '2024-12-31'))
+      .map((p) => `${p.projectionDate} ${p.status}`)).toEqual(['2024-11-26 shifted', '2024-12-25 active']);
+  });
+
+  it('should not delete a set that schedules use', async () => {
+    await payroll('skip');
+    await expect(client.deleteHolidaySet(holidaySetId)).rejects.toThrow(/foreign key/);
+
+    await pool.query('UPDATE pgcalendar.schedules SET holiday_set_id = NULL');
+    expect(await client.deleteHolidaySet(holidaySetId)).toBe(true);
+    expect(await client.listHolidaySets()).toEqual([]);
+  });
+});
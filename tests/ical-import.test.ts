@@ -0,0 +1,316 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient, parseICalendar, ICalendarParseError } from '../src';
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//test//test//EN', ...lines, 'END:VCALENDAR']
+    .join('\r\n');
+}
+
+describe('pgcalendar - iCalendar Import', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+
+  const standup = calendar(
+    'BEGIN:VEVENT',
+    'UID:standup-1@example.com',
+    'SUMMARY:Standup\\, daily',
+    'DESCRIPTION:Line one\\nLine two',
+    'CATEGORIES:meeting,team',
+    'DTSTART:20240101T090000',
+    'DTEND:20240101T091500',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20240129T235959',
+    'EXDATE:20240108T090000',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:standup-1@example.com',
+    'RECURRENCE-ID:20240115T090000',
+    'DTSTART:20240116T140000',
+    'DTEND:20240116T143000',
+    'END:VEVENT',
+  );
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+  });
+
+  describe('parseICalendar', () => {
+    it('should unfold lines and parse parameters', () => {
+      const [vcalendar] = parseICalendar(
+        'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART;TZID="America/New_York":2024\r\n 0101T090000\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n',
+      );
+
+      expect(vcalendar.components[0].properties).toEqual([
+        { name: 'DTSTART', params: { TZID: 'America/New_York' }, value: '20240101T090000' },
+      ]);
+    });
+
+    it('should reject unbalanced components', () => {
+      expect(() => parseICalendar('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nEND:VCALENDAR')).toThrow(ICalendarParseError);
+    });
+  });
+
+  describe('importICalendar', () => {
+    it('should create an event, schedule and exceptions', async () => {
+      const report = await client.importICalendar(standup);
+
+      expect(report.issues).toEqual([]);
+      expect(report.events).toHaveLength(1);
+      const [{ eventId, scheduleId, created }] = report.events;
+      expect(created).toBe(true);
+
+      const event = await client.getEvent(eventId);
+      expect(event!.name).toBe('Standup, daily');
+      expect(event!.description).toBe('Line one\nLine two');
+      expect(event!.category).toBe('meeting');
+      expect(event!.metadata).toEqual({ ical_uid: 'standup-1@example.com' });
+
+      const schedule = await client.getSchedule(scheduleId!);
+      expect(schedule!.recurrenceType).toBe('weekly');
+      expect(schedule!.rrule).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20240129T235959');
+      expect(schedule!.startDate).toEqual(new Date(2024, 0, 1, 9, 0, 0));
+      expect(schedule!.endDate).toEqual(new Date(2024, 0, 29, 9, 15, 0));
+
+      const projections = await client.getEventProjections(eventId, '2024-01-01', '2024-01-31');
+      expect(projections.map((p) => [p.projectionDate, p.status])).toEqual([
+        ['2024-01-01', 'active'],
+        ['2024-01-16', 'modified'],
+        ['2024-01-22', 'active'],
+        ['2024-01-29', 'active'],
+      ]);
+      expect(projections[1].endTime).toEqual(new Date(2024, 0, 16, 14, 30, 0));
+    });
+
+    it('should keep TZID as the schedule time zone', async () => {
+      const report = await client.importICalendar(calendar(
+        'BEGIN:VEVENT',
+        'UID:zoned@example.com',
+        'SUMMARY:New York standup',
+        'DTSTART;TZID=America/New_York:20240301T090000',
+        'DTEND;TZID=America/New_York:20240301T093000',
+        'RRULE:FREQ=DAILY;COUNT=20',
+        'EXDATE:20240305T140000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:zoned@example.com',
+        'RECURRENCE-ID;TZID=Europe/London:20240312T130000',
+        'DTSTART;TZID=Europe/London:20240312T150000',
+        'DTEND;TZID=Europe/London:20240312T153000',
+        'END:VEVENT',
+      ));
+
+      expect(report.issues).toEqual([]);
+      const [{ eventId, scheduleId }] = report.events;
+      expect((await client.getSchedule(scheduleId!))!.timeZone).toBe('America/New_York');
+
+      const exceptions = await client.listExceptions(scheduleId!);
+      expect(exceptions.map((e) => [e.exceptionDate, e.exceptionType, e.modifiedStartTime])).toEqual([
+        ['2024-03-05', 'cancelled', null],
+        ['2024-03-12', 'modified', new Date(2024, 2, 12, 11, 0, 0)],
+      ]);
+
+      const projections = await client.getEventProjections(eventId, '2024-03-08', '2024-03-12');
+      expect(projections.map((p) => p.startTime.toISOString())).toEqual([
+        '2024-03-08T14:00:00.000Z',
+        '2024-03-09T14:00:00.000Z',
+        '2024-03-10T13:00:00.000Z',
+        '2024-03-11T13:00:00.000Z',
+        '2024-03-12T15:00:00.000Z',
+      ]);
+    });
+
+    it('should import open-ended series as unbounded schedules', async () => {
+      const report = await client.importICalendar(calendar(
+        'BEGIN:VEVENT',
+        'UID:open@example.com',
+        'SUMMARY:Open',
+        'DTSTART:20240101T100000',
+        'DTEND:20240101T114500',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO',
+        'END:VEVENT',
+      ));
+
+      expect(report.issues).toEqual([]);
+      const schedule = await client.getSchedule(report.events[0].scheduleId!);
+      expect(schedule!.endDate).toBeNull();
+      expect(schedule!.durationMinutes).toBe(105);
+
+      const projections = await client.getEventProjections(report.events[0].eventId, '2030-01-01', '2030-01-07');
+      expect(projections.map((p) => [p.projectionDate, p.endTime])).toEqual([
+        ['2030-01-07', new Date(2030, 0, 7, 11, 45, 0)],
+      ]);
+    });
+
+    it('should keep occurrences that end on a later day', async () => {
+      const report = await client.importICalendar(calendar(
+        'BEGIN:VEVENT',
+        'UID:night@example.com',
+        'SUMMARY:Night shift',
+        'DTSTART:20240101T220000',
+        'DTEND:20240102T060000',
+        'RRULE:FREQ=DAILY;COUNT=2',
+        'END:VEVENT',
+      ));
+
+      expect(report.issues).toEqual([]);
+      const projections = await client.getEventProjections(report.events[0].eventId, '2024-01-01', '2024-01-31');
+      expect(projections.map((p) => [p.startTime, p.endTime])).toEqual([
+        [new Date(2024, 0, 1, 22, 0, 0), new Date(2024, 0, 2, 6, 0, 0)],
+        [new Date(2024, 0, 2, 22, 0, 0), new Date(2024, 0, 3, 6, 0, 0)],
+      ]);
+    });
+
+    it('should update instead of duplicating on re-import', async () => {
+      const first = await client.importICalendar(standup);
+      const second = await client.importICalendar(standup.replace('SUMMARY:Standup\\, daily', 'SUMMARY:Renamed'));
+
+      expect(second.events[0].created).toBe(false);
+      expect(second.events[0].eventId).toBe(first.events[0].eventId);
+      expect(await client.listEvents()).toHaveLength(1);
+      expect(await client.listSchedules(first.events[0].eventId)).toHaveLength(1);
+      expect((await client.getEvent(first.events[0].eventId))!.name).toBe('Renamed');
+    });
+
+    it('should report rules it cannot represent', async () => {
+      const report = await client.importICalendar(calendar(
+        'BEGIN:VEVENT',
+        'UID:week-number@example.com',
+        'SUMMARY:Week 20',
+        'DTSTART:20240513T100000',
+        'DTEND:20240513T110000',
+        'RRULE:FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:last-weekday@example.com',
+        'SUMMARY:Last weekday',
+        'DTSTART:20240131T100000',
+        'DTEND:20240131T110000',
+        'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;UNTIL=20240430',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:counted@example.com',
+        'SUMMARY:Counted',
+        'DTSTART:20240101T100000',
+        'DURATION:PT1H',
+        'RRULE:FREQ=DAILY;INTERVAL=2;COUNT=3',
+        'END:VEVENT',
+      ));
+
+      expect(report.issues).toEqual([
+        expect.objectContaining({
+          uid: 'week-number@example.com',
+          property: 'RRULE:BYWEEKNO',
+          action: 'skipped',
+        }),
+      ]);
+      const skipped = report.events.find((e) => e.uid === 'week-number@example.com');
+      expect(skipped!.scheduleId).toBeNull();
+
+      const lastWeekday = report.events.find((e) => e.uid === 'last-weekday@example.com');
+      const projections = await client.getEventProjections(lastWeekday!.eventId, '2024-01-01', '2024-12-31');
+      expect(projections.map((p) => p.projectionDate)).toEqual([
+        '2024-01-31', '2024-02-29', '2024-03-29', '2024-04-30',
+      ]);
+
+      const counted = report.events.find((e) => e.uid === 'counted@example.com');
+      const schedule = await client.getSchedule(counted!.scheduleId!);
+      expect(schedule!.endDate).toEqual(new Date(2024, 0, 5, 11, 0, 0));
+    });
+
+    it('should import RDATEs as added occurrences', async () => {
+      const report = await client.importICalendar(calendar(
+        'BEGIN:VEVENT',
+        'UID:review@example.com',
+        'SUMMARY:Review',
+        'DTSTART:20240101T090000',
+        'DTEND:20240101T100000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20240115T235959',
+        'RDATE:20240103T090000,20240105T160000,20240110T090000',
+        'RDATE;VALUE=PERIOD:20240111T090000/PT1H',
+        'EXDATE:20240110T090000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:review@example.com',
+        'RECURRENCE-ID:20240103T090000',
+        'DTSTART:20240104T110000',
+        'DTEND:20240104T113000',
+        'END:VEVENT',
+      ));
+
+      expect(report.issues).toEqual([
+        expect.objectContaining({ uid: 'review@example.com', property: 'RDATE', action: 'ignored' }),
+      ]);
+      const projections = await client.getEventProjections(report.events[0].eventId, '2024-01-01', '2024-01-31');
+      expect(projections.map((p) => [p.projectionDate, p.startTime, p.endTime, p.status])).toEqual([
+        ['2024-01-01', new Date(2024, 0, 1, 9, 0, 0), new Date(2024, 0, 1, 10, 0, 0), 'active'],
+        ['2024-01-04', new Date(2024, 0, 4, 11, 0, 0), new Date(2024, 0, 4, 11, 30, 0), 'added'],
+        ['2024-01-05', new Date(2024, 0, 5, 16, 0, 0), new Date(2024, 0, 5, 17, 0, 0), 'added'],
+        ['2024-01-08', new Date(2024, 0, 8, 9, 0, 0), new Date(2024, 0, 8, 10, 0, 0), 'active'],
+        ['2024-01-15', new Date(2024, 0, 15, 9, 0, 0), new Date(2024, 0, 15, 10, 0, 0), 'active'],
+      ]);
+    });
+
+    it('should import changed values of overrides', async () => {
+      const report = await client.importICalendar(calendar(
+        'BEGIN:VEVENT',
+        'UID:talks@example.com',
+        'SUMMARY:Talk',
+        'LOCATION:Hall',
+        'DTSTART:20240101T090000',
+        'DTEND:20240101T100000',
+        'RRULE:FREQ=DAILY;COUNT=3',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:talks@example.com',
+        'RECURRENCE-ID:20240102T090000',
+        'SUMMARY:Keynote',
+        'LOCATION:Hall',
+        'END:VEVENT',
+      ));
+
+      const [exception] = await client.listExceptions(report.events[0].scheduleId!);
+      expect(exception).toMatchObject({ overrideName: 'Keynote', overrideDescription: null, overrideLocation: null });
+      const projections = await client.getEventProjections(report.events[0].eventId, '2024-01-01', '2024-01-03');
+      expect(projections.map((p) => [p.eventName, p.location])).toEqual([
+        ['Talk', 'Hall'],
+        ['Keynote', 'Hall'],
+        ['Talk', 'Hall'],
+      ]);
+    });
+
+    it('should report schedules rejected by the overlap trigger', async () => {
+      const { events } = await client.importICalendar(standup);
+      await client.updateSchedule(events[0].scheduleId!, { metadata: {} });
+
+      const report = await client.importICalendar(standup);
+
+      expect(report.issues).toEqual([
+        expect.objectContaining({ uid: 'standup-1@example.com', action: 'skipped' }),
+      ]);
+      expect(report.issues[0].reason).toMatch(/overlap/);
+      expect(await client.listSchedules(events[0].eventId)).toHaveLength(1);
+    });
+
+    it('should roll back everything on unexpected errors', async () => {
+      await expect(client.importICalendar(calendar(
+        'BEGIN:VEVENT',
+        'UID:good@example.com',
+        'SUMMARY:Good',
+        'DTSTART:20240101T100000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:bad@example.com',
+        `SUMMARY:${'x'.repeat(300)}`,
+        'DTSTART:20240101T100000',
+        'END:VEVENT',
+      ))).rejects.toThrow(/too long/);
+
+      expect(await client.listEvents()).toHaveLength(0);
+    });
+  });
+});
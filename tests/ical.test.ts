@@ -0,0 +1,389 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import {
+  buildRecurrenceRule,
+  eventsToICalendar,
+  Event,
+  Exception,
+  PgCalendarClient,
+  Schedule,
+} from '../src';
+
+const now = new Date(Date.UTC(2024, 0, 1, 12, 0, 0));
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+describe('pgcalendar - iCalendar Export', () => {
+  const event: Event = {
+    eventId: 1,
+    name: 'Standup; daily, short',
+    description: 'Team sync',
+    category: 'meeting',
+    location: null,
+    priority: 1,
+    status: 'active',
+    tenantId: null,
+    createdAt: now,
+    updatedAt: now,
+    metadata: {},
+  };
+
+  const schedule: Schedule = {
+    scheduleId: 2,
+    eventId: 1,
+    description: null,
+    startDate: new Date(2024, 0, 1, 9, 0, 0),
+    endDate: new Date(2024, 0, 31, 9, 15, 0),
+    recurrenceType: 'weekly',
+    recurrenceInterval: 2,
+    recurrenceDayOfWeek: 1,
+    recurrenceDaysOfWeek: null,
+    recurrenceDayOfMonth: null,
+    recurrenceMonth: null,
+    recurrenceWeekOfMonth: null,
+    missingDayPolicy: 'skip',
+    rrule: null,
+    timeZone: null,
+    occurrenceCount: null,
+    durationMinutes: null,
+    occurrenceEndTime: null,
+    weekendDays: [0, 6],
+    holidaySetId: null,
+    holidayPolicy: 'skip',
+    createdAt: now,
+    updatedAt: now,
+    metadata: {},
+  };
+
+  function exception(overrides: Partial<Exception>): Exception {
+    return {
+      exceptionId: 1,
+      scheduleId: 2,
+      exceptionDate: '2024-01-15',
+      exceptionType: 'cancelled',
+      modifiedDate: null,
+      modifiedStartTime: null,
+      modifiedEndTime: null,
+      notes: null,
+      overrideName: null,
+      overrideDescription: null,
+      overrideLocation: null,
+      overrideMetadata: null,
+      createdAt: now,
+      metadata: {},
+      ...overrides,
+    };
+  }
+
+  describe('buildRecurrenceRule', () => {
+    it('should map each recurrence type', () => {
+      expect(buildRecurrenceRule({ ...schedule, recurrenceType: 'daily', recurrenceInterval: 1 }))
+        .toBe('FREQ=DAILY;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule(schedule))
+        .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({ ...schedule, recurrenceDaysOfWeek: [5, 0, 1, 3] }))
+        .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR,SU;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({ ...schedule, recurrenceType: 'monthly', recurrenceDayOfMonth: 15 }))
+        .toBe('FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=15;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({
+        ...schedule,
+        recurrenceType: 'yearly',
+        recurrenceInterval: 1,
+        recurrenceMonth: 6,
+        recurrenceDayOfMonth: 15,
+      })).toBe('FREQ=YEARLY;BYMONTH=6;BYMONTHDAY=15;UNTIL=20240131T235959');
+    });
+
+    it('should export native rules bounded by the schedule end', () => {
+      expect(buildRecurrenceRule({ ...schedule, rrule: 'FREQ=MONTHLY;BYDAY=2TU' }))
+        .toBe('FREQ=MONTHLY;BYDAY=2TU;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({ ...schedule, rrule: 'FREQ=MONTHLY;BYDAY=2TU;COUNT=3' }))
+        .toBe('FREQ=MONTHLY;BYDAY=2TU;COUNT=3');
+    });
+
+    it('should map nth weekdays, negative days and clamped days', () => {
+      const monthly: Schedule = { ...schedule, recurrenceType: 'monthly', recurrenceInterval: 1 };
+
+      expect(buildRecurrenceRule({ ...monthly, recurrenceDayOfWeek: 5, recurrenceWeekOfMonth: -1 }))
+        .toBe('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({ ...monthly, recurrenceDayOfMonth: -1 }))
+        .toBe('FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({ ...monthly, recurrenceDayOfMonth: 30, missingDayPolicy: 'clamp' }))
+        .toBe('FREQ=MONTHLY;BYMONTHDAY=28,29,30;BYSETPOS=-1;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({ ...monthly, recurrenceDayOfMonth: 30, missingDayPolicy: 'roll' }))
+        .toBeNull();
+    });
+
+    it('should map business days to the weekdays outside the weekend', () => {
+      const businessDay: Schedule = { ...schedule, recurrenceType: 'business_day', recurrenceInterval: 1 };
+
+      expect(buildRecurrenceRule(businessDay))
+        .toBe('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({ ...businessDay, recurrenceDayOfMonth: -1, weekendDays: [5, 6] }))
+        .toBe('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,SU;BYSETPOS=-1;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({ ...businessDay, recurrenceInterval: 2 })).toBeNull();
+      expect(buildRecurrenceRule({ ...businessDay, holidaySetId: 1 })).toBeNull();
+    });
+
+    it('should end series with COUNT or leave them unbounded', () => {
+      expect(buildRecurrenceRule({ ...schedule, endDate: null, durationMinutes: 15, occurrenceCount: 4 }))
+        .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;COUNT=4');
+      // Only two occurrences fit before end_date
+      expect(buildRecurrenceRule({ ...schedule, occurrenceCount: 4 }))
+        .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;UNTIL=20240131T235959');
+      expect(buildRecurrenceRule({ ...schedule, endDate: null, durationMinutes: 15 }))
+        .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO');
+    });
+
+    it('should return null when the schedule has no occurrences', () => {
+      expect(buildRecurrenceRule({ ...schedule, recurrenceDayOfWeek: null })).toBeNull();
+    });
+  });
+
+  describe('eventsToICalendar', () => {
+    it('should emit a recurring VEVENT with EXDATE and overrides', () => {
+      const ics = eventsToICalendar(
+        [{
+          event,
+          schedules: [schedule],
+          exceptions: [
+            exception({ exceptionDate: '2024-01-15' }),
+            exception({
+              exceptionId: 2,
+              exceptionDate: '2024-01-29',
+              exceptionType: 'modified',
+              modifiedStartTime: new Date(2024, 0, 29, 11, 0, 0),
+              modifiedEndTime: new Date(2024, 0, 29, 11, 15, 0),
+              notes: 'Moved to 11',
+            }),
+            // Not an occurrence of the schedule, so it is ignored
+            exception({ exceptionId: 3, exceptionDate: '2024-01-16' }),
+          ],
+        }],
+        { now },
+      );
+
+      expect(ics.endsWith('\r\n')).toBe(true);
+      expect(unfold(ics)).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//pgcalendar//pgcalendar//EN',
+        'CALSCALE:GREGORIAN',
+        'BEGIN:VEVENT',
+        'UID:pgcalendar-event-1-schedule-2@pgcalendar',
+        'DTSTAMP:20240101T120000Z',
+        'DTSTART:20240101T090000',
+        'DTEND:20240101T091500',
+        'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;UNTIL=20240131T235959',
+        'EXDATE:20240115T090000',
+        'SUMMARY:Standup\\; daily\\, short',
+        'DESCRIPTION:Team sync',
+        'CATEGORIES:meeting',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:pgcalendar-event-1-schedule-2@pgcalendar',
+        'DTSTAMP:20240101T120000Z',
+        'RECURRENCE-ID:20240129T090000',
+        'DTSTART:20240129T110000',
+        'DTEND:20240129T111500',
+        'SUMMARY:Standup\\; daily\\, short',
+        'DESCRIPTION:Team sync',
+        'CATEGORIES:meeting',
+        'COMMENT:Moved to 11',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ]);
+    });
+
+    it('should write zoned schedules with TZID and a UTC UNTIL', () => {
+      const lines = unfold(eventsToICalendar(
+        [{
+          event,
+          schedules: [{ ...schedule, timeZone: 'America/New_York' }],
+          exceptions: [exception({ exceptionDate: '2024-01-15' })],
+        }],
+        { now },
+      ));
+
+      expect(lines).toContain('DTSTART;TZID=America/New_York:20240101T090000');
+      expect(lines).toContain('DTEND;TZID=America/New_York:20240101T091500');
+      expect(lines).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;UNTIL=20240201T045959Z');
+      expect(lines).toContain('EXDATE;TZID=America/New_York:20240115T090000');
+    });
+
+    it('should list rolled occurrences as RDATE', () => {
+      const lines = unfold(eventsToICalendar(
+        [{
+          event,
+          schedules: [{
+            ...schedule,
+            endDate: new Date(2024, 3, 30, 9, 15, 0),
+            recurrenceType: 'monthly',
+            recurrenceInterval: 1,
+            recurrenceDayOfMonth: 30,
+            missingDayPolicy: 'roll',
+          }],
+          exceptions: [],
+        }],
+        { now },
+      ));
+
+      expect(lines).toContain('DTSTART:20240130T090000');
+      expect(lines).toContain('RDATE:20240301T090000,20240330T090000,20240430T090000');
+      expect(lines.some((line) => line.startsWith('RRULE'))).toBe(false);
+    });
+
+    it('should list added occurrences as RDATE', () => {
+      const lines = unfold(eventsToICalendar(
+        [{
+          event,
+          schedules: [schedule],
+          exceptions: [
+            exception({ exceptionDate: '2024-01-10', exceptionType: 'added' }),
+            exception({
+              exceptionId: 2,
+              exceptionDate: '2024-01-12',
+              exceptionType: 'added',
+              modifiedStartTime: new Date(2024, 0, 12, 14, 0, 0),
+              modifiedEndTime: new Date(2024, 0, 12, 15, 0, 0),
+            }),
+          ],
+        }],
+        { now },
+      ));
+
+      expect(lines).toContain('RDATE:20240110T090000,20240112T090000');
+      expect(lines.filter((line) => line.startsWith('RECURRENCE-ID'))).toEqual(['RECURRENCE-ID:20240112T090000']);
+      expect(lines).toContain('DTSTART:20240112T140000');
+      expect(lines).toContain('DTEND:20240112T150000');
+    });
+
+    it('should exclude holidays and list shifted occurrences as RDATE', () => {
+      const weekly: Schedule = { ...schedule, recurrenceInterval: 1, recurrenceDayOfWeek: 3, holidaySetId: 3 };
+      const holidays = { 3: ['2024-01-10', '2024-01-17', '2024-01-18'] };
+      const skipping = unfold(eventsToICalendar(
+        [{ event, schedules: [weekly], exceptions: [exception({ exceptionDate: '2024-01-17' })], holidays }],
+        { now },
+      ));
+      const shifting = unfold(eventsToICalendar(
+        [{ event, schedules: [{ ...weekly, holidayPolicy: 'next_business_day' }], exceptions: [], holidays }],
+        { now },
+      ));
+
+      expect(skipping).toContain('RRULE:FREQ=WEEKLY;BYDAY=WE;UNTIL=20240131T235959');
+      expect(skipping).toContain('EXDATE:20240110T090000,20240117T090000');
+      expect(skipping.some((line) => line.startsWith('RDATE'))).toBe(false);
+      expect(shifting).toContain('EXDATE:20240110T090000,20240117T090000');
+      expect(shifting).toContain('RDATE:20240111T090000,20240119T090000');
+    });
+
+    it('should write overridden values into the override VEVENT', () => {
+      const lines = unfold(eventsToICalendar(
+        [{
+          event: { ...event, location: 'Room A' },
+          schedules: [schedule],
+          exceptions: [
+            exception({ exceptionType: 'modified', overrideName: 'Guest talk', overrideLocation: 'Room B' }),
+          ],
+        }],
+        { now },
+      ));
+
+      expect(lines.filter((line) => /^(SUMMARY|LOCATION|RECURRENCE-ID|DTSTART)/.test(line))).toEqual([
+        'DTSTART:20240101T090000',
+        'SUMMARY:Standup\\; daily\\, short',
+        'LOCATION:Room A',
+        'RECURRENCE-ID:20240115T090000',
+        'DTSTART:20240115T090000',
+        'SUMMARY:Guest talk',
+        'LOCATION:Room B',
+      ]);
+    });
+
+    it('should take DTEND from the occurrence duration', () => {
+      const lines = unfold(eventsToICalendar(
+        [{ event, schedules: [{ ...schedule, endDate: null, durationMinutes: 90 }], exceptions: [] }],
+        { now },
+      ));
+
+      expect(lines).toContain('DTEND:20240101T103000');
+      expect(lines).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO');
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const ics = eventsToICalendar(
+        [{ event: { ...event, description: 'x'.repeat(200) }, schedules: [schedule], exceptions: [] }],
+        { now },
+      );
+
+      ics.split('\r\n').forEach((line) => {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      });
+      expect(unfold(ics)).toContain(`DESCRIPTION:${'x'.repeat(200)}`);
+    });
+  });
+
+  describe('PgCalendarClient', () => {
+    let pool: Pool;
+    let client: PgCalendarClient;
+    let eventId: number;
+
+    beforeAll(async () => {
+      pool = await setupTestDatabase();
+      client = new PgCalendarClient(pool);
+    });
+
+    beforeEach(async () => {
+      await cleanTestData(pool);
+      eventId = (await client.createEvent({ name: 'Daily Event', category: 'meeting' })).eventId;
+      const { scheduleId } = await client.createSchedule({
+        eventId,
+        startDate: '2024-01-01 09:00:00',
+        endDate: '2024-01-05 10:00:00',
+        recurrenceType: 'daily',
+      });
+      await client.createException({
+        scheduleId,
+        exceptionDate: '2024-01-03',
+        exceptionType: 'cancelled',
+      });
+    });
+
+    it('should export stored events with their exceptions', async () => {
+      const lines = unfold(await client.exportEventsICalendar([eventId], { now }));
+
+      expect(lines).toContain('RRULE:FREQ=DAILY;UNTIL=20240105T235959');
+      expect(lines).toContain('EXDATE:20240103T090000');
+    });
+
+    it('should export the holidays of the schedules', async () => {
+      const { holidaySetId } = await client.loadHolidays('Closures', [{ date: '2024-01-02', name: 'Closure' }]);
+      const [schedule] = await client.listSchedules(eventId);
+      await client.updateSchedule(schedule.scheduleId, { holidaySetId });
+      const lines = unfold(await client.exportEventsICalendar([eventId], { now }));
+
+      expect(lines).toContain('RRULE:FREQ=DAILY;UNTIL=20240105T235959');
+      expect(lines).toContain('EXDATE:20240102T090000,20240103T090000');
+    });
+
+    it('should export one VEVENT per projection in flattened mode', async () => {
+      const lines = unfold(
+        await client.exportProjectionsICalendar('2024-01-01', '2024-01-31', { now, calendarName: 'Team' }),
+      );
+      const starts = lines.filter((line) => line.startsWith('DTSTART:'));
+      const uids = lines.filter((line) => line.startsWith('UID:'));
+
+      expect(lines).toContain('X-WR-CALNAME:Team');
+      expect(starts).toEqual([
+        'DTSTART:20240101T090000',
+        'DTSTART:20240102T090000',
+        'DTSTART:20240104T090000',
+        'DTSTART:20240105T090000',
+      ]);
+      expect(new Set(uids).size).toBe(4);
+      expect(lines.some((line) => line.startsWith('RRULE'))).toBe(false);
+    });
+  });
+});
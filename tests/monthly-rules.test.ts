@@ -0,0 +1,179 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+
+describe('pgcalendar - Monthly and Yearly Rules', () => {
+  let pool: Pool;
+  let eventId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const eventResult = await pool.query(
+      `INSERT INTO pgcalendar.events (name) VALUES ($1) RETURNING event_id`,
+      ['Monthly Event'],
+    );
+    eventId = eventResult.rows[0].event_id;
+  });
+
+  interface Rule {
+    recurrenceType?: 'monthly' | 'yearly';
+    dayOfWeek?: number;
+    dayOfMonth?: number;
+    month?: number;
+    weekOfMonth?: number;
+    policy?: 'skip' | 'clamp' | 'roll';
+    endDate?: string;
+  }
+
+  async function createSchedule(rule: Rule): Promise<number> {
+    const result = await pool.query(
+      `INSERT INTO pgcalendar.schedules
+       (event_id, start_date, end_date, recurrence_type, recurrence_day_of_week,
+        recurrence_day_of_month, recurrence_month, recurrence_week_of_month, missing_day_policy)
+       VALUES ($1, '2024-01-01 10:00:00', $2, $3, $4, $5, $6, $7, $8)
+       RETURNING schedule_id`,
+      [
+        eventId,
+        rule.endDate ?? '2024-06-30 11:00:00',
+        rule.recurrenceType ?? 'monthly',
+        rule.dayOfWeek ?? null,
+        rule.dayOfMonth ?? null,
+        rule.month ?? null,
+        rule.weekOfMonth ?? null,
+        rule.policy ?? 'skip',
+      ],
+    );
+    return result.rows[0].schedule_id;
+  }
+
+  async function projectionDates(scheduleId: number, startDate = '2024-01-01', endDate = '2030-12-31') {
+    const result = await pool.query(
+      `SELECT projection_date::text FROM pgcalendar.generate_projections($1, $2::date, $3::date)`,
+      [scheduleId, startDate, endDate],
+    );
+    return result.rows.map((row) => row.projection_date);
+  }
+
+  describe('Nth weekday', () => {
+    it('should generate the second Tuesday of every month', async () => {
+      const scheduleId = await createSchedule({ dayOfWeek: 2, weekOfMonth: 2, endDate: '2024-04-30 11:00:00' });
+
+      expect(await projectionDates(scheduleId)).toEqual([
+        '2024-01-09', '2024-02-13', '2024-03-12', '2024-04-09',
+      ]);
+    });
+
+    it('should generate the last Friday of the month', async () => {
+      const scheduleId = await createSchedule({ dayOfWeek: 5, weekOfMonth: -1, endDate: '2024-04-30 11:00:00' });
+
+      expect(await projectionDates(scheduleId)).toEqual([
+        '2024-01-26', '2024-02-23', '2024-03-29', '2024-04-26',
+      ]);
+    });
+
+    it('should apply the policy to a missing fifth weekday', async () => {
+      // Only April 2024 has five Mondays among January-April
+      const skip = await createSchedule({ dayOfWeek: 1, weekOfMonth: 5, endDate: '2024-04-30 11:00:00' });
+      expect(await projectionDates(skip)).toEqual(['2024-01-29', '2024-04-29']);
+      await pool.query('DELETE FROM pgcalendar.schedules');
+
+      const clamp = await createSchedule({ dayOfWeek: 1, weekOfMonth: 5, policy: 'clamp', endDate: '2024-04-30 11:00:00' });
+      expect(await projectionDates(clamp)).toEqual(['2024-01-29', '2024-02-26', '2024-03-25', '2024-04-29']);
+      await pool.query('DELETE FROM pgcalendar.schedules');
+
+      const roll = await createSchedule({ dayOfWeek: 1, weekOfMonth: 5, policy: 'roll', endDate: '2024-04-30 11:00:00' });
+      expect(await projectionDates(roll)).toEqual(['2024-01-29', '2024-03-04', '2024-04-01', '2024-04-29']);
+    });
+
+    it('should support nth weekdays in yearly schedules', async () => {
+      // Last Monday of May
+      const scheduleId = await createSchedule({
+        recurrenceType: 'yearly', month: 5, dayOfWeek: 1, weekOfMonth: -1, endDate: '2026-12-31 11:00:00',
+      });
+
+      expect(await projectionDates(scheduleId)).toEqual(['2024-05-27', '2025-05-26', '2026-05-25']);
+    });
+  });
+
+  describe('Day of month', () => {
+    it('should count negative days from the month end', async () => {
+      const scheduleId = await createSchedule({ dayOfMonth: -2, endDate: '2024-03-31 11:00:00' });
+
+      expect(await projectionDates(scheduleId)).toEqual(['2024-01-30', '2024-02-28', '2024-03-30']);
+    });
+
+    it('should generate the last day of February', async () => {
+      const scheduleId = await createSchedule({
+        recurrenceType: 'yearly', month: 2, dayOfMonth: -1, endDate: '2028-12-31 11:00:00',
+      });
+
+      expect(await projectionDates(scheduleId)).toEqual([
+        '2024-02-29', '2025-02-28', '2026-02-28', '2027-02-28', '2028-02-29',
+      ]);
+    });
+
+    it.each([
+      ['skip', ['2024-01-31', '2024-03-31', '2024-05-31']],
+      ['clamp', ['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31', '2024-06-30']],
+      ['roll', ['2024-01-31', '2024-03-01', '2024-03-31', '2024-05-01', '2024-05-31']],
+    ])('should %s months without day 31', async (policy, expected) => {
+      const scheduleId = await createSchedule({ dayOfMonth: 31, policy: policy as Rule['policy'] });
+
+      expect(await projectionDates(scheduleId)).toEqual(expected);
+    });
+
+    it('should include the first month and respect the interval', async () => {
+      const result = await pool.query(
+        `INSERT INTO pgcalendar.schedules
+         (event_id, start_date, end_date, recurrence_type, recurrence_interval, recurrence_day_of_month)
+         VALUES ($1, '2024-01-10 10:00:00', '2024-12-31 11:00:00', 'monthly', 3, 15)
+         RETURNING schedule_id`,
+        [eventId],
+      );
+
+      expect(await projectionDates(result.rows[0].schedule_id, '2024-05-01')).toEqual([
+        '2024-07-15', '2024-10-15',
+      ]);
+      expect(await projectionDates(result.rows[0].schedule_id)).toEqual([
+        '2024-01-15', '2024-04-15', '2024-07-15', '2024-10-15',
+      ]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject out-of-range days and weeks', async () => {
+      await expect(createSchedule({ dayOfMonth: 0 })).rejects.toThrow(/valid_day_of_month/);
+      await expect(createSchedule({ dayOfMonth: -32 })).rejects.toThrow(/valid_day_of_month/);
+      await expect(createSchedule({ dayOfWeek: 1, weekOfMonth: 6 })).rejects.toThrow(/valid_week_of_month/);
+      await expect(createSchedule({ dayOfWeek: 1, weekOfMonth: 1, policy: 'nearest' as Rule['policy'] }))
+        .rejects.toThrow(/missing_day_policy/);
+    });
+  });
+
+  describe('convert_schedule_to_rrule', () => {
+    it.each([
+      [{ dayOfWeek: 2, weekOfMonth: 2 }, 'FREQ=MONTHLY;BYDAY=2TU'],
+      [{ dayOfMonth: 31, policy: 'clamp' }, 'FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1'],
+      [{ dayOfWeek: 1, weekOfMonth: 5, policy: 'clamp' }, 'FREQ=MONTHLY;BYDAY=4MO,5MO;BYSETPOS=-1'],
+      [{ recurrenceType: 'yearly', month: 2, dayOfMonth: -1 }, 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1'],
+    ])('should convert %j without changing projections', async (rule, rrule) => {
+      const scheduleId = await createSchedule({ ...(rule as Rule), endDate: '2026-12-31 11:00:00' });
+      const before = await projectionDates(scheduleId);
+
+      const result = await pool.query('SELECT pgcalendar.convert_schedule_to_rrule($1) AS rrule', [scheduleId]);
+
+      expect(result.rows[0].rrule).toBe(rrule);
+      expect(await projectionDates(scheduleId)).toEqual(before);
+    });
+
+    it('should refuse to convert rolled schedules', async () => {
+      const scheduleId = await createSchedule({ dayOfMonth: 30, policy: 'roll' });
+
+      await expect(pool.query('SELECT pgcalendar.convert_schedule_to_rrule($1)', [scheduleId]))
+        .rejects.toThrow(/cannot express/);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient } from '../src';
+
+describe('pgcalendar - Occurrence Overrides', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let eventId: number;
+  let scheduleId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const event = await client.createEvent({
+      name: 'Standup',
+      description: 'Daily sync',
+      location: 'Room A',
+      metadata: { team: 'core', host: 'Ana' },
+    });
+    eventId = event.eventId;
+
+    const schedule = await client.createSchedule({
+      eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-05 09:15:00',
+      recurrenceType: 'daily',
+      metadata: { room_booked: true },
+    });
+    scheduleId = schedule.scheduleId;
+
+    await client.createException({
+      scheduleId,
+      exceptionDate: '2024-01-03',
+      exceptionType: 'modified',
+      overrideName: 'Standup with a guest speaker',
+      overrideLocation: 'Room B',
+      overrideMetadata: { host: 'Guest' },
+    });
+  });
+
+  afterEach(async () => {
+    await pool.query(
+      `UPDATE pgcalendar.projection_cache_settings
+       SET enabled = FALSE, window_start = NULL, window_end = NULL, refreshed_at = NULL`,
+    );
+    await pool.query('DELETE FROM pgcalendar.projections');
+  });
+
+  it('should merge overrides over the event and schedule values', async () => {
+    const projections = await client.getEventProjections(eventId, '2024-01-02', '2024-01-03');
+
+    expect(projections.map((p) => [p.eventName, p.eventDescription, p.location, p.metadata, p.overriddenFields]))
+      .toEqual([
+        ['Standup', 'Daily sync', 'Room A', { team: 'core', host: 'Ana', room_booked: true }, []],
+        [
+          'Standup with a guest speaker',
+          'Daily sync',
+          'Room B',
+          { team: 'core', host: 'Guest', room_booked: true },
+          ['name', 'location', 'metadata'],
+        ],
+      ]);
+    // Values alone do not move the occurrence
+    expect(projections[1].startTime).toEqual(new Date(2024, 0, 3, 9, 0, 0));
+  });
+
+  it('should return overrides from get_events_detailed', async () => {
+    await client.updateException(
+      (await client.listExceptions(scheduleId))[0].exceptionId,
+      { overrideDescription: 'Demo day' },
+    );
+
+    const rows = await client.getEventsDetailed('2024-01-03', '2024-01-03', 'Europe/Berlin');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].eventDescription).toBe('Demo day');
+    expect(rows[0].overriddenFields).toEqual(['name', 'description', 'location', 'metadata']);
+  });
+
+  it('should return overrides from the event_calendar view', async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const schedule = await client.createSchedule({
+      eventId,
+      startDate: `${today} 12:00:00`,
+      endDate: `${today} 13:00:00`,
+      recurrenceType: 'daily',
+    });
+    await client.createException({
+      scheduleId: schedule.scheduleId,
+      exceptionDate: today,
+      exceptionType: 'modified',
+      overrideLocation: 'Online',
+    });
+
+    const result = await pool.query(
+      `SELECT event_name, location, overridden_fields FROM pgcalendar.event_calendar WHERE projection_date = $1`,
+      [today],
+    );
+
+    expect(result.rows).toEqual([{ event_name: 'Standup', location: 'Online', overridden_fields: ['location'] }]);
+  });
+
+  it('should keep overrides in the cache when the event changes', async () => {
+    await client.extendProjectionWindow('2024-01-01', '2024-01-31');
+    await client.setProjectionCacheEnabled(true);
+
+    await client.updateEvent(eventId, { name: 'Daily standup', location: 'Room C' });
+
+    const projections = await client.getEventProjections(eventId, '2024-01-02', '2024-01-03');
+    expect(projections.map((p) => [p.eventName, p.location])).toEqual([
+      ['Daily standup', 'Room C'],
+      ['Standup with a guest speaker', 'Room B'],
+    ]);
+  });
+});
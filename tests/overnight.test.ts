@@ -0,0 +1,108 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+
+describe('pgcalendar - Overnight Occurrences', () => {
+  let pool: Pool;
+  let eventId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const eventResult = await pool.query(
+      `INSERT INTO pgcalendar.events (name) VALUES ($1) RETURNING event_id`,
+      ['Night Shift'],
+    );
+    eventId = eventResult.rows[0].event_id;
+  });
+
+  async function createSchedule(startDate: string, endDate: string | null, durationMinutes: number | null = null) {
+    const result = await pool.query(
+      `INSERT INTO pgcalendar.schedules
+       (event_id, start_date, end_date, recurrence_type, duration_minutes)
+       VALUES ($1, $2, $3, 'daily', $4)
+       RETURNING schedule_id`,
+      [eventId, startDate, endDate, durationMinutes],
+    );
+    return result.rows[0].schedule_id;
+  }
+
+  it('should end a 22:00-06:00 shift on the next day', async () => {
+    const scheduleId = await createSchedule('2024-01-01 22:00:00', '2024-01-03 06:00:00');
+
+    const result = await pool.query(
+      `SELECT projection_date::text, start_time::text, end_time::text
+       FROM pgcalendar.generate_projections($1, '2024-01-01', '2024-01-31')`,
+      [scheduleId],
+    );
+
+    expect(result.rows).toEqual([
+      { projection_date: '2024-01-01', start_time: '2024-01-01 22:00:00+00', end_time: '2024-01-02 06:00:00+00' },
+      { projection_date: '2024-01-02', start_time: '2024-01-02 22:00:00+00', end_time: '2024-01-03 06:00:00+00' },
+      { projection_date: '2024-01-03', start_time: '2024-01-03 22:00:00+00', end_time: '2024-01-04 06:00:00+00' },
+    ]);
+  });
+
+  it('should last several days with duration_minutes', async () => {
+    const scheduleId = await createSchedule('2024-01-01 12:00:00', '2024-01-01 12:00:00', 3 * 24 * 60);
+
+    const result = await pool.query(
+      `SELECT end_time::text FROM pgcalendar.generate_projections($1, '2024-01-01', '2024-01-31')`,
+      [scheduleId],
+    );
+
+    expect(result.rows).toEqual([{ end_time: '2024-01-04 12:00:00+00' }]);
+  });
+
+  it('should return occurrences still running when the range starts', async () => {
+    await createSchedule('2024-01-01 22:00:00', '2024-01-07 06:00:00');
+
+    const result = await pool.query(
+      `SELECT projection_date::text, end_time::text
+       FROM pgcalendar.get_event_projections($1, '2024-01-03', '2024-01-04')`,
+      [eventId],
+    );
+
+    expect(result.rows).toEqual([
+      { projection_date: '2024-01-02', end_time: '2024-01-03 06:00:00+00' },
+      { projection_date: '2024-01-03', end_time: '2024-01-04 06:00:00+00' },
+      { projection_date: '2024-01-04', end_time: '2024-01-05 06:00:00+00' },
+    ]);
+  });
+
+  it('should look back as far as multi-day occurrences last', async () => {
+    await pool.query(
+      `INSERT INTO pgcalendar.schedules
+       (event_id, start_date, end_date, recurrence_type, recurrence_day_of_week, duration_minutes)
+       VALUES ($1, '2024-01-05 18:00:00', '2024-01-31 18:00:00', 'weekly', 5, 60 * 62)`,
+      [eventId],
+    );
+
+    // A Friday 18:00 to Monday 08:00 weekend job, seen from Sunday
+    const result = await pool.query(
+      `SELECT projection_date::text, start_time::text, end_time::text
+       FROM pgcalendar.get_events_detailed('2024-01-07', '2024-01-07')`,
+    );
+
+    expect(result.rows).toEqual([
+      { projection_date: '2024-01-05', start_time: '2024-01-05 18:00:00+00', end_time: '2024-01-08 08:00:00+00' },
+    ]);
+  });
+
+  it('should return running occurrences in a viewer time zone', async () => {
+    await createSchedule('2024-01-01 22:00:00', '2024-01-07 06:00:00');
+
+    // 22:00 UTC is 23:00 in Berlin, so the shift of Jan 2 is still running at Berlin midnight
+    const result = await pool.query(
+      `SELECT projection_date::text, local_start_time::text, local_end_time::text
+       FROM pgcalendar.get_events_detailed('2024-01-03', '2024-01-03', 'Europe/Berlin')`,
+    );
+
+    expect(result.rows).toEqual([
+      { projection_date: '2024-01-02', local_start_time: '2024-01-02 23:00:00', local_end_time: '2024-01-03 07:00:00' },
+      { projection_date: '2024-01-03', local_start_time: '2024-01-03 23:00:00', local_end_time: '2024-01-04 07:00:00' },
+    ]);
+  });
+});
@@ -0,0 +1,212 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient } from '../src';
+
+describe('pgcalendar - Projection Cache', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let eventId: number;
+  let dailyId: number;
+  let weeklyId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const eventResult = await pool.query(
+      `INSERT INTO pgcalendar.events (name, category) VALUES ($1, 'meeting') RETURNING event_id`,
+      ['Cached Event'],
+    );
+    eventId = eventResult.rows[0].event_id;
+    const otherEvent = await pool.query(
+      `INSERT INTO pgcalendar.events (name) VALUES ('Night Shift') RETURNING event_id`,
+    );
+
+    dailyId = (await pool.query(
+      `INSERT INTO pgcalendar.schedules (event_id, start_date, end_date, recurrence_type, time_zone)
+       VALUES ($1, '2024-01-01 09:00:00', '2024-03-31 10:00:00', 'daily', 'America/New_York')
+       RETURNING schedule_id`,
+      [eventId],
+    )).rows[0].schedule_id;
+    weeklyId = (await pool.query(
+      `INSERT INTO pgcalendar.schedules
+       (event_id, start_date, end_date, recurrence_type, recurrence_days_of_week, occurrence_end_time)
+       VALUES ($1, '2024-01-01 22:00:00', NULL, 'weekly', '{1,3,5}', '06:00:00')
+       RETURNING schedule_id`,
+      [otherEvent.rows[0].event_id],
+    )).rows[0].schedule_id;
+    await pool.query(
+      `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type, modified_start_time, modified_end_time)
+       VALUES ($1, '2024-01-10', 'modified', '2024-01-11 08:00:00', '2024-01-11 09:00:00')`,
+      [dailyId],
+    );
+  });
+
+  afterEach(async () => {
+    await pool.query(
+      `UPDATE pgcalendar.projection_cache_settings
+       SET enabled = FALSE, window_start = NULL, window_end = NULL, refreshed_at = NULL`,
+    );
+    await pool.query('DELETE FROM pgcalendar.projections');
+  });
+
+  async function cachedIds(scheduleId: number): Promise<string[]> {
+    const result = await pool.query(
+      'SELECT projection_id FROM pgcalendar.projections WHERE schedule_id = $1 ORDER BY projection_id',
+      [scheduleId],
+    );
+    return result.rows.map((row) => row.projection_id);
+  }
+
+  async function detailed(startDate: string, endDate: string, timeZone: string | null = null) {
+    const result = await pool.query(
+      'SELECT * FROM pgcalendar.get_events_detailed($1, $2, $3)',
+      [startDate, endDate, timeZone],
+    );
+    return result.rows;
+  }
+
+  it('should return the same projections from the cache as generated live', async () => {
+    const live = [
+      await detailed('2024-01-08', '2024-01-21'),
+      await detailed('2024-01-08', '2024-01-21', 'Asia/Tokyo'),
+      (await pool.query(`SELECT * FROM pgcalendar.get_event_projections($1, '2024-01-10', '2024-01-12')`, [eventId])).rows,
+    ];
+
+    expect(await client.extendProjectionWindow('2024-01-01', '2024-02-29')).toBeGreaterThan(0);
+    await client.setProjectionCacheEnabled(true);
+
+    expect([
+      await detailed('2024-01-08', '2024-01-21'),
+      await detailed('2024-01-08', '2024-01-21', 'Asia/Tokyo'),
+      (await pool.query(`SELECT * FROM pgcalendar.get_event_projections($1, '2024-01-10', '2024-01-12')`, [eventId])).rows,
+    ]).toEqual(live);
+  });
+
+  it('should place schedules without a time zone in the reader\'s time zone', async () => {
+    const inTimeZone = async (timeZone: string, text: string) => {
+      const db = await pool.connect();
+      try {
+        await db.query('BEGIN');
+        await db.query(`SET LOCAL TimeZone = '${timeZone}'`);
+        const result = await db.query(text);
+        await db.query('COMMIT');
+        return result.rows;
+      } finally {
+        db.release();
+      }
+    };
+    const readInNewYork = () => inTimeZone(
+      'America/New_York',
+      `SELECT start_time::text, end_time::text
+       FROM pgcalendar.get_events_detailed('2024-01-08', '2024-01-12') WHERE event_name = 'Night Shift'`,
+    );
+
+    const live = await readInNewYork();
+    expect(live[0]).toEqual({ start_time: '2024-01-08 22:00:00-05', end_time: '2024-01-09 06:00:00-05' });
+
+    await inTimeZone('UTC', `SELECT pgcalendar.extend_projection_window('2024-01-31', '2024-01-01')`);
+    await client.setProjectionCacheEnabled(true);
+    expect(await readInNewYork()).toEqual(live);
+  });
+
+  it('should only read from the cache when enabled and within the window', async () => {
+    await client.extendProjectionWindow('2024-01-01', '2024-01-31');
+    await pool.query(`UPDATE pgcalendar.projections SET status = 'cached'`);
+
+    const statuses = async (startDate: string, endDate: string) =>
+      [...new Set((await detailed(startDate, endDate)).map((row) => row.status))].sort();
+
+    expect(await statuses('2024-01-15', '2024-01-16')).toEqual(['active']);
+    await client.setProjectionCacheEnabled(true);
+    expect(await statuses('2024-01-15', '2024-01-16')).toEqual(['cached']);
+    expect(await statuses('2024-01-30', '2024-02-02')).toEqual(['active']);
+  });
+
+  it('should regenerate only the schedule an exception belongs to', async () => {
+    await client.extendProjectionWindow('2024-01-01', '2024-01-31');
+    const weeklyBefore = await cachedIds(weeklyId);
+    const dailyBefore = await cachedIds(dailyId);
+
+    await pool.query(
+      `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type)
+       VALUES ($1, '2024-01-15', 'cancelled')`,
+      [dailyId],
+    );
+
+    expect(await cachedIds(weeklyId)).toEqual(weeklyBefore);
+    expect(await cachedIds(dailyId)).not.toEqual(dailyBefore);
+    const cancelled = await pool.query(
+      `SELECT status FROM pgcalendar.projections WHERE schedule_id = $1 AND occurrence_date = '2024-01-15'`,
+      [dailyId],
+    );
+    expect(cancelled.rows).toEqual([]);
+
+    await pool.query('DELETE FROM pgcalendar.exceptions WHERE schedule_id = $1', [dailyId]);
+    const statuses = await pool.query(
+      `SELECT DISTINCT status FROM pgcalendar.projections
+       WHERE schedule_id = $1 AND occurrence_date IN ('2024-01-10', '2024-01-15')`,
+      [dailyId],
+    );
+    expect(statuses.rows).toEqual([{ status: 'active' }]);
+  });
+
+  it('should follow schedule and event changes', async () => {
+    await client.extendProjectionWindow('2024-01-01', '2024-01-31');
+    await client.setProjectionCacheEnabled(true);
+
+    await pool.query(`UPDATE pgcalendar.schedules SET end_date = '2024-01-05 10:00:00' WHERE schedule_id = $1`, [dailyId]);
+    await pool.query(`UPDATE pgcalendar.events SET name = 'Renamed' WHERE event_id = $1`, [eventId]);
+
+    const projections = await client.getEventProjections(eventId, '2024-01-01', '2024-01-31');
+    expect(projections.map((p) => [p.projectionDate, p.eventName])).toEqual([
+      ['2024-01-01', 'Renamed'],
+      ['2024-01-02', 'Renamed'],
+      ['2024-01-03', 'Renamed'],
+      ['2024-01-04', 'Renamed'],
+      ['2024-01-05', 'Renamed'],
+    ]);
+
+    await pool.query('DELETE FROM pgcalendar.events WHERE event_id = $1', [eventId]);
+    expect(await cachedIds(dailyId)).toEqual([]);
+    expect((await cachedIds(weeklyId)).length).toBeGreaterThan(0);
+  });
+
+  it('should roll the window forward without regenerating cached days', async () => {
+    await client.extendProjectionWindow('2024-01-01', '2024-01-31');
+    const kept = await pool.query(
+      `SELECT projection_id FROM pgcalendar.projections
+       WHERE schedule_id = $1 AND occurrence_date = '2024-01-20'`,
+      [dailyId],
+    );
+
+    // Two days past the window were already cached: daily adds February 3 to March 2,
+    // weekly the 12 Mondays, Wednesdays and Fridays among them
+    expect(await client.extendProjectionWindow('2024-01-15', '2024-02-29')).toBe(29 + 12);
+
+    const range = await pool.query(
+      `SELECT min(occurrence_date)::text AS first, max(occurrence_date)::text AS last
+       FROM pgcalendar.projections WHERE schedule_id = $1`,
+      [dailyId],
+    );
+    expect(range.rows[0]).toEqual({ first: '2024-01-13', last: '2024-03-02' });
+    const after = await pool.query(
+      `SELECT projection_id FROM pgcalendar.projections
+       WHERE schedule_id = $1 AND occurrence_date = '2024-01-20'`,
+      [dailyId],
+    );
+    expect(after.rows).toEqual(kept.rows);
+
+    const settings = await pool.query(
+      'SELECT window_start::text, window_end::text FROM pgcalendar.projection_cache_settings',
+    );
+    expect(settings.rows[0]).toEqual({ window_start: '2024-01-15', window_end: '2024-02-29' });
+  });
+
+  it('should reject a window that ends before it starts', async () => {
+    await expect(client.extendProjectionWindow('2024-02-01', '2024-01-01')).rejects.toThrow(/before its start/);
+  });
+});
@@ -0,0 +1,198 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient, ProjectionQuery, QueriedProjection } from '../src';
+
+describe('pgcalendar - Projection Query', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let standupId: number;
+  let reviewId: number;
+  let retroId: number;
+  let standupScheduleId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    standupId = (await client.createEvent({
+      name: 'Standup', category: 'meeting', priority: 2, metadata: { team: 'platform' },
+    })).eventId;
+    reviewId = (await client.createEvent({
+      name: 'Review', category: 'meeting', priority: 5, metadata: { team: 'mobile' },
+    })).eventId;
+    retroId = (await client.createEvent({
+      name: 'Retro', category: 'ceremony', priority: 3, status: 'archived',
+    })).eventId;
+
+    standupScheduleId = (await client.createSchedule({
+      eventId: standupId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-05 09:15:00',
+      recurrenceType: 'daily',
+    })).scheduleId;
+    await client.createSchedule({
+      eventId: reviewId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-05 10:00:00',
+      recurrenceType: 'weekly',
+      recurrenceDaysOfWeek: [1, 3, 5],
+    });
+    await client.createSchedule({
+      eventId: retroId,
+      startDate: '2024-01-05 16:00:00',
+      endDate: '2024-01-05 17:00:00',
+      recurrenceType: 'daily',
+    });
+  });
+
+  async function collect(query: ProjectionQuery = {}): Promise<QueriedProjection[]> {
+    const projections: QueriedProjection[] = [];
+    for await (const projection of client.queryProjections('2024-01-01', '2024-01-31', query)) {
+      projections.push(projection);
+    }
+    return projections;
+  }
+
+  async function describeAll(query: ProjectionQuery = {}) {
+    return (await collect(query)).map((p) => `${p.projectionDate} ${p.eventName} ${p.status}`);
+  }
+
+  it('should return the event, schedule and priority of each projection', async () => {
+    const [first] = await client.queryProjectionPage('2024-01-01', '2024-01-31', { pageSize: 1 });
+    expect(first).toMatchObject({
+      eventId: standupId,
+      scheduleId: standupScheduleId,
+      occurrenceDate: '2024-01-01',
+      priority: 2,
+      projectionDate: '2024-01-01',
+      eventName: 'Standup',
+      eventCategory: 'meeting',
+      status: 'active',
+      metadata: { team: 'platform' },
+    });
+    expect(first.startTime).toEqual(new Date(2024, 0, 1, 9, 0, 0));
+  });
+
+  it('should filter by the events and by the projections', async () => {
+    await client.createException({
+      scheduleId: standupScheduleId,
+      exceptionDate: '2024-01-03',
+      exceptionType: 'modified',
+      overrideMetadata: { room: 'B' },
+    });
+
+    expect(await describeAll({ categories: ['ceremony'] })).toEqual(['2024-01-05 Retro active']);
+    expect(await describeAll({ eventStatuses: ['archived'] })).toEqual(['2024-01-05 Retro active']);
+    expect(await describeAll({ minPriority: 3, maxPriority: 4 })).toEqual(['2024-01-05 Retro active']);
+    expect(await describeAll({ eventIds: [reviewId], minPriority: 5 })).toEqual([
+      '2024-01-01 Review active',
+      '2024-01-03 Review active',
+      '2024-01-05 Review active',
+    ]);
+    expect(await describeAll({ metadata: { team: 'platform', room: 'B' } }))
+      .toEqual(['2024-01-03 Standup modified']);
+    expect(await describeAll({ statuses: ['modified'] })).toEqual(['2024-01-03 Standup modified']);
+    expect(await describeAll({ categories: ['meeting'], eventIds: [retroId] })).toEqual([]);
+  });
+
+  it('should page through the projections in start time, event and schedule order', async () => {
+    const all = await client.queryProjectionPage('2024-01-01', '2024-01-31', { pageSize: 1000 });
+    expect(all).toHaveLength(9);
+    expect(all.slice(0, 3).map((p) => `${p.projectionDate} ${p.eventName}`)).toEqual([
+      '2024-01-01 Standup',
+      '2024-01-01 Review',
+      '2024-01-02 Standup',
+    ]);
+
+    const page = await client.queryProjectionPage('2024-01-01', '2024-01-31', { pageSize: 2 }, all[1]);
+    expect(page).toEqual(all.slice(2, 4));
+    expect(await collect({ pageSize: 2 })).toEqual(all);
+    expect(await collect({ pageSize: 9 })).toEqual(all);
+  });
+
+  it('should not skip occurrences of a schedule moved onto the same time', async () => {
+    await client.createException({
+      scheduleId: standupScheduleId,
+      exceptionDate: '2024-01-02',
+      exceptionType: 'modified',
+      modifiedDate: '2024-01-03',
+      modifiedStartTime: '2024-01-03 09:00:00',
+      modifiedEndTime: '2024-01-03 09:15:00',
+    });
+
+    const standups = await collect({ eventIds: [standupId], pageSize: 1 });
+    expect(standups.map((p) => `${p.occurrenceDate} ${p.projectionDate}`)).toEqual([
+      '2024-01-01 2024-01-01',
+      '2024-01-02 2024-01-03',
+      '2024-01-03 2024-01-03',
+      '2024-01-04 2024-01-04',
+      '2024-01-05 2024-01-05',
+    ]);
+  });
+
+  it('should not skip occurrences moved past the cursor from earlier days', async () => {
+    await client.createException({
+      scheduleId: standupScheduleId,
+      exceptionDate: '2024-01-02',
+      exceptionType: 'modified',
+      modifiedDate: '2024-01-09',
+      modifiedStartTime: '2024-01-09 08:00:00',
+      modifiedEndTime: '2024-01-09 08:15:00',
+    });
+    const shutdown = await client.loadHolidays('Shutdown', [
+      { date: '2024-01-01', name: null },
+      { date: '2024-01-02', name: null },
+      { date: '2024-01-03', name: null },
+    ]);
+    const payrollId = (await client.createEvent({ name: 'Payroll' })).eventId;
+    await client.createSchedule({
+      eventId: payrollId,
+      startDate: '2024-01-01 12:00:00',
+      endDate: '2024-01-15 13:00:00',
+      recurrenceType: 'weekly',
+      recurrenceDayOfWeek: 1,
+      holidaySetId: shutdown.holidaySetId,
+      holidayPolicy: 'next_business_day',
+    });
+
+    const paged = await collect({ eventIds: [standupId, payrollId], pageSize: 1 });
+    expect(paged.map((p) => `${p.occurrenceDate} ${p.projectionDate} ${p.eventName}`)).toEqual([
+      '2024-01-01 2024-01-01 Standup',
+      '2024-01-03 2024-01-03 Standup',
+      '2024-01-04 2024-01-04 Standup',
+      '2024-01-01 2024-01-04 Payroll',
+      '2024-01-05 2024-01-05 Standup',
+      '2024-01-08 2024-01-08 Payroll',
+      '2024-01-02 2024-01-09 Standup',
+      '2024-01-15 2024-01-15 Payroll',
+    ]);
+  });
+
+  it('should page through start times finer than a millisecond', async () => {
+    await client.createSchedule({
+      eventId: reviewId,
+      startDate: '2024-01-10 09:00:00.000250',
+      endDate: '2024-01-10 10:00:00',
+      recurrenceType: 'daily',
+    });
+    await client.createSchedule({
+      eventId: retroId,
+      startDate: '2024-01-10 09:00:00.000500',
+      endDate: '2024-01-10 10:00:00',
+      recurrenceType: 'daily',
+    });
+
+    const [review] = await client.queryProjectionPage('2024-01-10', '2024-01-10', { pageSize: 1 });
+    expect(review.eventName).toBe('Review');
+    const page = await client.queryProjectionPage('2024-01-10', '2024-01-10', { pageSize: 10 }, review);
+    expect(page.map((p) => p.eventName)).toEqual(['Retro']);
+  });
+
+  it('should reject a page size below one', async () => {
+    await expect(client.queryProjectionPage('2024-01-01', '2024-01-31', { pageSize: 0 }))
+      .rejects.toThrow(/Page size must be positive/);
+  });
+});
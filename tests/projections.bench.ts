@@ -0,0 +1,193 @@
+import { Pool } from 'pg';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setupTestDatabase, cleanTestData } from './setup';
+
+// Run with `npm run bench`. Timings are written to PGCALENDAR_BENCH_OUTPUT; with
+// PGCALENDAR_BENCH_BASELINE pointing at an earlier output, a query slower than the
+// baseline times PGCALENDAR_BENCH_TOLERANCE fails the run.
+const SCHEDULES = parseInt(process.env.PGCALENDAR_BENCH_SCHEDULES || '1000', 10);
+const YEARS = parseInt(process.env.PGCALENDAR_BENCH_YEARS || '10', 10);
+const RUNS = parseInt(process.env.PGCALENDAR_BENCH_RUNS || '3', 10);
+const TOLERANCE = parseFloat(process.env.PGCALENDAR_BENCH_TOLERANCE || '1.5');
+const OUTPUT = process.env.PGCALENDAR_BENCH_OUTPUT || path.join(__dirname, '../bench-results.json');
+const BASELINE = process.env.PGCALENDAR_BENCH_BASELINE;
+
+interface Timing {
+  name: string;
+  rows: number;
+  bestMs: number;
+  medianMs: number;
+}
+
+interface BenchResults {
+  recordedAt: string;
+  schedules: number;
+  years: number;
+  timings: Timing[];
+}
+
+describe('pgcalendar - Projection Benchmark', () => {
+  let pool: Pool;
+  const timings: Timing[] = [];
+  const rangeStart = '2024-01-01';
+  const rangeEnd = `${2023 + YEARS}-12-31`;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    await cleanTestData(pool);
+
+    // One event per schedule, cycling through every kind of recurrence in the same way on every run
+    await pool.query(
+      `INSERT INTO pgcalendar.events (name, category)
+       SELECT 'Bench ' || i, 'bench' FROM generate_series(1, $1) i`,
+      [SCHEDULES],
+    );
+    await pool.query(
+      `INSERT INTO pgcalendar.schedules
+       (event_id, start_date, recurrence_type, recurrence_interval, recurrence_day_of_week,
+        recurrence_days_of_week, recurrence_day_of_month, recurrence_week_of_month, rrule,
+        time_zone, duration_minutes)
+       SELECT e.event_id,
+              '2023-06-01 09:00:00'::timestamp + (e.i % 30) * INTERVAL '1 day',
+              (ARRAY['daily', 'weekly', 'monthly', 'monthly', 'weekly'])[e.i % 5 + 1]::pgcalendar.recurrence_type,
+              e.i % 3 + 1,
+              CASE WHEN e.i % 5 = 3 THEN e.i % 7 END,
+              CASE WHEN e.i % 5 = 1 THEN ARRAY[1, 3, 5] END,
+              CASE WHEN e.i % 5 = 2 THEN e.i % 28 + 1 END,
+              CASE WHEN e.i % 5 = 3 THEN e.i % 4 + 1 END,
+              CASE WHEN e.i % 5 = 4 THEN 'FREQ=WEEKLY;BYDAY=TU,TH' END,
+              CASE WHEN e.i % 2 = 0 THEN 'America/New_York' END,
+              45
+       FROM (SELECT event_id, row_number() OVER (ORDER BY event_id) AS i FROM pgcalendar.events) e`,
+    );
+    // Cancel or move a few dates of every schedule; not all of them are occurrences
+    await pool.query(
+      `INSERT INTO pgcalendar.exceptions
+       (schedule_id, exception_date, exception_type, modified_start_time, modified_end_time)
+       SELECT s.schedule_id, d,
+              CASE WHEN k % 2 = 0 THEN 'modified' ELSE 'cancelled' END::pgcalendar.exception_type,
+              CASE WHEN k % 2 = 0 THEN d + TIME '14:00' END,
+              CASE WHEN k % 2 = 0 THEN d + TIME '15:00' END
+       FROM pgcalendar.schedules s
+       CROSS JOIN generate_series(1, 20) k
+       CROSS JOIN LATERAL (SELECT (s.start_date::date + k * 30) AS d) x`,
+    );
+    await pool.query('ANALYZE pgcalendar.events, pgcalendar.schedules, pgcalendar.exceptions');
+  });
+
+  afterAll(async () => {
+    await cleanTestData(pool);
+
+    const results: BenchResults = {
+      recordedAt: new Date().toISOString(),
+      schedules: SCHEDULES,
+      years: YEARS,
+      timings,
+    };
+    fs.writeFileSync(OUTPUT, `${JSON.stringify(results, null, 2)}\n`);
+    console.table(timings);
+  });
+
+  async function measure(name: string, sql: string, values: unknown[] = []): Promise<Timing> {
+    const durations: number[] = [];
+    let rows = 0;
+    for (let run = 0; run < RUNS; run++) {
+      const started = process.hrtime.bigint();
+      const result = await pool.query(sql, values);
+      durations.push(Number(process.hrtime.bigint() - started) / 1e6);
+      rows = Number(result.rows[0].count);
+    }
+    durations.sort((a, b) => a - b);
+    const timing = {
+      name,
+      rows,
+      bestMs: Math.round(durations[0]),
+      medianMs: Math.round(durations[Math.floor(durations.length / 2)]),
+    };
+    timings.push(timing);
+    return timing;
+  }
+
+  function expectWithinBaseline(timing: Timing) {
+    if (!BASELINE) {
+      return;
+    }
+    const baseline: BenchResults = JSON.parse(fs.readFileSync(BASELINE, 'utf8'));
+    const previous = baseline.timings.find((t) => t.name === timing.name);
+    if (previous) {
+      expect(timing.rows).toBe(previous.rows);
+      expect(timing.bestMs).toBeLessThanOrEqual(Math.max(previous.bestMs * TOLERANCE, previous.bestMs + 20));
+    }
+  }
+
+  it('should time generate_projections over every schedule', async () => {
+    const timing = await measure(
+      'generate_projections',
+      `SELECT count(*) FROM pgcalendar.schedules s
+       CROSS JOIN LATERAL pgcalendar.generate_projections(s.schedule_id, $1, $2) p`,
+      [rangeStart, rangeEnd],
+    );
+    expect(timing.rows).toBeGreaterThan(0);
+    expectWithinBaseline(timing);
+  });
+
+  it('should time get_events_detailed over the whole range', async () => {
+    const timing = await measure(
+      'get_events_detailed',
+      'SELECT count(*) FROM pgcalendar.get_events_detailed($1, $2)',
+      [rangeStart, rangeEnd],
+    );
+    expectWithinBaseline(timing);
+  });
+
+  it('should time get_events_detailed for one month', async () => {
+    const timing = await measure(
+      'get_events_detailed (month)',
+      `SELECT count(*) FROM pgcalendar.get_events_detailed($1, ($1::date + INTERVAL '1 month')::date)`,
+      [`${2023 + YEARS}-06-01`],
+    );
+    expectWithinBaseline(timing);
+  });
+
+  it('should time get_event_projections for one event', async () => {
+    const timing = await measure(
+      'get_event_projections',
+      `SELECT count(*) FROM pgcalendar.get_event_projections(
+         (SELECT min(event_id) FROM pgcalendar.events), $1, $2)`,
+      [rangeStart, rangeEnd],
+    );
+    expectWithinBaseline(timing);
+  });
+
+  it('should time one month of a business day schedule started decades before', async () => {
+    const holidaySetId = (await pool.query(
+      `INSERT INTO pgcalendar.holiday_sets (name) VALUES ('Bench holidays') RETURNING holiday_set_id`,
+    )).rows[0].holiday_set_id;
+    await pool.query(
+      `INSERT INTO pgcalendar.holidays (holiday_set_id, holiday_date)
+       SELECT $1, make_date(y, m, d)
+       FROM generate_series(1980, $2) y
+       CROSS JOIN (VALUES (1, 1), (5, 1), (12, 25), (12, 26)) h(m, d)`,
+      [holidaySetId, 2023 + YEARS],
+    );
+    const eventId = (await pool.query(
+      `INSERT INTO pgcalendar.events (name, category) VALUES ('Bench payroll', 'bench') RETURNING event_id`,
+    )).rows[0].event_id;
+    const scheduleId = (await pool.query(
+      `INSERT INTO pgcalendar.schedules
+       (event_id, start_date, recurrence_type, recurrence_interval, holiday_set_id, duration_minutes)
+       VALUES ($1, '1980-01-02 09:00:00', 'business_day', 3, $2, 30)
+       RETURNING schedule_id`,
+      [eventId, holidaySetId],
+    )).rows[0].schedule_id;
+
+    const timing = await measure(
+      'generate_projections (business days since 1980, month)',
+      `SELECT count(*) FROM pgcalendar.generate_projections($1, $2, ($2::date + INTERVAL '1 month')::date)`,
+      [scheduleId, `${2023 + YEARS}-06-01`],
+    );
+    expect(timing.rows).toBeGreaterThan(0);
+    expectWithinBaseline(timing);
+  });
+});
@@ -142,6 +142,21 @@ describe('pgcalendar - Projections', () => {
       });
     });
 
+    it('should keep daily intervals aligned to the series start', async () => {
+      await pool.query(
+        'UPDATE pgcalendar.schedules SET recurrence_interval = 2 WHERE schedule_id = $1',
+        [scheduleId]
+      );
+
+      // The range starts on a day between two occurrences
+      const result = await pool.query(
+        `SELECT projection_date::text FROM pgcalendar.get_event_projections($1, $2::date, $3::date)`,
+        [eventId, '2024-01-02', '2024-01-07']
+      );
+
+      expect(result.rows.map((row) => row.projection_date)).toEqual(['2024-01-03', '2024-01-05', '2024-01-07']);
+    });
+
     it('should return empty result for date range outside schedule', async () => {
       const result = await pool.query(
         `SELECT * FROM pgcalendar.get_event_projections($1, $2::date, $3::date)`,
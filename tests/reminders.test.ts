@@ -0,0 +1,169 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { DueReminder, PgCalendarClient, ReminderWorker } from '../src';
+
+describe('pgcalendar - Reminders', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let eventId: number;
+  let scheduleId: number;
+
+  // 08:50 on January 4, ten minutes before that day's standup
+  const now = new Date(2024, 0, 4, 8, 50, 0);
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    eventId = (await client.createEvent({ name: 'Standup', location: 'Room A' })).eventId;
+    scheduleId = (await client.createSchedule({
+      eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-10 09:15:00',
+      recurrenceType: 'daily',
+    })).scheduleId;
+    await client.createReminder({ eventId, minutesBefore: 15, metadata: { channel: 'push' } });
+    await client.createReminder({ scheduleId, minutesBefore: 1440, metadata: { channel: 'email' } });
+  });
+
+  function describeDue(reminders: DueReminder[]) {
+    return reminders.map((r) => `${r.occurrenceDate} ${r.metadata.channel}`);
+  }
+
+  it('should return reminders within their offset before an occurrence', async () => {
+    const due = await client.getDueReminders(now);
+
+    // The day-before reminder for January 5 is due at 09:00
+    expect(describeDue(due)).toEqual(['2024-01-04 email', '2024-01-04 push']);
+    expect(due[1]).toMatchObject({
+      eventId,
+      scheduleId,
+      startTime: new Date(2024, 0, 4, 9, 0, 0),
+      remindAt: new Date(2024, 0, 4, 8, 45, 0),
+      eventName: 'Standup',
+      location: 'Room A',
+    });
+    expect(await client.getDueReminders(new Date(2024, 0, 4, 9, 0, 0))).toHaveLength(1);
+  });
+
+  it('should skip cancelled occurrences and follow moved ones', async () => {
+    await client.createException({ scheduleId, exceptionDate: '2024-01-04', exceptionType: 'cancelled' });
+    await client.createException({
+      scheduleId,
+      exceptionDate: '2024-01-06',
+      exceptionType: 'modified',
+      modifiedDate: '2024-01-04',
+      modifiedStartTime: '2024-01-04 09:05:00',
+      modifiedEndTime: '2024-01-04 09:20:00',
+    });
+
+    const due = await client.getDueReminders(now);
+    expect(describeDue(due)).toEqual(['2024-01-06 email', '2024-01-06 push']);
+    expect(due[1].startTime).toEqual(new Date(2024, 0, 4, 9, 5, 0));
+  });
+
+  it('should send due reminders once and record their delivery', async () => {
+    const sent: DueReminder[] = [];
+    const worker = new ReminderWorker(pool, async (reminder) => {
+      sent.push(reminder);
+    }, { now: () => now });
+
+    expect(await worker.runOnce()).toEqual({ claimed: 2, sent: 2, failed: 0 });
+    expect(await worker.runOnce()).toEqual({ claimed: 0, sent: 0, failed: 0 });
+    expect(describeDue(sent)).toEqual(['2024-01-04 email', '2024-01-04 push']);
+    expect(await client.getDueReminders(now)).toEqual([]);
+
+    const deliveries = await pool.query(
+      'SELECT attempts, sent_at IS NOT NULL AS sent FROM pgcalendar.reminder_deliveries',
+    );
+    expect(deliveries.rows).toEqual([{ attempts: 1, sent: true }, { attempts: 1, sent: true }]);
+  });
+
+  it('should record the delivery of occurrences starting within a millisecond', async () => {
+    await client.updateSchedule(scheduleId, { startDate: '2024-01-01 09:00:00.000250' });
+    const worker = new ReminderWorker(pool, async () => undefined, { now: () => now });
+
+    expect(await worker.runOnce()).toEqual({ claimed: 2, sent: 2, failed: 0 });
+    expect(await worker.runOnce()).toEqual({ claimed: 0, sent: 0, failed: 0 });
+    expect(await client.getDueReminders(now)).toEqual([]);
+  });
+
+  it('should keep failed reminders queued for another attempt', async () => {
+    const errors: string[] = [];
+    let failing = true;
+    const worker = new ReminderWorker(pool, async (reminder) => {
+      if (failing && reminder.metadata.channel === 'push') {
+        throw new Error('push service unavailable');
+      }
+    }, { now: () => now, onError: (error) => errors.push(error.message) });
+
+    expect(await worker.runOnce()).toEqual({ claimed: 2, sent: 1, failed: 1 });
+    expect(errors).toEqual(['push service unavailable']);
+    const queued = await pool.query(
+      'SELECT attempts, last_error FROM pgcalendar.reminder_deliveries WHERE sent_at IS NULL',
+    );
+    expect(queued.rows).toEqual([{ attempts: 1, last_error: 'push service unavailable' }]);
+
+    failing = false;
+    expect(await worker.runOnce()).toEqual({ claimed: 1, sent: 1, failed: 0 });
+  });
+
+  it('should not send a reminder twice with concurrent workers', async () => {
+    await client.createReminder({ eventId, minutesBefore: 30 });
+    await client.createReminder({ eventId, minutesBefore: 60 });
+    const sent: number[] = [];
+    const sender = async (reminder: DueReminder) => {
+      sent.push(reminder.reminderId);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    };
+    const workers = [1, 2, 3].map(() => new ReminderWorker(pool, sender, { now: () => now, batchSize: 1 }));
+
+    const batches = await Promise.all(workers.map((worker) => worker.runOnce()));
+
+    expect(batches.reduce((total, batch) => total + batch.sent, 0)).toBe(4);
+    expect(new Set(sent).size).toBe(4);
+    expect(sent).toHaveLength(4);
+  });
+
+  it('should remind again of an occurrence moved after its reminder was sent', async () => {
+    const sent: string[] = [];
+    const worker = new ReminderWorker(pool, async (reminder) => {
+      sent.push(`${reminder.occurrenceDate} ${reminder.startTime.getHours()}:${reminder.startTime.getMinutes()}`);
+    }, { now: () => now });
+    await worker.runOnce();
+
+    await client.createException({
+      scheduleId,
+      exceptionDate: '2024-01-04',
+      exceptionType: 'modified',
+      modifiedStartTime: '2024-01-04 09:10:00',
+      modifiedEndTime: '2024-01-04 09:25:00',
+    });
+    await worker.runOnce();
+
+    // The 15 minute reminder of the moved occurrence is not due before 08:55
+    expect(sent).toEqual(['2024-01-04 9:0', '2024-01-04 9:0', '2024-01-04 9:10']);
+  });
+
+  it('should keep reminding of the occurrences a split moves to the new schedule', async () => {
+    const worker = new ReminderWorker(pool, async () => undefined, { now: () => now });
+    expect(await worker.runOnce()).toEqual({ claimed: 2, sent: 2, failed: 0 });
+
+    const { tail } = await client.splitSchedule(scheduleId, '2024-01-04');
+
+    // Not again of January 4, already reminded of
+    expect(await client.getDueReminders(now)).toEqual([]);
+    const due = await client.getDueReminders(new Date(2024, 0, 5, 8, 50, 0));
+    expect(describeDue(due)).toEqual(['2024-01-05 email', '2024-01-05 push']);
+    expect(due.map((r) => r.scheduleId)).toEqual([tail.scheduleId, tail.scheduleId]);
+  });
+
+  it('should require exactly one target', async () => {
+    await expect(client.createReminder({ eventId, scheduleId, minutesBefore: 5 }))
+      .rejects.toThrow(/reminder_target/);
+    await expect(client.createReminder({ minutesBefore: 5 })).rejects.toThrow(/reminder_target/);
+  });
+});
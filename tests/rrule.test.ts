@@ -0,0 +1,174 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { expandRRule, parseRRule, RRuleError } from '../src';
+
+describe('pgcalendar - RRULE Schedules', () => {
+  let pool: Pool;
+  let eventId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const eventResult = await pool.query(
+      `INSERT INTO pgcalendar.events (name) VALUES ($1) RETURNING event_id`,
+      ['RRULE Event'],
+    );
+    eventId = eventResult.rows[0].event_id;
+  });
+
+  async function createSchedule(rrule: string, startDate = '2024-01-01 10:00:00', endDate = '2024-12-31 11:00:00') {
+    const result = await pool.query(
+      `INSERT INTO pgcalendar.schedules (event_id, start_date, end_date, rrule)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [eventId, startDate, endDate, rrule],
+    );
+    return result.rows[0];
+  }
+
+  async function projectionDates(scheduleId: number, startDate = '2024-01-01', endDate = '2024-12-31') {
+    const result = await pool.query(
+      `SELECT projection_date::text FROM pgcalendar.generate_projections($1, $2::date, $3::date)`,
+      [scheduleId, startDate, endDate],
+    );
+    return result.rows.map((row) => row.projection_date);
+  }
+
+  describe('Validation', () => {
+    it('should normalize the rule and derive recurrence_type', async () => {
+      const schedule = await createSchedule('rrule:freq=monthly;interval=2;byday=2tu');
+
+      expect(schedule.rrule).toBe('FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU');
+      expect(schedule.recurrence_type).toBe('monthly');
+      expect(schedule.recurrence_interval).toBe(2);
+    });
+
+    it.each([
+      ['FREQ=HOURLY', /FREQ=HOURLY is not supported/],
+      ['INTERVAL=2', /FREQ is required/],
+      ['FREQ=WEEKLY;BYDAY=2MO', /ordinals require/],
+      ['FREQ=MONTHLY;BYDAY=6MO', /between -5 and 5/],
+      ['FREQ=MONTHLY;BYMONTHDAY=0', /BYMONTHDAY/],
+      ['FREQ=DAILY;COUNT=3;UNTIL=20240201', /cannot be combined/],
+      ['FREQ=DAILY;BYSETPOS=1', /BYSETPOS requires/],
+      ['FREQ=YEARLY;BYWEEKNO=20', /BYWEEKNO is not supported/],
+    ])('should reject %s', async (rrule, message) => {
+      await expect(createSchedule(rrule)).rejects.toThrow(message);
+      expect(() => parseRRule(rrule)).toThrow(RRuleError);
+    });
+  });
+
+  describe('generate_projections', () => {
+    it('should expand BYDAY ordinals', async () => {
+      const schedule = await createSchedule('FREQ=MONTHLY;BYDAY=2TU', '2024-01-01 10:00:00', '2024-04-30 11:00:00');
+
+      expect(await projectionDates(schedule.schedule_id)).toEqual([
+        '2024-01-09', '2024-02-13', '2024-03-12', '2024-04-09',
+      ]);
+    });
+
+    it('should expand negative BYMONTHDAY', async () => {
+      const schedule = await createSchedule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1', '2023-01-01 10:00:00', '2026-12-31 11:00:00');
+
+      expect(await projectionDates(schedule.schedule_id, '2023-01-01', '2026-12-31')).toEqual([
+        '2023-02-28', '2024-02-29', '2025-02-28', '2026-02-28',
+      ]);
+    });
+
+    it('should apply BYSETPOS within each period', async () => {
+      const schedule = await createSchedule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2024-01-01 10:00:00', '2024-03-31 11:00:00');
+
+      expect(await projectionDates(schedule.schedule_id)).toEqual([
+        '2024-01-31', '2024-02-29', '2024-03-29',
+      ]);
+    });
+
+    it('should count COUNT from the series start, not the query range', async () => {
+      const schedule = await createSchedule('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4');
+
+      expect(await projectionDates(schedule.schedule_id)).toEqual([
+        '2024-01-01', '2024-01-03', '2024-01-08', '2024-01-10',
+      ]);
+      expect(await projectionDates(schedule.schedule_id, '2024-01-05', '2024-12-31')).toEqual([
+        '2024-01-08', '2024-01-10',
+      ]);
+    });
+
+    it('should stop at UNTIL and at the schedule end', async () => {
+      const until = await createSchedule('FREQ=DAILY;INTERVAL=10;UNTIL=20240125', '2024-01-01 10:00:00', '2024-01-31 11:00:00');
+
+      expect(await projectionDates(until.schedule_id)).toEqual(['2024-01-01', '2024-01-11', '2024-01-21']);
+    });
+
+    it('should apply exceptions to RRULE occurrences', async () => {
+      const schedule = await createSchedule('FREQ=MONTHLY;BYDAY=2TU', '2024-01-01 10:00:00', '2024-03-31 11:00:00');
+      await pool.query(
+        `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type, modified_date)
+         VALUES ($1, '2024-01-09', 'cancelled', NULL), ($1, '2024-02-13', 'modified', '2024-02-14')`,
+        [schedule.schedule_id],
+      );
+
+      const result = await pool.query(
+        `SELECT projection_date::text, local_start_time::text AS start_time, status
+         FROM pgcalendar.get_event_projections($1, '2024-01-01', '2024-03-31')`,
+        [eventId],
+      );
+
+      expect(result.rows).toEqual([
+        { projection_date: '2024-02-14', start_time: '2024-02-14 10:00:00', status: 'modified' },
+        { projection_date: '2024-03-12', start_time: '2024-03-12 10:00:00', status: 'active' },
+      ]);
+    });
+  });
+
+  describe('convert_schedule_to_rrule', () => {
+    it('should convert enum-based schedules', async () => {
+      const legacy = await pool.query(
+        `INSERT INTO pgcalendar.schedules
+         (event_id, start_date, end_date, recurrence_type, recurrence_interval, recurrence_day_of_week)
+         VALUES ($1, '2024-01-01 10:00:00', '2024-02-29 11:00:00', 'weekly', 2, 1)
+         RETURNING schedule_id`,
+        [eventId],
+      );
+      const scheduleId = legacy.rows[0].schedule_id;
+      const before = await projectionDates(scheduleId);
+
+      const result = await pool.query(
+        `SELECT pgcalendar.convert_schedule_to_rrule($1) AS rrule`,
+        [scheduleId],
+      );
+
+      expect(result.rows[0].rrule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO');
+      expect(await projectionDates(scheduleId)).toEqual(before);
+    });
+
+    it('should reject incomplete enum-based schedules', async () => {
+      const legacy = await pool.query(
+        `INSERT INTO pgcalendar.schedules (event_id, start_date, end_date, recurrence_type)
+         VALUES ($1, '2024-01-01 10:00:00', '2024-02-29 11:00:00', 'monthly')
+         RETURNING schedule_id`,
+        [eventId],
+      );
+
+      await expect(
+        pool.query(`SELECT pgcalendar.convert_schedule_to_rrule($1)`, [legacy.rows[0].schedule_id]),
+      ).rejects.toThrow(/recurrence_day_of_month/);
+    });
+  });
+
+  describe('expandRRule', () => {
+    it('should match the SQL expansion', async () => {
+      const rrule = 'FREQ=YEARLY;BYDAY=20MO;COUNT=3';
+      const result = await pool.query(
+        `SELECT d::text FROM pgcalendar.rrule_occurrences($1, '2024-01-01', '2030-12-31') d`,
+        [rrule],
+      );
+
+      expect(expandRRule(rrule, '2024-01-01', '2030-12-31')).toEqual(result.rows.map((row) => row.d));
+      expect(result.rows.map((row) => row.d)).toEqual(['2024-05-13', '2025-05-19', '2026-05-18']);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient } from '../src';
+
+describe('pgcalendar - Schedule Split', () => {
+  let pool: Pool;
+  let client: PgCalendarClient;
+  let eventId: number;
+  let scheduleId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    client = new PgCalendarClient(pool);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const eventResult = await pool.query(
+      `INSERT INTO pgcalendar.events (name) VALUES ($1) RETURNING event_id`,
+      ['Standup'],
+    );
+    eventId = eventResult.rows[0].event_id;
+
+    // Mondays, Wednesdays and Fridays in January
+    const scheduleResult = await pool.query(
+      `INSERT INTO pgcalendar.schedules
+       (event_id, start_date, end_date, recurrence_type, recurrence_days_of_week, description)
+       VALUES ($1, '2024-01-01 09:00:00', '2024-01-31 09:15:00', 'weekly', '{1,3,5}', 'Team A')
+       RETURNING schedule_id`,
+      [eventId],
+    );
+    scheduleId = scheduleResult.rows[0].schedule_id;
+
+    await pool.query(
+      `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type, modified_start_time)
+       VALUES ($1, '2024-01-05', 'cancelled', NULL),
+              ($1, '2024-01-17', 'modified', '2024-01-17 11:00:00'),
+              ($1, '2024-01-26', 'cancelled', NULL)`,
+      [scheduleId],
+    );
+  });
+
+  async function projections() {
+    const result = await pool.query(
+      `SELECT projection_date::text, start_time::time::text, status
+       FROM pgcalendar.get_event_projections($1, '2024-01-01', '2024-01-31')`,
+      [eventId],
+    );
+    return result.rows.map((row) => `${row.projection_date} ${row.start_time} ${row.status}`);
+  }
+
+  it('should end the schedule before the split and continue with the new settings', async () => {
+    const result = await pool.query(
+      `SELECT * FROM pgcalendar.split_schedule($1, '2024-01-15', $2)`,
+      [scheduleId, { recurrence_days_of_week: [2, 4], start_date: '2024-01-15 10:00:00', end_date: '2024-01-31 10:30:00' }],
+    );
+    const { head_schedule_id: headId, tail_schedule_id: tailId } = result.rows[0];
+    expect(headId).toBe(scheduleId);
+
+    const schedules = await pool.query(
+      `SELECT schedule_id, start_date::text, end_date::text, recurrence_days_of_week, description
+       FROM pgcalendar.schedules ORDER BY start_date`,
+    );
+    expect(schedules.rows).toEqual([
+      {
+        schedule_id: headId,
+        start_date: '2024-01-01 09:00:00',
+        end_date: '2024-01-14 09:15:00',
+        recurrence_days_of_week: [1, 3, 5],
+        description: 'Team A',
+      },
+      {
+        schedule_id: tailId,
+        start_date: '2024-01-15 10:00:00',
+        end_date: '2024-01-31 10:30:00',
+        recurrence_days_of_week: [2, 4],
+        description: 'Team A',
+      },
+    ]);
+
+    // The carried exceptions fall on Wednesday and Friday, which the tail no longer has
+    expect(await projections()).toEqual([
+      '2024-01-01 09:00:00 active',
+      '2024-01-03 09:00:00 active',
+      '2024-01-08 09:00:00 active',
+      '2024-01-10 09:00:00 active',
+      '2024-01-12 09:00:00 active',
+      '2024-01-16 10:00:00 active',
+      '2024-01-18 10:00:00 active',
+      '2024-01-23 10:00:00 active',
+      '2024-01-25 10:00:00 active',
+      '2024-01-30 10:00:00 active',
+    ]);
+  });
+
+  it('should carry later exceptions over to the tail', async () => {
+    const result = await pool.query(
+      `SELECT * FROM pgcalendar.split_schedule($1, '2024-01-15')`,
+      [scheduleId],
+    );
+
+    const exceptions = await pool.query(
+      `SELECT schedule_id, exception_date::text FROM pgcalendar.exceptions ORDER BY exception_date`,
+    );
+    expect(exceptions.rows).toEqual([
+      { schedule_id: scheduleId, exception_date: '2024-01-05' },
+      { schedule_id: result.rows[0].tail_schedule_id, exception_date: '2024-01-17' },
+      { schedule_id: result.rows[0].tail_schedule_id, exception_date: '2024-01-26' },
+    ]);
+    expect(await projections()).toContain('2024-01-17 11:00:00 modified');
+    expect(await projections()).not.toContain('2024-01-26 09:00:00 active');
+  });
+
+  it('should drop later exceptions when asked to', async () => {
+    await pool.query(
+      `SELECT * FROM pgcalendar.split_schedule($1, '2024-01-15', '{}', FALSE)`,
+      [scheduleId],
+    );
+
+    const exceptions = await pool.query(
+      `SELECT exception_date::text FROM pgcalendar.exceptions ORDER BY exception_date`,
+    );
+    expect(exceptions.rows).toEqual([{ exception_date: '2024-01-05' }]);
+    expect(await projections()).toContain('2024-01-17 09:00:00 active');
+    expect(await projections()).toContain('2024-01-26 09:00:00 active');
+  });
+
+  it('should keep the remaining count of a counted series', async () => {
+    await pool.query(
+      `UPDATE pgcalendar.schedules SET end_date = NULL, occurrence_count = 8, duration_minutes = 15
+       WHERE schedule_id = $1`,
+      [scheduleId],
+    );
+
+    const result = await pool.query(
+      `SELECT * FROM pgcalendar.split_schedule($1, '2024-01-10')`,
+      [scheduleId],
+    );
+
+    const tail = await pool.query(
+      'SELECT occurrence_count FROM pgcalendar.schedules WHERE schedule_id = $1',
+      [result.rows[0].tail_schedule_id],
+    );
+    // Four occurrences before the split, the cancelled one on January 5 included
+    expect(tail.rows[0].occurrence_count).toBe(4);
+    expect((await projections()).map((p) => p.slice(0, 10))).toEqual([
+      '2024-01-01', '2024-01-03', '2024-01-08', '2024-01-10', '2024-01-12', '2024-01-15', '2024-01-17',
+    ]);
+  });
+
+  it('should reject dates that are not occurrences or the first one', async () => {
+    await expect(pool.query(`SELECT * FROM pgcalendar.split_schedule($1, '2024-01-16')`, [scheduleId]))
+      .rejects.toThrow(/not an occurrence/);
+    await expect(pool.query(`SELECT * FROM pgcalendar.split_schedule($1, '2024-01-01')`, [scheduleId]))
+      .rejects.toThrow(/first occurrence/);
+    await expect(pool.query(`SELECT * FROM pgcalendar.split_schedule($1, '2024-01-15', '{"event_id": 1}')`, [scheduleId]))
+      .rejects.toThrow(/Cannot change event_id/);
+
+    const schedules = await pool.query('SELECT count(*)::int AS count FROM pgcalendar.schedules');
+    expect(schedules.rows[0].count).toBe(1);
+  });
+
+  it('should split through the client', async () => {
+    const { head, tail } = await client.splitSchedule(scheduleId, '2024-01-22', {
+      startDate: new Date(2024, 0, 22, 8, 30, 0),
+      description: 'Team B',
+    });
+
+    expect(head.endDate).toEqual(new Date(2024, 0, 21, 9, 15, 0));
+    expect(tail.startDate).toEqual(new Date(2024, 0, 22, 8, 30, 0));
+    expect(tail.description).toBe('Team B');
+    expect(tail.recurrenceDaysOfWeek).toEqual([1, 3, 5]);
+  });
+});
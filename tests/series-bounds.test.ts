@@ -0,0 +1,183 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+
+describe('pgcalendar - Series Bounds', () => {
+  let pool: Pool;
+  let eventId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const eventResult = await pool.query(
+      `INSERT INTO pgcalendar.events (name) VALUES ($1) RETURNING event_id`,
+      ['Series Event'],
+    );
+    eventId = eventResult.rows[0].event_id;
+  });
+
+  interface Series {
+    startDate: string;
+    endDate?: string | null;
+    recurrenceType?: string;
+    dayOfWeek?: number | null;
+    count?: number | null;
+    durationMinutes?: number | null;
+    endTime?: string | null;
+  }
+
+  async function createSchedule(series: Series): Promise<number> {
+    const result = await pool.query(
+      `INSERT INTO pgcalendar.schedules
+       (event_id, start_date, end_date, recurrence_type, recurrence_day_of_week,
+        occurrence_count, duration_minutes, occurrence_end_time)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING schedule_id`,
+      [
+        eventId,
+        series.startDate,
+        series.endDate ?? null,
+        series.recurrenceType ?? 'daily',
+        series.dayOfWeek ?? null,
+        series.count ?? null,
+        series.durationMinutes ?? null,
+        series.endTime ?? null,
+      ],
+    );
+    return result.rows[0].schedule_id;
+  }
+
+  async function projections(scheduleId: number, startDate: string, endDate: string) {
+    const result = await pool.query(
+      `SELECT projection_date::text, start_time::text, end_time::text
+       FROM pgcalendar.generate_projections($1, $2::date, $3::date)`,
+      [scheduleId, startDate, endDate],
+    );
+    return result.rows;
+  }
+
+  describe('Unbounded series', () => {
+    it('should generate occurrences without an end date', async () => {
+      const scheduleId = await createSchedule({ startDate: '2024-01-01 09:00:00', durationMinutes: 30 });
+
+      expect(await projections(scheduleId, '2150-06-01', '2150-06-02')).toEqual([
+        { projection_date: '2150-06-01', start_time: '2150-06-01 09:00:00+00', end_time: '2150-06-01 09:30:00+00' },
+        { projection_date: '2150-06-02', start_time: '2150-06-02 09:00:00+00', end_time: '2150-06-02 09:30:00+00' },
+      ]);
+    });
+
+    it('should take the occurrence end time from occurrence_end_time', async () => {
+      const scheduleId = await createSchedule({ startDate: '2024-01-01 09:00:00', endTime: '17:30:00' });
+
+      expect(await projections(scheduleId, '2024-01-01', '2024-01-01')).toEqual([
+        { projection_date: '2024-01-01', start_time: '2024-01-01 09:00:00+00', end_time: '2024-01-01 17:30:00+00' },
+      ]);
+    });
+
+    it('should require a way to end each occurrence', async () => {
+      await expect(createSchedule({ startDate: '2024-01-01 09:00:00' }))
+        .rejects.toThrow(/occurrence_end_defined/);
+      await expect(createSchedule({ startDate: '2024-01-01 09:00:00', durationMinutes: 30, endTime: '10:00:00' }))
+        .rejects.toThrow(/single_occurrence_end/);
+    });
+
+    it('should overlap every later schedule of the event', async () => {
+      await createSchedule({ startDate: '2024-01-01 09:00:00', durationMinutes: 30 });
+
+      await expect(createSchedule({
+        startDate: '2090-01-01 09:00:00',
+        endDate: '2090-01-31 10:00:00',
+      })).rejects.toThrow(/overlap/);
+      await expect(createSchedule({
+        startDate: '2023-01-01 09:00:00',
+        endDate: '2023-12-31 10:00:00',
+      })).resolves.toBeGreaterThan(0);
+    });
+
+    it('should check unbounded ranges with check_schedule_overlap', async () => {
+      await createSchedule({ startDate: '2024-01-01 09:00:00', endDate: '2024-01-31 10:00:00' });
+
+      const result = await pool.query(
+        `SELECT pgcalendar.check_schedule_overlap($1, '2024-02-01 09:00:00', NULL) AS later,
+                pgcalendar.check_schedule_overlap($1, '2023-06-01 09:00:00', NULL) AS earlier`,
+        [eventId],
+      );
+
+      expect(result.rows[0]).toEqual({ later: false, earlier: true });
+    });
+  });
+
+  describe('Counted series', () => {
+    it('should stop after occurrence_count occurrences', async () => {
+      const scheduleId = await createSchedule({
+        startDate: '2024-01-01 09:00:00',
+        recurrenceType: 'weekly',
+        dayOfWeek: 1,
+        count: 3,
+        durationMinutes: 60,
+      });
+
+      expect((await projections(scheduleId, '2024-01-01', '2024-12-31')).map((p) => p.projection_date))
+        .toEqual(['2024-01-01', '2024-01-08', '2024-01-15']);
+    });
+
+    it('should count from the series start, cancelled occurrences included', async () => {
+      const scheduleId = await createSchedule({ startDate: '2024-01-01 09:00:00', count: 5, durationMinutes: 60 });
+      await pool.query(
+        `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type)
+         VALUES ($1, '2024-01-02', 'cancelled')`,
+        [scheduleId],
+      );
+
+      expect((await projections(scheduleId, '2024-01-02', '2024-01-31')).map((p) => p.projection_date))
+        .toEqual(['2024-01-03', '2024-01-04', '2024-01-05']);
+    });
+
+    it('should end at whichever comes first, the count or end_date', async () => {
+      const scheduleId = await createSchedule({
+        startDate: '2024-01-01 09:00:00',
+        endDate: '2024-01-03 10:00:00',
+        count: 5,
+      });
+
+      expect((await projections(scheduleId, '2024-01-01', '2024-01-31')).map((p) => p.projection_date))
+        .toEqual(['2024-01-01', '2024-01-02', '2024-01-03']);
+    });
+
+    it('should only overlap schedules within its counted occurrences', async () => {
+      await createSchedule({
+        startDate: '2024-01-01 09:00:00',
+        recurrenceType: 'weekly',
+        dayOfWeek: 1,
+        count: 3,
+        durationMinutes: 60,
+      });
+
+      await expect(createSchedule({ startDate: '2024-01-15 09:30:00', durationMinutes: 30 }))
+        .rejects.toThrow(/overlap/);
+      await expect(createSchedule({ startDate: '2024-01-16 09:00:00', durationMinutes: 30 }))
+        .resolves.toBeGreaterThan(0);
+    });
+
+    it('should create counted series with transition_event_schedule', async () => {
+      await createSchedule({ startDate: '2024-01-01 09:00:00', endDate: '2024-01-31 10:00:00' });
+
+      const result = await pool.query(
+        `SELECT pgcalendar.transition_event_schedule(
+           $1, '2024-02-05 09:00:00', NULL, 'weekly', 1, 1,
+           p_occurrence_count := 4, p_duration_minutes := 45
+         ) AS schedule_id`,
+        [eventId],
+      );
+
+      expect(await projections(result.rows[0].schedule_id, '2024-01-01', '2024-12-31')).toEqual([
+        { projection_date: '2024-02-05', start_time: '2024-02-05 09:00:00+00', end_time: '2024-02-05 09:45:00+00' },
+        { projection_date: '2024-02-12', start_time: '2024-02-12 09:00:00+00', end_time: '2024-02-12 09:45:00+00' },
+        { projection_date: '2024-02-19', start_time: '2024-02-19 09:00:00+00', end_time: '2024-02-19 09:45:00+00' },
+        { projection_date: '2024-02-26', start_time: '2024-02-26 09:00:00+00', end_time: '2024-02-26 09:45:00+00' },
+      ]);
+    });
+  });
+});
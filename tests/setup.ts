@@ -144,6 +144,10 @@ export async function cleanTestData(pool: Pool | null | undefined): Promise<void
     await pool.query('DELETE FROM pgcalendar.exceptions');
     await pool.query('DELETE FROM pgcalendar.schedules');
     await pool.query('DELETE FROM pgcalendar.events');
+    await pool.query('DELETE FROM pgcalendar.participants');
+    await pool.query('DELETE FROM pgcalendar.resources');
+    await pool.query('DELETE FROM pgcalendar.holiday_sets');
+    await pool.query('DELETE FROM pgcalendar.audit_log');
   } catch (error) {
     // Ignore errors if tables don't exist yet
     const errorMessage = (error as Error).message || '';
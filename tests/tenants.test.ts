@@ -0,0 +1,281 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData, dbConfig } from './setup';
+import { CalendarChange, ChangeSubscriber, PgCalendarClient } from '../src';
+
+describe('pgcalendar - Tenants', () => {
+  const role = 'pgcalendar_tenant_test';
+  let pool: Pool;
+  let admin: PgCalendarClient;
+  let acmePool: Pool;
+  let globexPool: Pool;
+  let acme: PgCalendarClient;
+  let globex: PgCalendarClient;
+
+  // A database role that does not bypass row-level security, with the grants of an application
+  function tenantPool(tenant?: string): Pool {
+    const tenantOption = tenant ? ` -c pgcalendar.tenant=${tenant}` : '';
+    return new Pool({ ...dbConfig, options: `-c role=${role}${tenantOption}`, max: 1 });
+  }
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    admin = new PgCalendarClient(pool);
+    await pool.query(`DO $$ BEGIN CREATE ROLE ${role} NOLOGIN; EXCEPTION WHEN duplicate_object THEN NULL; END $$`);
+    await pool.query(
+      `GRANT INSERT, UPDATE, DELETE ON pgcalendar.events, pgcalendar.schedules, pgcalendar.exceptions,
+         pgcalendar.participants, pgcalendar.attendees, pgcalendar.occurrence_responses,
+         pgcalendar.resources, pgcalendar.event_resources, pgcalendar.holiday_sets, pgcalendar.holidays,
+         pgcalendar.reminders, pgcalendar.reminder_deliveries, pgcalendar.projections TO ${role}`,
+    );
+    await pool.query(`GRANT USAGE ON ALL SEQUENCES IN SCHEMA pgcalendar TO ${role}`);
+    acmePool = tenantPool('acme');
+    globexPool = tenantPool('globex');
+    acme = new PgCalendarClient(acmePool);
+    globex = new PgCalendarClient(globexPool);
+  });
+
+  afterAll(async () => {
+    await acmePool.end();
+    await globexPool.end();
+    await pool.query(`DROP OWNED BY ${role}`);
+    await pool.query(`DROP ROLE ${role}`);
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+  });
+
+  afterEach(async () => {
+    await pool.query(
+      `UPDATE pgcalendar.projection_cache_settings
+       SET enabled = FALSE, window_start = NULL, window_end = NULL, refreshed_at = NULL`,
+    );
+    await pool.query('DELETE FROM pgcalendar.projections');
+  });
+
+  async function createStandup(client: PgCalendarClient, name: string) {
+    const event = await client.createEvent({ name });
+    const schedule = await client.createSchedule({
+      eventId: event.eventId,
+      startDate: '2024-01-01 09:00:00',
+      endDate: '2024-01-03 09:15:00',
+      recurrenceType: 'daily',
+    });
+    await client.createException({
+      scheduleId: schedule.scheduleId,
+      exceptionDate: '2024-01-02',
+      exceptionType: 'modified',
+      overrideName: `${name} (moved)`,
+    });
+    return { event, schedule };
+  }
+
+  async function eventNames(client: PgCalendarClient) {
+    const projections = await client.getEventsDetailed('2024-01-01', '2024-01-31');
+    return projections.map((p) => p.eventName);
+  }
+
+  it('should only show each tenant its own events, schedules, exceptions and projections', async () => {
+    const acmeStandup = await createStandup(acme, 'Acme standup');
+    const globexStandup = await createStandup(globex, 'Globex standup');
+    expect(acmeStandup.event.tenantId).toBe('acme');
+
+    expect((await acme.listEvents()).map((e) => e.name)).toEqual(['Acme standup']);
+    expect(await acme.getEvent(globexStandup.event.eventId)).toBeNull();
+    expect(await acme.getSchedule(globexStandup.schedule.scheduleId)).toBeNull();
+    expect(await acme.listExceptions(globexStandup.schedule.scheduleId)).toEqual([]);
+    expect(await acme.getEventProjections(globexStandup.event.eventId, '2024-01-01', '2024-01-31')).toEqual([]);
+    expect(await eventNames(acme)).toEqual(['Acme standup', 'Acme standup (moved)', 'Acme standup']);
+    expect(await eventNames(globex)).toEqual(['Globex standup', 'Globex standup (moved)', 'Globex standup']);
+
+    // Roles that bypass row-level security, like the table owner, see every tenant
+    expect((await admin.listEvents()).map((e) => e.tenantId)).toEqual(['acme', 'globex']);
+    expect(await eventNames(admin)).toHaveLength(6);
+
+    // Without the setting, only events without a tenant
+    const untenantedPool = tenantPool();
+    try {
+      expect(await new PgCalendarClient(untenantedPool).listEvents()).toEqual([]);
+    } finally {
+      await untenantedPool.end();
+    }
+  });
+
+  it('should not let a tenant change or add to another tenant\'s calendar', async () => {
+    const { event, schedule } = await createStandup(globex, 'Globex standup');
+
+    expect(await acme.updateEvent(event.eventId, { name: 'Hijacked' })).toBeNull();
+    expect(await acme.deleteSchedule(schedule.scheduleId)).toBe(false);
+    expect(await acme.deleteEvent(event.eventId)).toBe(false);
+    await expect(acme.createSchedule({
+      eventId: event.eventId,
+      startDate: '2024-02-01 09:00:00',
+      endDate: '2024-02-03 09:15:00',
+      recurrenceType: 'daily',
+    })).rejects.toThrow(/row-level security/);
+    await expect(acme.createEvent({ name: 'Planted', tenantId: 'globex' })).rejects.toThrow(/row-level security/);
+
+    const mine = await acme.createEvent({ name: 'Acme standup' });
+    await expect(acme.updateEvent(mine.eventId, { tenantId: 'globex' })).rejects.toThrow(/row-level security/);
+    expect((await globex.listEvents()).map((e) => e.name)).toEqual(['Globex standup']);
+    expect(await globex.listSchedules(event.eventId)).toHaveLength(1);
+  });
+
+  it('should keep participants, resources and holiday sets apart', async () => {
+    const ann = await acme.createParticipant({ name: 'Ann', email: 'ann@example.com' });
+    const annAtGlobex = await globex.createParticipant({ name: 'Ann', email: 'ann@example.com' });
+    const room = await acme.createResource({ name: 'Room A', exclusive: true });
+    await globex.createResource({ name: 'Room A', exclusive: true });
+    const acmeHolidays = await acme.loadHolidays('UK', [{ date: '2024-01-02', name: 'Closure' }]);
+    const globexHolidays = await globex.loadHolidays('UK', [{ date: '2024-01-03', name: 'Closure' }]);
+    expect(ann.tenantId).toBe('acme');
+    expect(globexHolidays.holidaySetId).not.toBe(acmeHolidays.holidaySetId);
+
+    expect(await acme.listParticipants()).toEqual([ann]);
+    expect((await acme.listResources()).map((r) => r.resourceId)).toEqual([room.resourceId]);
+    expect(await acme.listHolidaySets()).toEqual([acmeHolidays]);
+    expect(await acme.getHolidaySet('UK')).toEqual(acmeHolidays);
+    expect(await acme.listHolidays(globexHolidays.holidaySetId)).toEqual([]);
+    expect(await globex.getParticipant(ann.participantId)).toBeNull();
+
+    // Nor can a tenant's rows point at another tenant's
+    const { event } = await createStandup(acme, 'Acme standup');
+    await expect(acme.addAttendee(event.eventId, annAtGlobex.participantId)).rejects.toThrow(/row-level security/);
+    await expect(acme.createSchedule({
+      eventId: event.eventId,
+      startDate: '2024-02-01 09:00:00',
+      endDate: '2024-02-03 09:15:00',
+      recurrenceType: 'daily',
+      holidaySetId: globexHolidays.holidaySetId,
+    })).rejects.toThrow(/row-level security/);
+  });
+
+  it('should check bookings and holidays within the tenant', async () => {
+    const room = await acme.createResource({ name: 'Room A', exclusive: true });
+    const globexRoom = await globex.createResource({ name: 'Room A', exclusive: true });
+    const standup = await createStandup(acme, 'Acme standup');
+    const review = await acme.createEvent({ name: 'Acme review' });
+    await acme.addEventResource(standup.event.eventId, room.resourceId);
+    await acme.addEventResource(review.eventId, room.resourceId);
+    await expect(acme.addEventResource(review.eventId, globexRoom.resourceId)).rejects.toThrow(/row-level security/);
+
+    await expect(acme.createSchedule({
+      eventId: review.eventId,
+      startDate: '2024-01-03 09:00:00',
+      endDate: '2024-01-03 10:00:00',
+      recurrenceType: 'daily',
+    })).rejects.toThrow(/Resource Room A is double-booked/);
+
+    // Holiday changes refresh the cached projections of the tenant's schedules
+    await admin.extendProjectionWindow('2024-01-01', '2024-01-31');
+    await admin.setProjectionCacheEnabled(true);
+    const holidays = await acme.loadHolidays('Closures', []);
+    await acme.updateSchedule(standup.schedule.scheduleId, { holidaySetId: holidays.holidaySetId });
+    await acme.loadHolidays('Closures', [{ date: '2024-01-03', name: 'Closure' }]);
+    expect(await eventNames(acme)).toEqual(['Acme standup', 'Acme standup (moved)']);
+  });
+
+  it('should keep cached projections apart', async () => {
+    await createStandup(acme, 'Acme standup');
+    const globexStandup = await createStandup(globex, 'Globex standup');
+    await admin.extendProjectionWindow('2024-01-01', '2024-01-31');
+    await admin.setProjectionCacheEnabled(true);
+
+    expect(await eventNames(acme)).toEqual(['Acme standup', 'Acme standup (moved)', 'Acme standup']);
+    await globex.updateEvent(globexStandup.event.eventId, { name: 'Globex sync' });
+    expect(await eventNames(globex)).toEqual(['Globex sync', 'Globex standup (moved)', 'Globex sync']);
+    expect(await eventNames(acme)).toEqual(['Acme standup', 'Acme standup (moved)', 'Acme standup']);
+
+    await expect(acme.extendProjectionWindow('2024-01-01', '2024-02-29')).rejects.toThrow(/bypasses row-level security/);
+  });
+
+  it('should only tell each tenant about its own changes', async () => {
+    const subscriberPool = tenantPool('acme');
+    const acmeSubscriber = new ChangeSubscriber(subscriberPool);
+    const globexSubscriber = new ChangeSubscriber(pool, { tenantId: 'globex' });
+    const acmeChanges: CalendarChange[] = [];
+    const globexChanges: CalendarChange[] = [];
+    acmeSubscriber.on('change', (change) => acmeChanges.push(change));
+    globexSubscriber.on('change', (change) => globexChanges.push(change));
+    try {
+      await acmeSubscriber.start();
+      await globexSubscriber.start();
+      await createStandup(acme, 'Acme standup');
+      const globexStandup = await createStandup(globex, 'Globex standup');
+      await globex.deleteEvent(globexStandup.event.eventId);
+
+      // Notifications are delivered after the commit, asynchronously
+      for (let i = 0; i < 100 && globexChanges.length < 6; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      expect(acmeChanges.map((c) => `${c.entity} ${c.operation} ${c.tenantId}`)).toEqual([
+        'event insert acme',
+        'schedule insert acme',
+        'exception insert acme',
+      ]);
+      // Including the schedules and exceptions deleted along with the event
+      expect(globexChanges.map((c) => `${c.entity} ${c.operation} ${c.tenantId}`)).toEqual([
+        'event insert globex',
+        'schedule insert globex',
+        'exception insert globex',
+        'event delete globex',
+        'schedule delete globex',
+        'exception delete globex',
+      ]);
+    } finally {
+      await acmeSubscriber.stop();
+      await globexSubscriber.stop();
+      await subscriberPool.end();
+    }
+  });
+
+  it('should keep the history of each tenant apart', async () => {
+    const acmeStandup = await createStandup(acme, 'Acme standup');
+    const globexStandup = await createStandup(globex, 'Globex standup');
+    await globex.deleteEvent(globexStandup.event.eventId);
+
+    expect(await acme.getOccurrenceHistory(globexStandup.schedule.scheduleId, '2024-01-02')).toEqual([]);
+    const history = await globex.getOccurrenceHistory(globexStandup.schedule.scheduleId, '2024-01-02');
+    expect(history.map((h) => `${h.tableName} ${h.operation} ${h.tenantId}`)).toEqual([
+      'schedules insert globex',
+      'exceptions insert globex',
+      'schedules delete globex',
+      'exceptions delete globex',
+    ]);
+
+    const asOf = (await pool.query('SELECT clock_timestamp() AS now')).rows[0].now;
+    expect(await acme.getEventProjectionsAsOf(globexStandup.event.eventId, '2024-01-01', '2024-01-31', asOf))
+      .toEqual([]);
+    expect(await acme.getEventProjectionsAsOf(acmeStandup.event.eventId, '2024-01-01', '2024-01-31', asOf))
+      .toHaveLength(3);
+  });
+
+  it('should record the role that made a change, whoever pgcalendar.user names', async () => {
+    const db = await acmePool.connect();
+    try {
+      await db.query('BEGIN');
+      await db.query("SELECT set_config('pgcalendar.user', 'postgres', TRUE)");
+      await db.query("INSERT INTO pgcalendar.events (name) VALUES ('Standup')");
+      await db.query('COMMIT');
+    } finally {
+      db.release();
+    }
+
+    const log = await pool.query(
+      "SELECT changed_by, database_user FROM pgcalendar.audit_log WHERE table_name = 'events'",
+    );
+    expect(log.rows).toEqual([{ changed_by: 'postgres', database_user: role }]);
+  });
+
+  it('should not let applications write the audit log themselves', async () => {
+    const event = await acme.createEvent({ name: 'Standup' });
+
+    await expect(acmePool.query(
+      `INSERT INTO pgcalendar.audit_log (table_name, row_id, tenant_id, operation)
+       VALUES ('events', $1, 'acme', 'delete')`,
+      [event.eventId],
+    )).rejects.toThrow(/permission denied/);
+    const log = await acmePool.query('SELECT operation FROM pgcalendar.audit_log WHERE row_id = $1', [event.eventId]);
+    expect(log.rows).toEqual([{ operation: 'insert' }]);
+  });
+});
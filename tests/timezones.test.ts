@@ -0,0 +1,137 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+import { PgCalendarClient } from '../src';
+
+describe('pgcalendar - Time Zones', () => {
+  let pool: Pool;
+  let eventId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const eventResult = await pool.query(
+      `INSERT INTO pgcalendar.events (name) VALUES ($1) RETURNING event_id`,
+      ['Standup'],
+    );
+    eventId = eventResult.rows[0].event_id;
+  });
+
+  async function createSchedule(startDate: string, endDate: string, timeZone: string | null) {
+    const result = await pool.query(
+      `INSERT INTO pgcalendar.schedules (event_id, start_date, end_date, recurrence_type, time_zone)
+       VALUES ($1, $2, $3, 'daily', $4)
+       RETURNING schedule_id`,
+      [eventId, startDate, endDate, timeZone],
+    );
+    return result.rows[0].schedule_id;
+  }
+
+  it('should reject unknown time zones', async () => {
+    await expect(createSchedule('2024-03-01 09:00:00', '2024-03-31 09:15:00', 'Mars/Olympus_Mons'))
+      .rejects.toThrow();
+    await expect(createSchedule('2024-03-01 09:00:00', '2024-03-31 09:15:00', 'UTC+3'))
+      .rejects.toThrow(/valid_time_zone/);
+  });
+
+  it('should keep the local wall-clock time across DST changes', async () => {
+    const scheduleId = await createSchedule('2024-03-09 09:00:00', '2024-03-31 09:15:00', 'America/New_York');
+
+    const result = await pool.query(
+      `SELECT projection_date::text,
+              to_char(start_time AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI') AS start_utc,
+              to_char(start_time AT TIME ZONE 'America/New_York', 'HH24:MI') AS start_local
+       FROM pgcalendar.generate_projections($1, '2024-03-09', '2024-03-11')`,
+      [scheduleId],
+    );
+
+    expect(result.rows).toEqual([
+      { projection_date: '2024-03-09', start_utc: '2024-03-09 14:00', start_local: '09:00' },
+      { projection_date: '2024-03-10', start_utc: '2024-03-10 13:00', start_local: '09:00' },
+      { projection_date: '2024-03-11', start_utc: '2024-03-11 13:00', start_local: '09:00' },
+    ]);
+  });
+
+  it('should read modified exception times in the schedule time zone', async () => {
+    const scheduleId = await createSchedule('2024-03-01 09:00:00', '2024-03-31 09:15:00', 'Europe/London');
+    await pool.query(
+      `INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type, modified_start_time)
+       VALUES ($1, '2024-03-31', 'modified', '2024-03-31 11:00:00')`,
+      [scheduleId],
+    );
+
+    const result = await pool.query(
+      `SELECT to_char(start_time AT TIME ZONE 'UTC', 'HH24:MI') AS start_utc, local_start_time::text
+       FROM pgcalendar.get_event_projections($1, '2024-03-31', '2024-03-31')`,
+      [eventId],
+    );
+
+    expect(result.rows).toEqual([{ start_utc: '10:00', local_start_time: '2024-03-31 11:00:00' }]);
+  });
+
+  it('should compare schedules in different time zones as instants', async () => {
+    // 09:00-09:15 in New York ends at 14:15 UTC on the last day
+    await createSchedule('2024-01-01 09:00:00', '2024-01-31 09:15:00', 'America/New_York');
+
+    await expect(createSchedule('2024-01-31 14:00:00', '2024-02-29 15:00:00', 'Europe/London'))
+      .rejects.toThrow(/overlap/);
+    await expect(createSchedule('2024-01-31 14:30:00', '2024-02-29 15:00:00', 'Europe/London'))
+      .resolves.toBeDefined();
+
+    const overlap = await pool.query(
+      `SELECT pgcalendar.check_schedule_overlap($1, '2024-01-31 23:00:00', '2024-01-31 23:10:00', 'Asia/Tokyo') AS a,
+              pgcalendar.check_schedule_overlap($1, '2024-01-31 23:20:00', '2024-01-31 23:25:00', 'Asia/Tokyo') AS b`,
+      [eventId],
+    );
+    expect(overlap.rows[0]).toEqual({ a: true, b: false });
+  });
+
+  describe('get_events_detailed in a viewer time zone', () => {
+    beforeEach(async () => {
+      // 21:00 in New York is 02:00 the next day in London
+      await createSchedule('2024-01-01 21:00:00', '2024-01-10 22:00:00', 'America/New_York');
+    });
+
+    it('should select and report occurrences by the viewer dates', async () => {
+      const result = await pool.query(
+        `SELECT projection_date::text, local_start_time::text, time_zone
+         FROM pgcalendar.get_events_detailed('2024-01-05', '2024-01-06', 'Europe/London')`,
+      );
+
+      expect(result.rows).toEqual([
+        { projection_date: '2024-01-04', local_start_time: '2024-01-05 02:00:00', time_zone: 'Europe/London' },
+        { projection_date: '2024-01-05', local_start_time: '2024-01-06 02:00:00', time_zone: 'Europe/London' },
+      ]);
+    });
+
+    it('should use schedule local times without a viewer time zone', async () => {
+      const result = await pool.query(
+        `SELECT projection_date::text, local_start_time::text, time_zone
+         FROM pgcalendar.get_events_detailed('2024-01-05', '2024-01-05')`,
+      );
+
+      expect(result.rows).toEqual([
+        { projection_date: '2024-01-05', local_start_time: '2024-01-05 21:00:00', time_zone: 'America/New_York' },
+      ]);
+    });
+
+    it('should reject unknown viewer time zones', async () => {
+      await expect(
+        pool.query(`SELECT * FROM pgcalendar.get_events_detailed('2024-01-05', '2024-01-06', 'Nowhere/City')`),
+      ).rejects.toThrow(/Unknown time zone/);
+    });
+
+    it('should be exposed through the client', async () => {
+      const client = new PgCalendarClient(pool);
+
+      const projections = await client.getEventsDetailed('2024-01-05', '2024-01-05', 'Asia/Tokyo');
+
+      expect(projections).toHaveLength(1);
+      expect(projections[0].startTime.toISOString()).toBe('2024-01-05T02:00:00.000Z');
+      expect(projections[0].timeZone).toBe('Asia/Tokyo');
+      expect(projections[0].localStartTime).toEqual(new Date(2024, 0, 5, 11, 0, 0));
+    });
+  });
+});
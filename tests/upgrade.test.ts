@@ -0,0 +1,83 @@
+import { Pool } from 'pg';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setupTestDatabase, dbConfig } from './setup';
+import { PgCalendarClient } from '../src';
+
+describe('pgcalendar - Upgrade', () => {
+  // A database of its own, as the upgraded schema replaces the one the other suites use
+  const database = `${dbConfig.database}_upgrade`;
+  const script = fs.readFileSync(path.join(__dirname, '../pgcalendar.sql'), 'utf8');
+  let pool: Pool;
+  let upgradePool: Pool;
+  let client: PgCalendarClient;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+    await pool.query(`DROP DATABASE IF EXISTS ${database}`);
+    await pool.query(`CREATE DATABASE ${database}`);
+    upgradePool = new Pool({ ...dbConfig, database });
+    client = new PgCalendarClient(upgradePool);
+
+    // A 1.0.0 installation with a calendar in it
+    await upgradePool.query(fs.readFileSync(path.join(__dirname, 'fixtures/pgcalendar-1.0.0.sql'), 'utf8'));
+    await upgradePool.query(`
+      INSERT INTO pgcalendar.events (name, category) VALUES ('Standup', 'meeting');
+      INSERT INTO pgcalendar.schedules (event_id, start_date, end_date, recurrence_type)
+      SELECT event_id, '2024-01-01 09:00:00', '2024-01-05 09:15:00', 'daily' FROM pgcalendar.events;
+      INSERT INTO pgcalendar.exceptions (schedule_id, exception_date, exception_type)
+      SELECT schedule_id, '2024-01-03', 'cancelled' FROM pgcalendar.schedules;
+    `);
+  });
+
+  afterAll(async () => {
+    await upgradePool.end();
+    await pool.query(`DROP DATABASE IF EXISTS ${database}`);
+  });
+
+  it('should upgrade a 1.0.0 installation in one transaction', async () => {
+    await upgradePool.query(script);
+
+    const [event] = await client.listEvents();
+    expect(event).toMatchObject({ name: 'Standup', location: null, tenantId: null });
+    const [schedule] = await client.listSchedules(event.eventId);
+    expect(schedule).toMatchObject({ missingDayPolicy: 'skip', weekendDays: [0, 6], holidayPolicy: 'skip' });
+    const projections = await client.getEventProjections(event.eventId, '2024-01-01', '2024-01-31');
+    expect(projections.map((p) => p.projectionDate)).toEqual(['2024-01-01', '2024-01-02', '2024-01-04', '2024-01-05']);
+
+    // The rows from before the upgrade start their history
+    expect(await client.getOccurrenceHistory(schedule.scheduleId, '2024-01-03')).toHaveLength(2);
+  });
+
+  it('should use the enum values and columns it added once committed', async () => {
+    const [event] = await client.listEvents();
+    const [schedule] = await client.listSchedules(event.eventId);
+    await client.createException({
+      scheduleId: schedule.scheduleId,
+      exceptionDate: '2024-01-06',
+      exceptionType: 'added',
+    });
+    await client.createSchedule({
+      eventId: event.eventId,
+      startDate: '2024-02-01 09:00:00',
+      recurrenceType: 'business_day',
+      durationMinutes: 15,
+      occurrenceCount: 3,
+    });
+
+    const projections = await client.getEventProjections(event.eventId, '2024-01-01', '2024-02-29');
+    expect(projections.map((p) => p.projectionDate)).toEqual([
+      '2024-01-01', '2024-01-02', '2024-01-04', '2024-01-05', '2024-01-06',
+      '2024-02-01', '2024-02-02', '2024-02-05',
+    ]);
+  });
+
+  it('should leave an upgraded installation as it is when run again', async () => {
+    const [event] = await client.listEvents();
+    const before = await client.getEventProjections(event.eventId, '2024-01-01', '2024-02-29');
+    await upgradePool.query(script);
+
+    expect(await client.getEventProjections(event.eventId, '2024-01-01', '2024-02-29')).toEqual(before);
+    expect(await client.listEvents()).toEqual([event]);
+  });
+});
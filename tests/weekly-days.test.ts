@@ -0,0 +1,89 @@
+import { Pool } from 'pg';
+import { setupTestDatabase, cleanTestData } from './setup';
+
+describe('pgcalendar - Weekly Days', () => {
+  let pool: Pool;
+  let eventId: number;
+
+  beforeAll(async () => {
+    pool = await setupTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanTestData(pool);
+    const eventResult = await pool.query(
+      `INSERT INTO pgcalendar.events (name) VALUES ($1) RETURNING event_id`,
+      ['Weekly Event'],
+    );
+    eventId = eventResult.rows[0].event_id;
+  });
+
+  async function createSchedule(
+    startDate: string,
+    interval: number,
+    daysOfWeek: number[] | null,
+    dayOfWeek: number | null = null,
+  ): Promise<number> {
+    const result = await pool.query(
+      `INSERT INTO pgcalendar.schedules
+       (event_id, start_date, end_date, recurrence_type, recurrence_interval,
+        recurrence_day_of_week, recurrence_days_of_week)
+       VALUES ($1, $2, '2024-01-31 11:00:00', 'weekly', $3, $4, $5)
+       RETURNING schedule_id`,
+      [eventId, startDate, interval, dayOfWeek, daysOfWeek],
+    );
+    return result.rows[0].schedule_id;
+  }
+
+  async function projectionDates(scheduleId: number) {
+    const result = await pool.query(
+      `SELECT projection_date::text FROM pgcalendar.generate_projections($1, '2024-01-01', '2024-01-31')`,
+      [scheduleId],
+    );
+    return result.rows.map((row) => row.projection_date);
+  }
+
+  it('should generate a Monday/Wednesday/Friday class from one schedule', async () => {
+    const scheduleId = await createSchedule('2024-01-01 10:00:00', 1, [1, 3, 5]);
+
+    expect(await projectionDates(scheduleId)).toEqual([
+      '2024-01-01', '2024-01-03', '2024-01-05',
+      '2024-01-08', '2024-01-10', '2024-01-12',
+      '2024-01-15', '2024-01-17', '2024-01-19',
+      '2024-01-22', '2024-01-24', '2024-01-26',
+      '2024-01-29', '2024-01-31',
+    ]);
+  });
+
+  it('should apply the interval per week, not per day', async () => {
+    // Starts on a Wednesday: the rest of that week, then every other week
+    const scheduleId = await createSchedule('2024-01-03 10:00:00', 2, [1, 3, 5]);
+
+    expect(await projectionDates(scheduleId)).toEqual([
+      '2024-01-03', '2024-01-05', '2024-01-15', '2024-01-17', '2024-01-19', '2024-01-29', '2024-01-31',
+    ]);
+  });
+
+  it('should not drop days when the start date is on another weekday', async () => {
+    // Starts on a Tuesday with recurrence_day_of_week = Thursday
+    const scheduleId = await createSchedule('2024-01-02 10:00:00', 2, null, 4);
+
+    expect(await projectionDates(scheduleId)).toEqual(['2024-01-04', '2024-01-18']);
+  });
+
+  it('should reject invalid days of week', async () => {
+    await expect(createSchedule('2024-01-01 10:00:00', 1, [1, 7])).rejects.toThrow(/valid_days_of_week/);
+    await expect(createSchedule('2024-01-01 10:00:00', 1, [])).rejects.toThrow(/valid_days_of_week/);
+  });
+
+  it('should convert to an RRULE with a BYDAY list', async () => {
+    const scheduleId = await createSchedule('2024-01-01 10:00:00', 2, [5, 1, 3]);
+    const before = await projectionDates(scheduleId);
+
+    const result = await pool.query('SELECT pgcalendar.convert_schedule_to_rrule($1) AS rrule', [scheduleId]);
+
+    expect(result.rows[0].rrule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR');
+    await pool.query('UPDATE pgcalendar.schedules SET rrule = $2 WHERE schedule_id = $1', [scheduleId, result.rows[0].rrule]);
+    expect(await projectionDates(scheduleId)).toEqual(before);
+  });
+});